@@ -0,0 +1,10 @@
+/** @type {import('jest').Config} */
+module.exports = {
+  preset: 'ts-jest',
+  testEnvironment: 'node',
+  roots: ['<rootDir>/tests'],
+  setupFiles: ['<rootDir>/tests/setup.ts'],
+  setupFilesAfterEnv: ['<rootDir>/tests/teardown.ts'],
+  // Integration runs share one database; keep them in a single worker
+  maxWorkers: process.env.TEST_DATABASE === 'true' ? 1 : '50%',
+};
@@ -0,0 +1,81 @@
+import express, { Application, Request, Response } from 'express';
+import bodyParser from 'body-parser';
+import { createRoutes } from './routes';
+import { createHealthRoutes } from './routes/healthRoutes';
+import { createMetricsRoutes } from './routes/metricsRoutes';
+import { createLogLevelRoutes } from './routes/logLevelRoutes';
+import { DocumentedRouter } from './routes/registry';
+import { Container, createContainer } from './container';
+import { errorHandler, notFound } from './middleware/errorHandler';
+import { requestLogger, errorLogger } from './middleware/logger';
+import { traceRequests } from './middleware/tracing';
+import { requestContext } from './middleware/requestContext';
+import { createHttpMetrics } from './middleware/metrics';
+import { cors } from './middleware/cors';
+import { securityHeaders } from './middleware/securityHeaders';
+import { config } from './config';
+
+/**
+ * Application factory
+ * Builds the Express app without starting a server or touching the database,
+ * so tests can create as many apps as they need with their own bindings.
+ * @param container - Dependency bindings; defaults to the production composition root
+ */
+export function createApp(container: Container = createContainer()): Application {
+  const app: Application = express();
+
+  // Behind a proxy, req.ip must be the client's address for per-IP rate limits
+  app.set('trust proxy', config.server.trustProxy);
+  app.disable('x-powered-by');
+
+  // Tracing, request context and request logging middleware
+  // First, so that every rejection below is traced and logged with a request ID
+  app.use(traceRequests);
+  app.use(requestContext);
+  app.use(requestLogger(config.log));
+  app.use(createHttpMetrics(container.resolve('metrics')));
+
+  // Security middleware
+  app.use(securityHeaders(config.security.headers));
+  app.use(cors(config.security.cors));
+
+  // Body parsers; bodies over the limit are rejected with 413
+  // JSON also covers structured +json types such as application/merge-patch+json
+  const { limit, parameterLimit } = config.security.body;
+  app.use(bodyParser.json({ type: ['application/json', 'application/*+json'], limit }));
+  app.use(bodyParser.urlencoded({ extended: true, limit, parameterLimit }));
+
+  const registry = container.resolve('routeRegistry');
+  const root = new DocumentedRouter();
+
+  // Basic route
+  root.get('/', {
+    operationId: 'index',
+    summary: 'Server information and the list of endpoints',
+    tags: ['Server'],
+    responses: { 200: { description: 'Server information' } },
+  }, (req: Request, res: Response) => {
+    res.json({
+      message: 'Express TypeScript MVC Server is running!',
+      version: '1.0.0',
+      endpoints: registry.endpoints()
+    });
+  });
+
+  app.use(registry.mount('', root));
+
+  // Liveness and readiness probes
+  app.use(registry.mount('', createHealthRoutes(container)));
+  app.use(registry.mount('', createMetricsRoutes(container)));
+  app.use(registry.mount('', createLogLevelRoutes(container)));
+
+  // API routes
+  app.use(createRoutes(container));
+
+  // Error handling middleware
+  app.use(errorLogger);
+  app.use(notFound);
+  app.use(errorHandler);
+
+  return app;
+}
@@ -0,0 +1,74 @@
+/**
+ * Counters kept by a cache since it was created
+ */
+export interface CacheStats {
+  backend: string;
+  hits: number;
+  misses: number;
+  /**
+   * hits / (hits + misses); 0 before the first read
+   */
+  hitRate: number;
+  sets: number;
+  deletes: number;
+  /**
+   * Entries dropped to stay under the size limit; in-process backends only
+   */
+  evictions?: number;
+  /**
+   * Entries currently stored; in-process backends only
+   */
+  size?: number;
+  /**
+   * Backend failures, each of which was treated as a miss or skipped write
+   */
+  errors?: number;
+}
+
+/**
+ * Cache Interface
+ * Key-value store with per-entry TTLs used for read-through caching, so that
+ * the in-process and the Redis backends can be swapped in the container.
+ * Values must be JSON serializable; Dates are kept.
+ */
+export interface ICache {
+  /**
+   * Get a value, or undefined on a miss or once it has expired
+   * @param key - Cache key
+   */
+  get<T>(key: string): Promise<T | undefined>;
+
+  /**
+   * Store a value
+   * @param key - Cache key
+   * @param value - Value to store
+   * @param ttlSeconds - Seconds until the entry expires
+   */
+  set<T>(key: string, value: T, ttlSeconds: number): Promise<void>;
+
+  /**
+   * Remove entries
+   * @param keys - Cache keys
+   */
+  delete(...keys: string[]): Promise<void>;
+
+  stats(): CacheStats;
+
+  /**
+   * Check that the backend answers; rejects when it does not
+   */
+  ping(): Promise<void>;
+
+  /**
+   * Release connections held by the backend
+   */
+  close(): Promise<void>;
+}
+
+/**
+ * Share of reads answered from the cache
+ */
+export function hitRate(hits: number, misses: number): number {
+  const reads = hits + misses;
+  return reads === 0 ? 0 : hits / reads;
+}
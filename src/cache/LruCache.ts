@@ -0,0 +1,75 @@
+import { CacheStats, ICache, hitRate } from './ICache';
+import { deserialize, serialize } from './serialize';
+
+interface Entry {
+  value: string;
+  expiresAt: number;
+}
+
+/**
+ * In-process least recently used cache
+ * Relies on Map keeping insertion order: reads move an entry to the end, so
+ * the first entry is always the one to evict. Values are stored serialized,
+ * as in Redis, so callers cannot change what other callers get.
+ */
+export class LruCache implements ICache {
+  private entries = new Map<string, Entry>();
+  private counters = { hits: 0, misses: 0, sets: 0, deletes: 0, evictions: 0 };
+
+  /**
+   * @param maxEntries - Entries kept before the least recently used are evicted
+   */
+  constructor(private readonly maxEntries: number) {}
+
+  public async get<T>(key: string): Promise<T | undefined> {
+    const entry = this.entries.get(key);
+    this.entries.delete(key);
+
+    if (!entry || entry.expiresAt <= Date.now()) {
+      this.counters.misses++;
+      return undefined;
+    }
+
+    this.entries.set(key, entry);
+    this.counters.hits++;
+    return deserialize(entry.value) as T;
+  }
+
+  public async set<T>(key: string, value: T, ttlSeconds: number): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { value: serialize(value), expiresAt: Date.now() + ttlSeconds * 1000 });
+    this.counters.sets++;
+
+    for (const oldest of this.entries.keys()) {
+      if (this.entries.size <= this.maxEntries) {
+        break;
+      }
+      this.entries.delete(oldest);
+      this.counters.evictions++;
+    }
+  }
+
+  public async delete(...keys: string[]): Promise<void> {
+    for (const key of keys) {
+      this.entries.delete(key);
+    }
+    this.counters.deletes += keys.length;
+  }
+
+  public stats(): CacheStats {
+    return {
+      backend: 'memory',
+      ...this.counters,
+      hitRate: hitRate(this.counters.hits, this.counters.misses),
+      size: this.entries.size,
+    };
+  }
+
+  public async ping(): Promise<void> {
+    // Always reachable: it lives in this process
+  }
+
+  public async close(): Promise<void> {
+    this.entries.clear();
+  }
+}
@@ -0,0 +1,24 @@
+import { CacheStats, ICache } from './ICache';
+
+/**
+ * Cache that keeps nothing, for CACHE_DRIVER=none
+ * Every read misses, so health checks and statistics show that no cache is
+ * in use instead of describing one that nothing reads from.
+ */
+export class NoCache implements ICache {
+  public async get<T>(_key: string): Promise<T | undefined> {
+    return undefined;
+  }
+
+  public async set<T>(_key: string, _value: T, _ttlSeconds: number): Promise<void> {}
+
+  public async delete(..._keys: string[]): Promise<void> {}
+
+  public stats(): CacheStats {
+    return { backend: 'none', hits: 0, misses: 0, hitRate: 0, sets: 0, deletes: 0 };
+  }
+
+  public async ping(): Promise<void> {}
+
+  public async close(): Promise<void> {}
+}
@@ -0,0 +1,93 @@
+import { CacheStats, ICache, hitRate } from './ICache';
+import { Logger } from '../utils/logger';
+import { deserialize, serialize } from './serialize';
+
+/**
+ * Commands RedisCache needs, as offered by ioredis and any client or
+ * stand-in with the same signatures
+ */
+export interface RedisClient {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, mode: 'PX', milliseconds: number): Promise<unknown>;
+  del(...keys: string[]): Promise<number>;
+  ping(): Promise<unknown>;
+  quit(): Promise<unknown>;
+}
+
+/**
+ * Cache shared by every instance of the app through Redis
+ * A Redis outage must not take reads down with it: failed reads count as
+ * misses and failed writes are logged and skipped. Stats are counted by
+ * this process only.
+ */
+export class RedisCache implements ICache {
+  private counters = { hits: 0, misses: 0, sets: 0, deletes: 0, errors: 0 };
+  private logger: Logger;
+
+  /**
+   * @param client - Connected Redis client
+   * @param keyPrefix - Namespace for the keys of this app
+   * @param logger - Logger for backend failures
+   */
+  constructor(private readonly client: RedisClient, private readonly keyPrefix: string, logger: Logger) {
+    this.logger = logger.child({ module: 'RedisCache' });
+  }
+
+  public async get<T>(key: string): Promise<T | undefined> {
+    try {
+      const text = await this.client.get(this.keyPrefix + key);
+      if (text === null) {
+        this.counters.misses++;
+        return undefined;
+      }
+      this.counters.hits++;
+      return deserialize(text) as T;
+    } catch (error) {
+      this.counters.errors++;
+      this.counters.misses++;
+      this.logger.warn(`Cache read failed for ${key}`, error as Error);
+      return undefined;
+    }
+  }
+
+  public async set<T>(key: string, value: T, ttlSeconds: number): Promise<void> {
+    try {
+      await this.client.set(this.keyPrefix + key, serialize(value), 'PX', ttlSeconds * 1000);
+      this.counters.sets++;
+    } catch (error) {
+      this.counters.errors++;
+      this.logger.warn(`Cache write failed for ${key}`, error as Error);
+    }
+  }
+
+  public async delete(...keys: string[]): Promise<void> {
+    if (keys.length === 0) {
+      return;
+    }
+
+    try {
+      await this.client.del(...keys.map(key => this.keyPrefix + key));
+      this.counters.deletes += keys.length;
+    } catch (error) {
+      // Entries that could not be removed stay stale until their TTL runs out
+      this.counters.errors++;
+      this.logger.error(`Cache invalidation failed for ${keys.join(', ')}`, error as Error);
+    }
+  }
+
+  public stats(): CacheStats {
+    return {
+      backend: 'redis',
+      ...this.counters,
+      hitRate: hitRate(this.counters.hits, this.counters.misses),
+    };
+  }
+
+  public async ping(): Promise<void> {
+    await this.client.ping();
+  }
+
+  public async close(): Promise<void> {
+    await this.client.quit();
+  }
+}
@@ -0,0 +1,24 @@
+const DATE_TAG = '$date';
+
+/**
+ * Encode a cached value as JSON with Dates tagged, so that they come back
+ * as Dates instead of strings
+ */
+export function serialize(value: unknown): string {
+  return JSON.stringify(value, function (this: Record<string, unknown>, key: string, json: unknown) {
+    const raw = this[key];
+    return raw instanceof Date ? { [DATE_TAG]: raw.toISOString() } : json;
+  });
+}
+
+/**
+ * Decode a value encoded by serialize
+ */
+export function deserialize(text: string): unknown {
+  return JSON.parse(text, (_key, value: unknown) => {
+    const tagged = value as Record<string, unknown> | null;
+    return typeof tagged === 'object' && tagged !== null && typeof tagged[DATE_TAG] === 'string'
+      ? new Date(tagged[DATE_TAG] as string)
+      : value;
+  });
+}
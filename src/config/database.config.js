@@ -1,38 +1,14 @@
-require('dotenv').config();
+// sequelize-cli reads this file directly, so it compiles the typed config
+// module on the fly instead of reading POSTGRES_* itself
+require('ts-node/register/transpile-only');
+
+const { config } = require('./index');
 
 module.exports = {
-  development: {
-    username: process.env.POSTGRES_USER || 'admin',
-    password: process.env.POSTGRES_PASSWORD || 'admin123',
-    database: process.env.POSTGRES_DB || 'express_mvc_db',
-    host: process.env.POSTGRES_HOST || 'localhost',
-    port: parseInt(process.env.POSTGRES_PORT || '5432'),
+  [config.env]: {
+    ...config.database,
     dialect: 'postgres',
-    logging: console.log,
+    logging: config.env === 'development' ? console.log : false,
     seederStorage: 'sequelize',
   },
-  test: {
-    username: process.env.POSTGRES_USER || 'admin',
-    password: process.env.POSTGRES_PASSWORD || 'admin123',
-    database: process.env.POSTGRES_DB_TEST || 'express_mvc_test',
-    host: process.env.POSTGRES_HOST || 'localhost',
-    port: parseInt(process.env.POSTGRES_PORT || '5432'),
-    dialect: 'postgres',
-    logging: false,
-  },
-  production: {
-    username: process.env.POSTGRES_USER,
-    password: process.env.POSTGRES_PASSWORD,
-    database: process.env.POSTGRES_DB,
-    host: process.env.POSTGRES_HOST,
-    port: parseInt(process.env.POSTGRES_PORT || '5432'),
-    dialect: 'postgres',
-    logging: false,
-    pool: {
-      max: 10,
-      min: 2,
-      acquire: 30000,
-      idle: 10000,
-    },
-  },
 };
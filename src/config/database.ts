@@ -1,74 +1,38 @@
 import { Sequelize, Options } from 'sequelize';
 import { Logger } from '../utils/logger';
+import { config as appConfig } from './index';
+import { WORD_SIMILARITY_THRESHOLD } from '../utils/search';
 
 const logger = new Logger({ module: 'Database' });
 
-const env = process.env.NODE_ENV || 'development';
-
-interface DatabaseConfig {
-  username: string;
-  password: string;
-  database: string;
-  host: string;
-  port: number;
-  dialect: 'postgres';
-  logging?: boolean | ((sql: string, timing?: number) => void);
-  pool?: {
-    max: number;
-    min: number;
-    acquire: number;
-    idle: number;
-  };
-}
-
-const config: Record<string, DatabaseConfig> = {
-  development: {
-    username: process.env.POSTGRES_USER || 'admin',
-    password: process.env.POSTGRES_PASSWORD || 'admin123',
-    database: process.env.POSTGRES_DB || 'express_mvc_db',
-    host: process.env.POSTGRES_HOST || 'localhost',
-    port: parseInt(process.env.POSTGRES_PORT || '5432'),
-    dialect: 'postgres',
-    logging: (sql: string) => logger.debug(sql),
-  },
-  test: {
-    username: process.env.POSTGRES_USER || 'admin',
-    password: process.env.POSTGRES_PASSWORD || 'admin123',
-    database: process.env.POSTGRES_DB_TEST || 'express_mvc_test',
-    host: process.env.POSTGRES_HOST || 'localhost',
-    port: parseInt(process.env.POSTGRES_PORT || '5432'),
-    dialect: 'postgres',
-    logging: false,
+/**
+ * Connection options for the current environment
+ * Development logs every query; production keeps a larger pool. Every
+ * connection sets the threshold of fuzzy user search.
+ */
+const dbConfig: Options = {
+  ...appConfig.database,
+  dialect: 'postgres',
+  dialectOptions: {
+    options: `-c pg_trgm.word_similarity_threshold=${WORD_SIMILARITY_THRESHOLD}`,
   },
-  production: {
-    username: process.env.POSTGRES_USER || '',
-    password: process.env.POSTGRES_PASSWORD || '',
-    database: process.env.POSTGRES_DB || '',
-    host: process.env.POSTGRES_HOST || 'localhost',
-    port: parseInt(process.env.POSTGRES_PORT || '5432'),
-    dialect: 'postgres',
-    logging: false,
+  logging: appConfig.env === 'development' ? (sql: string) => logger.debug(sql) : false,
+  ...(appConfig.env === 'production' && {
     pool: {
       max: 10,
       min: 2,
       acquire: 30000,
       idle: 10000,
     },
-  },
+  }),
 };
 
-const dbConfig = config[env];
-
-if (!dbConfig) {
-  throw new Error(`Database configuration not found for environment: ${env}`);
-}
+/**
+ * Options by environment, the shape sequelize-cli expects
+ */
+const config: Record<string, Options> = { [appConfig.env]: dbConfig };
 
-const sequelize = new Sequelize(
-  dbConfig.database,
-  dbConfig.username,
-  dbConfig.password,
-  dbConfig as Options
-);
+const sequelize = new Sequelize(dbConfig);
 
 // Test database connection
 export async function testConnection(): Promise<void> {
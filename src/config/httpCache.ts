@@ -0,0 +1,28 @@
+import { CachePolicy } from '../utils/httpCache';
+import { config } from './index';
+
+/**
+ * Cache policies of the read routes
+ * Max ages are in seconds
+ */
+export const cachePolicies = {
+  /**
+   * Users change at any time and `includeDeleted` depends on the caller,
+   * so only the client may store them and it revalidates on every use
+   */
+  users: { scope: 'private', noCache: true },
+  /**
+   * Greetings only differ by their generation time
+   */
+  hello: { scope: 'public', maxAge: config.httpCache.helloMaxAge, ignore: ['timestamp'] },
+  /**
+   * A new language is picked on every call; reusing one requires revalidation
+   */
+  helloRandom: { scope: 'public', noCache: true, ignore: ['timestamp'] },
+  /**
+   * The language list only changes with a deployment
+   */
+  helloLanguages: { scope: 'public', maxAge: config.httpCache.helloLanguagesMaxAge },
+} satisfies Record<string, CachePolicy>;
+
+export default cachePolicies;
@@ -0,0 +1,378 @@
+import path from 'path';
+import dotenv from 'dotenv';
+import { FieldError, ObjectSchema, validateObject } from '../utils/validation';
+import { CorsOptions } from '../middleware/cors';
+import { SecurityHeadersOptions } from '../middleware/securityHeaders';
+import { RateLimitPolicy } from '../rateLimit/slidingWindow';
+import { DRIVERS, Environment, LOG_LEVELS, TRACE_EXPORTERS, envSchema } from './schema';
+
+export type Driver = typeof DRIVERS[number];
+
+export type TraceExporter = typeof TRACE_EXPORTERS[number];
+
+export type LogLevel = typeof LOG_LEVELS[number];
+
+type Quota = Pick<RateLimitPolicy, 'limit' | 'windowSeconds'>;
+
+/**
+ * Settings of the whole app, parsed and validated from the environment
+ * Durations are in seconds unless the name says otherwise.
+ */
+export interface AppConfig {
+  env: Environment;
+  server: {
+    port: number;
+    /**
+     * Express `trust proxy` setting; decides which address `req.ip` reports
+     */
+    trustProxy: boolean | number;
+  };
+  health: {
+    /**
+     * Time each readiness check gets before it counts as failed
+     */
+    checkTimeoutMs: number;
+    /**
+     * Time between failing readiness and closing the server on shutdown,
+     * for load balancers to notice and stop sending traffic
+     */
+    shutdownDrainMs: number;
+  };
+  tracing: {
+    /**
+     * Where finished spans go; with `none` spans are still created, so that
+     * logs and X-Request-Id carry trace IDs, but not exported
+     */
+    exporter: TraceExporter;
+    serviceName: string;
+    /**
+     * OTLP/HTTP traces endpoint of a collector
+     */
+    otlpUrl: string;
+    /**
+     * JSON lines file the `file` exporter appends to
+     */
+    file: string;
+    /**
+     * Share of new traces recorded; traces started upstream keep their caller's decision
+     */
+    sampleRatio: number;
+  };
+  log: {
+    level: LogLevel;
+    /**
+     * Human-readable output instead of JSON lines
+     */
+    pretty: boolean;
+    /**
+     * Time a level set at runtime lasts before reverting to `level`,
+     * unless the change gives its own
+     */
+    levelTtl: number;
+    /**
+     * Paths to censor in log objects, besides the built-in ones such as
+     * emails, auth headers and tokens
+     */
+    redactPaths: string[];
+    /**
+     * Share of successful requests whose request and response lines are
+     * logged; failures and slow requests are always logged
+     */
+    sampleRate: number;
+    /**
+     * Requests taking at least this long are logged at warn; 0 disables
+     */
+    slowRequestMs: number;
+    /**
+     * Rotating file written alongside stdout; none when unset
+     */
+    file?: {
+      path: string;
+      frequency: 'daily' | 'hourly';
+      /**
+       * Size at which a file is rotated early, such as `10m`
+       */
+      size: string;
+      /**
+       * Rotated files kept besides the current one
+       */
+      count: number;
+    };
+  };
+  database: {
+    host: string;
+    port: number;
+    username: string;
+    password: string;
+    database: string;
+  };
+  auth: {
+    jwtSecret: string;
+    jwtIssuer: string;
+    accessTokenTtl: number;
+    refreshTokenTtl: number;
+  };
+  cache: {
+    driver: Driver;
+    redisUrl: string;
+    keyPrefix: string;
+    /**
+     * Only applies to the memory driver
+     */
+    maxEntries: number;
+    ttl: {
+      users: number;
+    };
+  };
+  httpCache: {
+    helloMaxAge: number;
+    helloLanguagesMaxAge: number;
+  };
+  rateLimit: {
+    driver: Driver;
+    quotas: {
+      hello: Quota;
+      users: Quota;
+      userWrites: Quota;
+      auth: Quota;
+      admin: Quota;
+    };
+  };
+  security: {
+    cors: CorsOptions;
+    headers: SecurityHeadersOptions;
+    body: {
+      /**
+       * Largest request body accepted, in bytes or with a unit such as `100kb`
+       */
+      limit: string;
+      /**
+       * Most fields accepted in a URL-encoded body
+       */
+      parameterLimit: number;
+    };
+  };
+}
+
+export interface LoadedConfig {
+  config: AppConfig;
+  /**
+   * Settings that work but should not reach production, such as fallback secrets
+   */
+  warnings: string[];
+}
+
+/**
+ * The environment does not describe a working app
+ * The message lists every problem at once, so they can all be fixed before
+ * the next start.
+ */
+export class ConfigError extends Error {
+  public readonly errors: FieldError[];
+
+  constructor(errors: FieldError[]) {
+    super(`Invalid configuration:\n${errors.map(error => `  - ${error.message}`).join('\n')}`);
+    this.name = 'ConfigError';
+    this.errors = errors;
+  }
+}
+
+const DEV_JWT_SECRET = 'dev-only-insecure-secret';
+const REDACTED = '[REDACTED]';
+const SECRET_KEYS = new Set(['password', 'jwtSecret']);
+
+/**
+ * Load `.env` files into process.env without overriding variables that are
+ * already set. The first file defining a variable wins:
+ * `.env.<NODE_ENV>.local`, `.env.<NODE_ENV>`, `.env.local`, `.env`.
+ * `.env.local` is skipped under test so that runs are reproducible.
+ * @param dir - Directory holding the files
+ */
+export function loadEnvFiles(dir: string = process.cwd()): void {
+  const env = process.env.NODE_ENV || 'development';
+  const files = [`.env.${env}.local`, `.env.${env}`, ...(env === 'test' ? [] : ['.env.local']), '.env'];
+
+  dotenv.config({ path: files.map(file => path.join(dir, file)), quiet: true });
+}
+
+function parseQuota(value: string): Quota {
+  const [limit, windowSeconds] = value.split('/').map(Number);
+  return { limit: limit!, windowSeconds: windowSeconds! };
+}
+
+function parseTrustProxy(value: string): boolean | number {
+  return value === 'true' || (value === 'false' ? false : Number(value));
+}
+
+/**
+ * Problems that involve more than one variable
+ */
+function crossCheck(values: Record<string, string | undefined>): FieldError[] {
+  const errors: FieldError[] = [];
+  const origins = values.CORS_ORIGINS?.split(',').map(origin => origin.trim()) ?? [];
+
+  // Any origin could then read responses made with the user's cookies
+  if (values.CORS_CREDENTIALS === 'true' && origins.includes('*')) {
+    errors.push({
+      field: 'CORS_CREDENTIALS',
+      location: 'env',
+      rule: 'conflict',
+      message: 'CORS_CREDENTIALS cannot be true while CORS_ORIGINS allows *',
+    });
+  }
+  return errors;
+}
+
+/**
+ * Validate environment variables and build the typed configuration
+ * Throws a ConfigError listing every invalid or missing variable.
+ * @param source - Variables to read; process.env by default
+ */
+export function loadConfig(source: NodeJS.ProcessEnv = process.env): LoadedConfig {
+  const env = source.NODE_ENV || 'development';
+  const schema: ObjectSchema = {};
+  const values: Record<string, string | undefined> = {};
+
+  for (const [name, { default: fallback, requiredIn, ...field }] of Object.entries(envSchema)) {
+    const required = Boolean(field.required || requiredIn?.includes(env as Environment));
+    schema[name] = { ...field, required };
+    values[name] = source[name] || (required ? undefined : fallback);
+  }
+
+  const errors = [...validateObject(values, schema, 'env'), ...crossCheck(values)];
+  if (errors.length > 0) {
+    throw new ConfigError(errors);
+  }
+
+  const read = (name: string): string => values[name] ?? '';
+  const int = (name: string): number => Number(values[name]);
+  const warnings: string[] = [];
+
+  if (!values.JWT_SECRET) {
+    warnings.push('JWT_SECRET is not set, using an insecure development secret');
+  }
+  if ([values.CACHE_DRIVER, values.RATE_LIMIT_DRIVER].includes('redis') && !values.REDIS_URL) {
+    warnings.push('REDIS_URL is not set, using redis://localhost:6379');
+  }
+
+  const config: AppConfig = {
+    env: env as Environment,
+    server: {
+      port: int('PORT'),
+      trustProxy: parseTrustProxy(read('TRUST_PROXY')),
+    },
+    health: {
+      checkTimeoutMs: int('HEALTH_CHECK_TIMEOUT_MS'),
+      shutdownDrainMs: int('SHUTDOWN_DRAIN_MS'),
+    },
+    tracing: {
+      exporter: read('TRACING_EXPORTER') as TraceExporter,
+      serviceName: read('TRACING_SERVICE_NAME'),
+      otlpUrl: read('TRACING_OTLP_URL'),
+      file: read('TRACING_FILE'),
+      sampleRatio: Number(values.TRACING_SAMPLE_RATIO),
+    },
+    log: {
+      level: (values.LOG_LEVEL ?? (env === 'production' ? 'info' : 'debug')) as LogLevel,
+      pretty: env === 'development',
+      levelTtl: int('LOG_LEVEL_TTL'),
+      redactPaths: read('LOG_REDACT_PATHS').split(',').map(path => path.trim()).filter(Boolean),
+      sampleRate: Number(values.LOG_SAMPLE_RATE),
+      slowRequestMs: int('LOG_SLOW_REQUEST_MS'),
+      ...(values.LOG_FILE && {
+        file: {
+          path: values.LOG_FILE,
+          frequency: read('LOG_FILE_FREQUENCY') as 'daily' | 'hourly',
+          size: read('LOG_FILE_SIZE'),
+          count: int('LOG_FILE_COUNT'),
+        },
+      }),
+    },
+    database: {
+      host: read('POSTGRES_HOST'),
+      port: int('POSTGRES_PORT'),
+      username: read('POSTGRES_USER'),
+      password: read('POSTGRES_PASSWORD'),
+      database: read(env === 'test' ? 'POSTGRES_DB_TEST' : 'POSTGRES_DB'),
+    },
+    auth: {
+      jwtSecret: values.JWT_SECRET ?? DEV_JWT_SECRET,
+      jwtIssuer: read('JWT_ISSUER'),
+      accessTokenTtl: int('JWT_ACCESS_TTL'),
+      refreshTokenTtl: int('JWT_REFRESH_TTL'),
+    },
+    cache: {
+      driver: read('CACHE_DRIVER') as Driver,
+      redisUrl: values.REDIS_URL ?? 'redis://localhost:6379',
+      keyPrefix: read('CACHE_KEY_PREFIX'),
+      maxEntries: int('CACHE_MAX_ENTRIES'),
+      ttl: {
+        users: int('CACHE_TTL_USERS'),
+      },
+    },
+    httpCache: {
+      helloMaxAge: int('HELLO_CACHE_MAX_AGE'),
+      helloLanguagesMaxAge: int('HELLO_LANGUAGES_CACHE_MAX_AGE'),
+    },
+    rateLimit: {
+      driver: read('RATE_LIMIT_DRIVER') as Driver,
+      quotas: {
+        hello: parseQuota(read('RATE_LIMIT_HELLO')),
+        users: parseQuota(read('RATE_LIMIT_USERS')),
+        userWrites: parseQuota(read('RATE_LIMIT_USER_WRITES')),
+        auth: parseQuota(read('RATE_LIMIT_AUTH')),
+        admin: parseQuota(read('RATE_LIMIT_ADMIN')),
+      },
+    },
+    security: {
+      cors: {
+        origins: read('CORS_ORIGINS').split(',').map(origin => origin.trim().replace(/\/$/, '')).filter(Boolean),
+        credentials: read('CORS_CREDENTIALS') === 'true',
+        maxAge: int('CORS_MAX_AGE'),
+      },
+      headers: {
+        hstsMaxAge: int('HSTS_MAX_AGE'),
+      },
+      body: {
+        limit: read('BODY_LIMIT'),
+        parameterLimit: int('BODY_PARAMETER_LIMIT'),
+      },
+    },
+  };
+
+  return { config, warnings };
+}
+
+/**
+ * Copy of a configuration that is safe to log
+ * Secrets are replaced, and so are the credentials in connection URLs.
+ */
+export function redactConfig(config: AppConfig): AppConfig {
+  const redact = (value: unknown, key: string): unknown => {
+    if (SECRET_KEYS.has(key)) {
+      return REDACTED;
+    }
+    if (typeof value === 'string') {
+      return value.replace(/^(\w+:\/\/[^:@/]*):[^@/]+@/, `$1:${REDACTED}@`);
+    }
+    if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+      return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, redact(v, k)]));
+    }
+    return value;
+  };
+
+  return redact(config, '') as AppConfig;
+}
+
+loadEnvFiles();
+
+const loaded = loadConfig();
+
+/**
+ * Configuration of this process, loaded once at startup
+ */
+export const config: AppConfig = loaded.config;
+
+export const configWarnings: string[] = loaded.warnings;
+
+export default config;
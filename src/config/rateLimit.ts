@@ -0,0 +1,35 @@
+import { RateLimitPolicy } from '../rateLimit/slidingWindow';
+import { config } from './index';
+
+const { quotas } = config.rateLimit;
+
+/**
+ * Limits of the route groups
+ * Quotas come from the RATE_LIMIT_* variables
+ */
+export const rateLimitPolicies = {
+  /**
+   * Anonymous and cheap, but the easiest target for floods
+   */
+  hello: { ...quotas.hello, keyBy: 'ip' },
+  /**
+   * Listing and reading users; anonymous callers share their address's quota
+   */
+  users: { ...quotas.users, keyBy: 'user' },
+  /**
+   * Creating, changing and deleting users, counted per authenticated caller
+   */
+  userWrites: { ...quotas.userWrites, keyBy: 'user' },
+  /**
+   * Registration, login and token refresh; kept low against password guessing
+   */
+  auth: { ...quotas.auth, keyBy: 'ip' },
+  /**
+   * Audit trail, cache statistics and log levels, counted per authenticated caller
+   */
+  admin: { ...quotas.admin, keyBy: 'user' },
+} satisfies Record<string, RateLimitPolicy>;
+
+export type RateLimitGroup = keyof typeof rateLimitPolicies;
+
+export default rateLimitPolicies;
@@ -0,0 +1,94 @@
+import { FieldSchema } from '../utils/validation';
+
+export const ENVIRONMENTS = ['development', 'test', 'production'] as const;
+
+export type Environment = typeof ENVIRONMENTS[number];
+
+export const LOG_LEVELS = ['trace', 'debug', 'info', 'warn', 'error', 'fatal', 'silent'] as const;
+
+export const DRIVERS = ['memory', 'redis', 'none'] as const;
+
+export const TRACE_EXPORTERS = ['none', 'otlp', 'file'] as const;
+
+/**
+ * Rules for one environment variable
+ */
+export interface EnvVarSchema extends FieldSchema {
+  /**
+   * Value used when the variable is unset
+   */
+  default?: string;
+  /**
+   * Environments where the variable must be set; the default does not
+   * apply there
+   */
+  requiredIn?: Environment[];
+}
+
+/**
+ * `<requests>/<seconds>`, such as `120/60`
+ */
+const rateLimit = (fallback: string): EnvVarSchema => ({ default: fallback, pattern: /^[1-9]\d*\/[1-9]\d*$/ });
+
+/**
+ * Every environment variable the app reads
+ * Values are checked as strings, the way they arrive, and parsed into
+ * AppConfig afterwards.
+ */
+export const envSchema: Record<string, EnvVarSchema> = {
+  NODE_ENV: { default: 'development', enum: ENVIRONMENTS },
+  PORT: { default: '3000', type: 'integer', min: 1, max: 65535 },
+  LOG_LEVEL: { enum: LOG_LEVELS },
+  LOG_REDACT_PATHS: { default: '' },
+  LOG_SAMPLE_RATE: { default: '1', type: 'number', min: 0, max: 1 },
+  LOG_LEVEL_TTL: { default: '900', type: 'integer', min: 1, max: 86400 },
+  LOG_SLOW_REQUEST_MS: { default: '1000', type: 'integer', min: 0 },
+  LOG_FILE: { default: '' },
+  LOG_FILE_FREQUENCY: { default: 'daily', enum: ['daily', 'hourly'] },
+  LOG_FILE_SIZE: { default: '10m', pattern: /^\d+[kmg]?$/i },
+  LOG_FILE_COUNT: { default: '7', type: 'integer', min: 1 },
+  TRUST_PROXY: { default: 'false', pattern: /^(true|false|\d+)$/ },
+  HEALTH_CHECK_TIMEOUT_MS: { default: '2000', type: 'integer', min: 1 },
+  SHUTDOWN_DRAIN_MS: { default: '5000', type: 'integer', min: 0 },
+
+  TRACING_EXPORTER: { default: 'none', enum: TRACE_EXPORTERS },
+  TRACING_SERVICE_NAME: { default: 'express-mvc' },
+  TRACING_OTLP_URL: { default: 'http://localhost:4318/v1/traces', pattern: /^https?:\/\// },
+  TRACING_FILE: { default: 'traces.jsonl' },
+  TRACING_SAMPLE_RATIO: { default: '1', type: 'number', min: 0, max: 1 },
+
+  POSTGRES_HOST: { default: 'localhost' },
+  POSTGRES_PORT: { default: '5432', type: 'integer', min: 1, max: 65535 },
+  POSTGRES_USER: { default: 'admin', requiredIn: ['production'] },
+  POSTGRES_PASSWORD: { default: 'admin123', requiredIn: ['production'] },
+  POSTGRES_DB: { default: 'express_mvc_db', requiredIn: ['production'] },
+  POSTGRES_DB_TEST: { default: 'express_mvc_test' },
+
+  JWT_SECRET: { requiredIn: ['production'] },
+  JWT_ISSUER: { default: 'express-mvc' },
+  JWT_ACCESS_TTL: { default: '900', type: 'integer', min: 1 },
+  JWT_REFRESH_TTL: { default: '1209600', type: 'integer', min: 1 },
+
+  HELLO_CACHE_MAX_AGE: { default: '60', type: 'integer', min: 0 },
+  HELLO_LANGUAGES_CACHE_MAX_AGE: { default: '86400', type: 'integer', min: 0 },
+
+  CACHE_DRIVER: { default: 'memory', enum: DRIVERS },
+  REDIS_URL: { pattern: /^rediss?:\/\// },
+  CACHE_KEY_PREFIX: { default: 'express-mvc:' },
+  CACHE_MAX_ENTRIES: { default: '10000', type: 'integer', min: 1 },
+  CACHE_TTL_USERS: { default: '60', type: 'integer', min: 1 },
+
+  RATE_LIMIT_DRIVER: { default: 'memory', enum: DRIVERS },
+  RATE_LIMIT_HELLO: rateLimit('120/60'),
+  RATE_LIMIT_USERS: rateLimit('300/60'),
+  RATE_LIMIT_USER_WRITES: rateLimit('60/60'),
+  RATE_LIMIT_AUTH: rateLimit('10/60'),
+  RATE_LIMIT_ADMIN: rateLimit('30/60'),
+
+  CORS_ORIGINS: { default: '' },
+  CORS_CREDENTIALS: { default: 'false', type: 'boolean' },
+  CORS_MAX_AGE: { default: '600', type: 'integer', min: 0 },
+  HSTS_MAX_AGE: { default: '15552000', type: 'integer', min: 0 },
+  BODY_LIMIT: { default: '100kb', pattern: /^\d+(b|kb|mb)?$/i },
+  BODY_PARAMETER_LIMIT: { default: '100', type: 'integer', min: 1 },
+};
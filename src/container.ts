@@ -0,0 +1,303 @@
+import { RequestHandler } from 'express';
+import { Sequelize } from 'sequelize';
+import Redis from 'ioredis';
+import sequelize from './config/database';
+import { config } from './config';
+import { ICache } from './cache/ICache';
+import { LruCache } from './cache/LruCache';
+import { NoCache } from './cache/NoCache';
+import { RedisCache } from './cache/RedisCache';
+import { RateLimitStore } from './rateLimit/RateLimitStore';
+import { MemoryRateLimitStore } from './rateLimit/MemoryRateLimitStore';
+import { RedisRateLimitStore } from './rateLimit/RedisRateLimitStore';
+import { Metrics } from './metrics/Metrics';
+import { traced } from './tracing/instrument';
+import { LogLevels, Logger, logLevels } from './utils/logger';
+import { UnitOfWork, withTransaction } from './utils/transaction';
+import { IRepository } from './repositories/IRepository';
+import { IUserRepository } from './repositories/IUserRepository';
+import { UserRepository } from './repositories/UserRepository';
+import { CachedUserRepository } from './repositories/CachedUserRepository';
+import { RoleRepository } from './repositories/RoleRepository';
+import { RefreshTokenRepository } from './repositories/RefreshTokenRepository';
+import { AuditRepository } from './repositories/AuditRepository';
+import { AuditEvent, AuditFilters } from './types/Audit';
+import { UserService } from './services/UserService';
+import { AuthService } from './services/AuthService';
+import { TokenService } from './services/TokenService';
+import { PermissionService } from './services/PermissionService';
+import { AuditService } from './services/AuditService';
+import { HelloService } from './services/HelloService';
+import { HealthService } from './services/HealthService';
+import { UserController } from './controllers/UserController';
+import { AuthController } from './controllers/AuthController';
+import { AuditController } from './controllers/AuditController';
+import { HelloController } from './controllers/HelloController';
+import { DocsController } from './controllers/DocsController';
+import { CacheController } from './controllers/CacheController';
+import { HealthController } from './controllers/HealthController';
+import { MetricsController } from './controllers/MetricsController';
+import { LogLevelController } from './controllers/LogLevelController';
+import { RouteRegistry } from './routes/registry';
+import { HealthCheck } from './types/Health';
+import { cacheCheck, connectionPoolCheck, databaseCheck, migrationsCheck } from './health/checks';
+import { createAuthenticate } from './middleware/auth';
+import { Authorize, createAuthorize } from './middleware/authorize';
+import { RateLimit, createRateLimit, noRateLimit } from './middleware/rateLimit';
+
+/**
+ * Everything the composition root knows how to build, by binding name
+ */
+export interface Dependencies {
+  logger: Logger;
+  /**
+   * Process-wide, like the loggers they control
+   */
+  logLevels: LogLevels;
+  sequelize: Sequelize;
+  unitOfWork: UnitOfWork;
+  cache: ICache;
+  rateLimitStore: RateLimitStore;
+  metrics: Metrics;
+
+  /**
+   * Where users are stored; userRepository puts the cache in front of it
+   */
+  userStore: IUserRepository;
+  userRepository: IUserRepository;
+  roleRepository: RoleRepository;
+  refreshTokenRepository: RefreshTokenRepository;
+  auditRepository: IRepository<AuditEvent, AuditFilters>;
+
+  auditService: AuditService;
+  permissionService: PermissionService;
+  tokenService: TokenService;
+  userService: UserService;
+  authService: AuthService;
+  helloService: HelloService;
+  /**
+   * Dependencies the readiness probe checks
+   */
+  healthChecks: HealthCheck[];
+  healthService: HealthService;
+
+  authenticate: RequestHandler;
+  authorize: Authorize;
+  rateLimit: RateLimit;
+  routeRegistry: RouteRegistry;
+
+  userController: UserController;
+  authController: AuthController;
+  auditController: AuditController;
+  helloController: HelloController;
+  docsController: DocsController;
+  cacheController: CacheController;
+  healthController: HealthController;
+  metricsController: MetricsController;
+  logLevelController: LogLevelController;
+}
+
+export type Factory<T> = (container: Container) => T;
+
+/**
+ * Small dependency injection container
+ * Bindings are factories that are called lazily on first resolve; every
+ * binding is a singleton within its container.
+ */
+export class Container {
+  private factories = new Map<keyof Dependencies, Factory<unknown>>();
+  private instances = new Map<keyof Dependencies, unknown>();
+  private resolving = new Set<keyof Dependencies>();
+
+  /**
+   * Bind a name to a factory, replacing any previous binding
+   * Instances built so far are discarded so that dependents pick up the
+   * new binding the next time they are resolved.
+   * @param name - Binding name
+   * @param factory - Builds the instance from other bindings
+   */
+  public register<K extends keyof Dependencies>(name: K, factory: Factory<Dependencies[K]>): this {
+    this.factories.set(name, factory);
+    this.instances.clear();
+    return this;
+  }
+
+  /**
+   * Bind a name to an already built instance
+   * @param name - Binding name
+   * @param instance - Instance to hand out
+   */
+  public instance<K extends keyof Dependencies>(name: K, instance: Dependencies[K]): this {
+    return this.register(name, () => instance);
+  }
+
+  /**
+   * Get the instance bound to a name, building it and its dependencies on first use
+   * @param name - Binding name
+   */
+  public resolve<K extends keyof Dependencies>(name: K): Dependencies[K] {
+    if (this.instances.has(name)) {
+      return this.instances.get(name) as Dependencies[K];
+    }
+
+    const factory = this.factories.get(name);
+    if (!factory) {
+      throw new Error(`No binding registered for ${name}`);
+    }
+    if (this.resolving.has(name)) {
+      throw new Error(`Circular dependency: ${[...this.resolving, name].join(' -> ')}`);
+    }
+
+    this.resolving.add(name);
+    try {
+      const instance = factory(this) as Dependencies[K];
+      this.instances.set(name, instance);
+      return instance;
+    } finally {
+      this.resolving.delete(name);
+    }
+  }
+}
+
+/**
+ * Composition root
+ * Builds the container with the production bindings. Tests start from
+ * this and re-register the bindings they want to replace. Services and
+ * controllers are wrapped with `traced`, so that each of their calls gets
+ * a span.
+ */
+export function createContainer(): Container {
+  return new Container()
+    .instance('logger', new Logger())
+    .instance('logLevels', logLevels)
+    .instance('sequelize', sequelize)
+    .instance('unitOfWork', withTransaction)
+    .register('cache', c => createCache(c.resolve('logger')))
+    .register('rateLimitStore', c => createRateLimitStore(c.resolve('logger')))
+    .register('metrics', c => {
+      const metrics = new Metrics();
+      metrics.observeDatabase(c.resolve('sequelize'));
+      return metrics;
+    })
+
+    .register('userStore', () => new UserRepository())
+    .register('userRepository', c => config.cache.driver === 'none'
+      ? c.resolve('userStore')
+      : new CachedUserRepository(c.resolve('userStore'), c.resolve('cache'), config.cache.ttl.users))
+    .register('roleRepository', () => new RoleRepository())
+    .register('refreshTokenRepository', () => new RefreshTokenRepository())
+    .register('auditRepository', () => new AuditRepository())
+
+    .register('auditService', c => traced(new AuditService(
+      c.resolve('auditRepository'),
+      c.resolve('logger')
+    ), 'AuditService'))
+    .register('permissionService', c => traced(new PermissionService(
+      c.resolve('roleRepository'),
+      c.resolve('logger')
+    ), 'PermissionService'))
+    .register('tokenService', c => traced(new TokenService(
+      c.resolve('refreshTokenRepository'),
+      c.resolve('logger')
+    ), 'TokenService'))
+    .register('userService', c => traced(new UserService(
+      c.resolve('userRepository'),
+      c.resolve('auditService'),
+      c.resolve('unitOfWork'),
+      c.resolve('metrics'),
+      c.resolve('logger')
+    ), 'UserService'))
+    .register('authService', c => traced(new AuthService(
+      c.resolve('userRepository'),
+      c.resolve('tokenService'),
+      c.resolve('permissionService'),
+      c.resolve('auditService'),
+      c.resolve('unitOfWork'),
+      c.resolve('metrics'),
+      c.resolve('logger')
+    ), 'AuthService'))
+    .register('helloService', () => traced(new HelloService(), 'HelloService'))
+    .register('healthChecks', c => [
+      databaseCheck(c.resolve('sequelize')),
+      connectionPoolCheck(c.resolve('sequelize')),
+      migrationsCheck(c.resolve('sequelize')),
+      cacheCheck(c.resolve('cache')),
+    ])
+    .register('healthService', c => new HealthService(
+      c.resolve('healthChecks'),
+      config.health.checkTimeoutMs,
+      c.resolve('logger')
+    ))
+
+    .register('authenticate', c => createAuthenticate(c.resolve('tokenService')))
+    .register('authorize', c => createAuthorize(c.resolve('permissionService')))
+    .register('rateLimit', c => config.rateLimit.driver === 'none'
+      ? noRateLimit
+      : createRateLimit(c.resolve('rateLimitStore'), c.resolve('logger')))
+    .register('routeRegistry', () => new RouteRegistry())
+
+    .register('userController', c => traced(new UserController(
+      c.resolve('userService'),
+      c.resolve('permissionService'),
+      c.resolve('logger')
+    ), 'UserController'))
+    .register('authController', c => traced(new AuthController(
+      c.resolve('authService'),
+      c.resolve('logger')
+    ), 'AuthController'))
+    .register('auditController', c => traced(new AuditController(
+      c.resolve('auditService'),
+      c.resolve('logger')
+    ), 'AuditController'))
+    .register('helloController', c => traced(new HelloController(
+      c.resolve('helloService'),
+      c.resolve('logger')
+    ), 'HelloController'))
+    .register('docsController', c => new DocsController(c.resolve('routeRegistry'), c.resolve('logger')))
+    .register('cacheController', c => traced(new CacheController(
+      c.resolve('cache'),
+      c.resolve('logger')
+    ), 'CacheController'))
+    .register('healthController', c => new HealthController(c.resolve('healthService'), c.resolve('logger')))
+    .register('metricsController', c => new MetricsController(c.resolve('metrics'), c.resolve('logger')))
+    .register('logLevelController', c => traced(new LogLevelController(
+      c.resolve('logLevels'),
+      config.log.levelTtl,
+      c.resolve('logger')
+    ), 'LogLevelController'));
+}
+
+/**
+ * Build the cache backend selected by CACHE_DRIVER
+ * With `none` the repositories are not wrapped at all, and the cache seen by
+ * health checks and statistics keeps nothing. The Redis client fails commands
+ * at once while disconnected instead of queueing them, so an outage turns into
+ * cache misses rather than slow requests.
+ */
+function createCache(logger: Logger): ICache {
+  if (config.cache.driver === 'none') {
+    return new NoCache();
+  }
+  if (config.cache.driver !== 'redis') {
+    return new LruCache(config.cache.maxEntries);
+  }
+
+  const client = new Redis(config.cache.redisUrl, { enableOfflineQueue: false, maxRetriesPerRequest: 1 });
+  client.on('error', error => logger.warn('Redis connection error', error));
+  return new RedisCache(client, config.cache.keyPrefix, logger);
+}
+
+/**
+ * Build the rate limit counter store selected by RATE_LIMIT_DRIVER
+ * Uses its own Redis connection, configured like the cache's, so either can
+ * run on Redis without the other.
+ */
+function createRateLimitStore(logger: Logger): RateLimitStore {
+  if (config.rateLimit.driver !== 'redis') {
+    return new MemoryRateLimitStore();
+  }
+
+  const client = new Redis(config.cache.redisUrl, { enableOfflineQueue: false, maxRetriesPerRequest: 1 });
+  client.on('error', error => logger.warn('Redis connection error', error));
+  return new RedisRateLimitStore(client, `${config.cache.keyPrefix}ratelimit:`);
+}
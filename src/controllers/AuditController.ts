@@ -0,0 +1,61 @@
+import { Request, Response } from 'express';
+import { AuditService } from '../services/AuditService';
+import { HttpResponse } from '../utils/httpResponse';
+import { Logger } from '../utils/logger';
+import { AuditEvent, AuditFilters } from '../types/Audit';
+import { PageOptions } from '../types/Pagination';
+import { pageOptionsFromQuery } from '../utils/pagination';
+
+export class AuditController {
+  private auditService: AuditService;
+  private logger: Logger;
+
+  constructor(auditService: AuditService, logger: Logger) {
+    this.auditService = auditService;
+    this.logger = logger.child({ module: 'AuditController' });
+  }
+
+  // GET /audit
+  public async listEvents(req: Request, res: Response): Promise<void> {
+    const options = this.buildPageOptions(req);
+
+    this.logger.info('Listing audit events', { query: req.query });
+    const page = await this.auditService.listEvents(options);
+
+    HttpResponse.paginated(res, page);
+  }
+
+  /**
+   * Build paging and filter options for GET /audit
+   * The query has already been checked by listAuditEventsSchema
+   */
+  private buildPageOptions(req: Request): PageOptions<AuditEvent, AuditFilters> {
+    const { actorId, action, entityType, entityId, from, to } =
+      req.query as Record<string, string | undefined>;
+
+    const options: PageOptions<AuditEvent, AuditFilters> = pageOptionsFromQuery<AuditEvent>(req.query);
+    const filters: AuditFilters = {};
+
+    if (actorId) {
+      filters.actorId = Number(actorId);
+    }
+    if (action) {
+      filters.action = action;
+    }
+    if (entityType) {
+      filters.entityType = entityType;
+    }
+    if (entityId) {
+      filters.entityId = entityId;
+    }
+    if (from) {
+      filters.from = new Date(from);
+    }
+    if (to) {
+      filters.to = new Date(to);
+    }
+
+    options.filters = filters;
+    return options;
+  }
+}
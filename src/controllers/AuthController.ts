@@ -0,0 +1,51 @@
+import { Request, Response } from 'express';
+import { AuthService } from '../services/AuthService';
+import { HttpResponse } from '../utils/httpResponse';
+import { Logger } from '../utils/logger';
+import { getAuditContext } from '../utils/audit';
+
+export class AuthController {
+  private authService: AuthService;
+  private logger: Logger;
+
+  constructor(authService: AuthService, logger: Logger) {
+    this.authService = authService;
+    this.logger = logger.child({ module: 'AuthController' });
+  }
+
+  // POST /auth/register
+  public async register(req: Request, res: Response): Promise<void> {
+    const { name, email, password } = req.body;
+
+    this.logger.info('Registering user', { email });
+    const result = await this.authService.register({ name, email, password }, getAuditContext(req));
+
+    HttpResponse.created(res, result, 'User registered successfully');
+  }
+
+  // POST /auth/login
+  public async login(req: Request, res: Response): Promise<void> {
+    const { email, password } = req.body;
+
+    this.logger.info('Logging in user', { email });
+    const result = await this.authService.login({ email, password });
+
+    HttpResponse.success(res, result, 'Logged in successfully');
+  }
+
+  // POST /auth/refresh
+  public async refresh(req: Request, res: Response): Promise<void> {
+    this.logger.info('Refreshing access token');
+    const tokens = await this.authService.refresh(req.body.refreshToken);
+
+    HttpResponse.success(res, tokens, 'Token refreshed successfully');
+  }
+
+  // POST /auth/logout
+  public async logout(req: Request, res: Response): Promise<void> {
+    this.logger.info('Logging out');
+    await this.authService.logout(req.body.refreshToken);
+
+    HttpResponse.success(res, null, 'Logged out successfully');
+  }
+}
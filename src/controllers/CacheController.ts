@@ -0,0 +1,22 @@
+import { Request, Response } from 'express';
+import { ICache } from '../cache/ICache';
+import { HttpResponse } from '../utils/httpResponse';
+import { Logger } from '../utils/logger';
+
+export class CacheController {
+  private cache: ICache;
+  private logger: Logger;
+
+  constructor(cache: ICache, logger: Logger) {
+    this.cache = cache;
+    this.logger = logger.child({ module: 'CacheController' });
+  }
+
+  // GET /cache/stats
+  public async getStats(req: Request, res: Response): Promise<void> {
+    const stats = this.cache.stats();
+
+    this.logger.info(`Cache hit rate: ${(stats.hitRate * 100).toFixed(1)}%`);
+    HttpResponse.success(res, stats);
+  }
+}
@@ -0,0 +1,79 @@
+import path from 'path';
+import { Request, Response } from 'express';
+import { RouteRegistry } from '../routes/registry';
+import { buildOpenApiDocument } from '../openapi/document';
+import { JsonSchema } from '../openapi/jsonSchema';
+import { Logger } from '../utils/logger';
+
+/**
+ * Directory holding the Swagger UI bundle served under /api/docs
+ */
+export const SWAGGER_UI_PATH = path.dirname(require.resolve('swagger-ui-dist/package.json'));
+
+const DOCS_PAGE = `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8" />
+    <title>API Documentation</title>
+    <link rel="stylesheet" href="/api/docs/assets/swagger-ui.css" />
+  </head>
+  <body>
+    <div id="swagger-ui"></div>
+    <script src="/api/docs/assets/swagger-ui-bundle.js"></script>
+    <script src="/api/docs/init.js"></script>
+  </body>
+</html>
+`;
+
+/**
+ * What the Swagger UI page may load: its own scripts and styles, the inline
+ * styles and data: images of the bundle, and the API itself
+ */
+export const DOCS_CONTENT_SECURITY_POLICY = [
+  "default-src 'none'",
+  "script-src 'self'",
+  "style-src 'self' 'unsafe-inline'",
+  "img-src 'self' data:",
+  "connect-src 'self'",
+  "frame-ancestors 'none'",
+  "base-uri 'none'",
+  "form-action 'none'",
+].join('; ');
+
+const DOCS_INIT = `window.ui = SwaggerUIBundle({ url: '/api/openapi.json', dom_id: '#swagger-ui' });
+`;
+
+export class DocsController {
+  private routeRegistry: RouteRegistry;
+  private logger: Logger;
+  private document?: JsonSchema;
+
+  constructor(routeRegistry: RouteRegistry, logger: Logger) {
+    this.routeRegistry = routeRegistry;
+    this.logger = logger.child({ module: 'DocsController' });
+  }
+
+  // GET /openapi.json
+  public async getOpenApiDocument(req: Request, res: Response): Promise<void> {
+    // Routes are all registered by the time the first request arrives
+    if (!this.document) {
+      this.logger.debug('Building OpenAPI document');
+      this.document = buildOpenApiDocument(this.routeRegistry.list(), {
+        title: 'Express TypeScript MVC API',
+        version: '1.0.0',
+      });
+    }
+
+    res.json(this.document);
+  }
+
+  // GET /docs
+  public async getDocsPage(req: Request, res: Response): Promise<void> {
+    res.type('html').send(DOCS_PAGE);
+  }
+
+  // GET /docs/init.js
+  public async getDocsScript(req: Request, res: Response): Promise<void> {
+    res.type('js').send(DOCS_INIT);
+  }
+}
@@ -0,0 +1,33 @@
+import { Request, Response } from 'express';
+import { HealthService } from '../services/HealthService';
+import { HttpStatus } from '../utils/httpResponse';
+import { Logger } from '../utils/logger';
+
+export class HealthController {
+  private healthService: HealthService;
+  private logger: Logger;
+
+  constructor(healthService: HealthService, logger: Logger) {
+    this.healthService = healthService;
+    this.logger = logger.child({ module: 'HealthController' });
+  }
+
+  // GET /health/live
+  public async live(req: Request, res: Response): Promise<void> {
+    res.status(HttpStatus.OK).json({
+      status: 'OK',
+      timestamp: new Date().toISOString(),
+      uptime: process.uptime(),
+    });
+  }
+
+  // GET /health/ready
+  public async ready(req: Request, res: Response): Promise<void> {
+    const report = await this.healthService.checkReadiness();
+
+    if (report.status === 'fail') {
+      this.logger.debug('Not ready', { checks: report.checks, shuttingDown: report.shuttingDown });
+    }
+    res.status(report.status === 'fail' ? HttpStatus.SERVICE_UNAVAILABLE : HttpStatus.OK).json(report);
+  }
+}
@@ -0,0 +1,42 @@
+import { Request, Response } from 'express';
+import { HttpResponse } from '../utils/httpResponse';
+import { LogLevels, Logger } from '../utils/logger';
+import { SetLogLevelDto } from '../types/Logging';
+
+export class LogLevelController {
+  private logLevels: LogLevels;
+  private defaultTtlSeconds: number;
+  private logger: Logger;
+
+  constructor(logLevels: LogLevels, defaultTtlSeconds: number, logger: Logger) {
+    this.logLevels = logLevels;
+    this.defaultTtlSeconds = defaultTtlSeconds;
+    this.logger = logger.child({ module: 'LogLevelController' });
+  }
+
+  // GET /admin/log-level
+  public async getLevels(req: Request, res: Response): Promise<void> {
+    HttpResponse.success(res, this.logLevels.report());
+  }
+
+  // PUT /admin/log-level
+  public async setLevel(req: Request, res: Response): Promise<void> {
+    const { level, module, ttlSeconds = this.defaultTtlSeconds } = req.body as SetLogLevelDto;
+
+    // Logged before the change, so that it shows even when the level is raised
+    this.logger.warn(`Setting log level of ${module ?? 'all modules'} to ${level} for ${ttlSeconds}s`);
+    const report = this.logLevels.set(level, ttlSeconds, module);
+
+    HttpResponse.success(res, report, 'Log level set');
+  }
+
+  // DELETE /admin/log-level
+  public async resetLevel(req: Request, res: Response): Promise<void> {
+    const module = req.query.module as string | undefined;
+
+    const report = this.logLevels.reset(module);
+    this.logger.warn(`Reset log level of ${module ?? 'all modules'}`);
+
+    HttpResponse.success(res, report, 'Log level reset');
+  }
+}
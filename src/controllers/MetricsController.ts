@@ -0,0 +1,21 @@
+import { Request, Response } from 'express';
+import { Metrics } from '../metrics/Metrics';
+import { HttpStatus } from '../utils/httpResponse';
+import { Logger } from '../utils/logger';
+
+export class MetricsController {
+  private metrics: Metrics;
+  private logger: Logger;
+
+  constructor(metrics: Metrics, logger: Logger) {
+    this.metrics = metrics;
+    this.logger = logger.child({ module: 'MetricsController' });
+  }
+
+  // GET /metrics
+  public async getMetrics(req: Request, res: Response): Promise<void> {
+    this.logger.debug('Rendering metrics');
+    const body = await this.metrics.render();
+    res.status(HttpStatus.OK).type(this.metrics.contentType).send(body);
+  }
+}
@@ -1,157 +1,238 @@
 import { Request, Response } from 'express';
 import { UserService } from '../services/UserService';
+import { PermissionService } from '../services/PermissionService';
 import { HttpResponse } from '../utils/httpResponse';
 import { Logger } from '../utils/logger';
+import { ReplaceUserDto, User, UserHighlights, UserSearchHit, UserSuggestion } from '../types/User';
+import { Page, PageOptions, UserFilters } from '../types/Pagination';
+import { pageOptionsFromQuery, parseSort } from '../utils/pagination';
+import { getAuditContext } from '../utils/audit';
+import { AuditEvent } from '../types/Audit';
+import { DEFAULT_SUGGESTIONS, USER_SORTABLE_FIELDS, replaceUserSchema } from '../schemas/userSchemas';
+import { ValidationError } from '../errors/AppError';
+import { FieldError, validateObject } from '../utils/validation';
+import { JSON_PATCH, MERGE_PATCH, PatchMediaType, applyPatch } from '../utils/patch';
+import { parseIfMatch, versionTag } from '../utils/etag';
+import { getAuthUser } from '../middleware/auth';
+import { highlight, searchTerms } from '../utils/search';
 
 export class UserController {
   private userService: UserService;
+  private permissionService: PermissionService;
   private logger: Logger;
 
-  constructor() {
-    this.userService = new UserService();
-    this.logger = new Logger({ module: 'UserController' });
+  constructor(userService: UserService, permissionService: PermissionService, logger: Logger) {
+    this.userService = userService;
+    this.permissionService = permissionService;
+    this.logger = logger.child({ module: 'UserController' });
   }
 
   // GET /users
   public async getUsers(req: Request, res: Response): Promise<void> {
-    try {
-      const { search } = req.query;
-      
-      let users;
-      if (search && typeof search === 'string') {
-        this.logger.info(`Searching users with query: ${search}`);
-        users = await this.userService.searchUsers(search);
-      } else {
-        this.logger.info('Fetching all users');
-        users = await this.userService.getAllUsers();
-      }
-      
-      HttpResponse.success(res, { users, count: users.length });
-    } catch (error) {
-      this.logger.error('Error fetching users', error as Error);
-      HttpResponse.internalError(res, 'Failed to fetch users');
-    }
+    const options = this.buildPageOptions(req);
+
+    this.logger.info('Fetching users page', { query: req.query });
+    const page = await this.userService.getUsersPage(options);
+
+    const search = options.filters?.search;
+    HttpResponse.paginated(res, search ? this.withHighlights(page, search) : page);
+  }
+
+  // GET /users/suggest
+  public async suggestUsers(req: Request, res: Response): Promise<void> {
+    const q = req.query.q as string;
+    const limit = req.query.limit ? Number(req.query.limit) : DEFAULT_SUGGESTIONS;
+
+    const users = await this.userService.suggestUsers(q, limit);
+    const terms = searchTerms(q);
+    const suggestions: UserSuggestion[] = users.map(({ id, name, email }) => ({
+      id,
+      name,
+      email,
+      highlights: this.highlights({ name, email }, terms),
+    }));
+
+    HttpResponse.success(res, suggestions);
+  }
+
+  // GET /users/me
+  public async getMe(req: Request, res: Response): Promise<void> {
+    const { id } = getAuthUser(req);
+
+    this.logger.info(`Fetching current user with ID: ${id}`);
+    const user = await this.userService.getUserById(id);
+    const roles = await this.permissionService.getRoles(id);
+    const permissions = await this.permissionService.getPermissions(id);
+
+    HttpResponse.success(res, {
+      ...user,
+      roles: roles.map(role => role.name),
+      permissions: [...permissions],
+    });
   }
 
   // GET /users/:id
   public async getUserById(req: Request, res: Response): Promise<void> {
-    try {
-      const { id } = req.params;
-      
-      if (!id) {
-        HttpResponse.badRequest(res, 'User ID is required');
-        return;
-      }
-      
-      const userId = parseInt(id);
-      if (isNaN(userId)) {
-        HttpResponse.badRequest(res, 'Invalid user ID format');
-        return;
-      }
+    const userId = Number(req.params.id);
+    const includeDeleted = req.query.includeDeleted === 'true';
 
-      this.logger.info(`Fetching user with ID: ${userId}`);
-      const user = await this.userService.getUserById(userId);
-      
-      if (!user) {
-        HttpResponse.notFound(res, `User with ID ${userId} not found`);
-        return;
-      }
+    this.logger.info(`Fetching user with ID: ${userId}`);
+    const user = await this.userService.getUserById(userId, includeDeleted);
 
-      HttpResponse.success(res, user);
-    } catch (error) {
-      this.logger.error(`Error fetching user by ID`, error as Error);
-      HttpResponse.internalError(res, 'Failed to fetch user');
-    }
+    res.setHeader('ETag', versionTag(user.version));
+    HttpResponse.success(res, user);
   }
 
   // POST /users
   public async createUser(req: Request, res: Response): Promise<void> {
-    try {
-      const { name, email } = req.body;
-      
-      if (!name || !email) {
-        HttpResponse.badRequest(res, 'Name and email are required');
-        return;
-      }
+    const { name, email } = req.body;
 
-      this.logger.info(`Creating new user: ${email}`);
-      
-      // Check if user with email already exists
-      const existingUser = await this.userService.getUserByEmail(email);
-      if (existingUser) {
-        this.logger.warn(`Attempted to create duplicate user: ${email}`);
-        HttpResponse.conflict(res, 'User with this email already exists');
-        return;
-      }
+    this.logger.info('Creating new user', { email });
+    const newUser = await this.userService.createUser({ name, email }, getAuditContext(req));
 
-      const newUser = await this.userService.createUser({ name, email });
-      HttpResponse.created(res, newUser, 'User created successfully');
-    } catch (error) {
-      this.logger.error('Error creating user', error as Error);
-      HttpResponse.internalError(res, 'Failed to create user');
-    }
+    res.setHeader('ETag', versionTag(newUser.version));
+    HttpResponse.created(res, newUser, 'User created successfully');
   }
 
   // PUT /users/:id
-  public async updateUser(req: Request, res: Response): Promise<void> {
-    try {
-      const { id } = req.params;
-      const { name, email } = req.body;
-      
-      if (!id) {
-        HttpResponse.badRequest(res, 'User ID is required');
-        return;
-      }
-
-      const userId = parseInt(id);
-      if (isNaN(userId)) {
-        HttpResponse.badRequest(res, 'Invalid user ID format');
-        return;
-      }
-
-      this.logger.info(`Updating user with ID: ${userId}`);
-      const updatedUser = await this.userService.updateUser(userId, { name, email });
-      
-      if (!updatedUser) {
-        HttpResponse.notFound(res, `User with ID ${userId} not found`);
-        return;
-      }
+  public async replaceUser(req: Request, res: Response): Promise<void> {
+    const userId = Number(req.params.id);
+    const { name, email } = req.body;
+
+    this.logger.info(`Replacing user with ID: ${userId}`);
+    const user = await this.userService.replaceUser(
+      userId,
+      { name, email },
+      getAuditContext(req),
+      parseIfMatch(req.get('If-Match'))
+    );
+
+    res.setHeader('ETag', versionTag(user.version));
+    HttpResponse.success(res, user, 'User updated successfully');
+  }
 
-      HttpResponse.success(res, updatedUser, 'User updated successfully');
-    } catch (error) {
-      this.logger.error(`Error updating user`, error as Error);
-      HttpResponse.internalError(res, 'Failed to update user');
-    }
+  // PATCH /users/:id
+  public async patchUser(req: Request, res: Response): Promise<void> {
+    const userId = Number(req.params.id);
+    const mediaType: PatchMediaType = req.is(JSON_PATCH) ? JSON_PATCH : MERGE_PATCH;
+
+    this.logger.info(`Patching user with ID: ${userId} (${mediaType})`);
+    const user = await this.userService.patchUser(
+      userId,
+      current => this.toReplacement(applyPatch(current, mediaType, req.body)),
+      getAuditContext(req),
+      parseIfMatch(req.get('If-Match'))
+    );
+
+    res.setHeader('ETag', versionTag(user.version));
+    HttpResponse.success(res, user, 'User updated successfully');
   }
 
   // DELETE /users/:id
   public async deleteUser(req: Request, res: Response): Promise<void> {
-    try {
-      const { id } = req.params;
-      
-      if (!id) {
-        HttpResponse.badRequest(res, 'User ID is required');
-        return;
-      }
+    const userId = Number(req.params.id);
 
-      const userId = parseInt(id);
-      if (isNaN(userId)) {
-        HttpResponse.badRequest(res, 'Invalid user ID format');
-        return;
-      }
+    this.logger.info(`Deleting user with ID: ${userId}`);
+    await this.userService.deleteUser(userId, getAuditContext(req));
+
+    HttpResponse.success(res, null, 'User deleted successfully');
+  }
+
+  // POST /users/:id/restore
+  public async restoreUser(req: Request, res: Response): Promise<void> {
+    const userId = Number(req.params.id);
 
-      this.logger.info(`Deleting user with ID: ${userId}`);
-      const deleted = await this.userService.deleteUser(userId);
-      
-      if (!deleted) {
-        HttpResponse.notFound(res, `User with ID ${userId} not found`);
-        return;
+    this.logger.info(`Restoring user with ID: ${userId}`);
+    const user = await this.userService.restoreUser(userId, getAuditContext(req));
+
+    HttpResponse.success(res, user, 'User restored successfully');
+  }
+
+  // DELETE /users/:id/purge
+  public async purgeUser(req: Request, res: Response): Promise<void> {
+    const userId = Number(req.params.id);
+
+    this.logger.info(`Purging user with ID: ${userId}`);
+    await this.userService.purgeUser(userId, getAuditContext(req));
+
+    HttpResponse.success(res, null, 'User permanently deleted');
+  }
+
+  // GET /users/:id/history
+  public async getUserHistory(req: Request, res: Response): Promise<void> {
+    const userId = Number(req.params.id);
+
+    this.logger.info(`Fetching history of user with ID: ${userId}`);
+    const page = await this.userService.getUserHistory(userId, pageOptionsFromQuery<AuditEvent>(req.query));
+
+    HttpResponse.paginated(res, page);
+  }
+
+  /**
+   * Check the document a PATCH produced the way PUT checks its body
+   * Only writable fields may be present, so patches cannot touch id or timestamps
+   */
+  private toReplacement(patched: unknown): ReplaceUserDto {
+    const fields = replaceUserSchema.body ?? {};
+    const errors: FieldError[] = validateObject(patched, fields, 'body');
+
+    if (typeof patched === 'object' && patched !== null && !Array.isArray(patched)) {
+      for (const field of Object.keys(patched).filter(key => !(key in fields))) {
+        errors.push({ field, location: 'body', rule: 'readOnly', message: `${field} cannot be changed` });
       }
+    }
+    if (errors.length > 0) {
+      throw new ValidationError(errors);
+    }
+
+    const { name, email } = patched as ReplaceUserDto;
+    return { name, email };
+  }
+
+  /**
+   * Build paging, sorting and filter options for GET /users
+   * The query has already been checked by listUsersSchema
+   */
+  private buildPageOptions(req: Request): PageOptions<User, UserFilters> {
+    const { sort, search, emailDomain, createdAfter, createdBefore, includeDeleted } =
+      req.query as Record<string, string | undefined>;
 
-      HttpResponse.success(res, null, 'User deleted successfully');
-    } catch (error) {
-      this.logger.error(`Error deleting user`, error as Error);
-      HttpResponse.internalError(res, 'Failed to delete user');
+    const options: PageOptions<User, UserFilters> = pageOptionsFromQuery<User>(req.query);
+    const filters: UserFilters = {};
+
+    const sortFields = sort ? parseSort<User>(sort, USER_SORTABLE_FIELDS) : undefined;
+    if (sortFields) {
+      options.sort = sortFields;
+    }
+
+    if (search) {
+      filters.search = search;
+    }
+    if (emailDomain) {
+      filters.emailDomain = emailDomain.replace(/^@/, '');
+    }
+    if (createdAfter) {
+      filters.createdAfter = new Date(createdAfter);
     }
+    if (createdBefore) {
+      filters.createdBefore = new Date(createdBefore);
+    }
+    if (includeDeleted === 'true') {
+      filters.includeDeleted = true;
+    }
+
+    options.filters = filters;
+    return options;
+  }
+
+  private withHighlights(page: Page<User>, search: string): Page<UserSearchHit> {
+    const terms = searchTerms(search);
+    return { ...page, items: page.items.map(user => ({ ...user, highlights: this.highlights(user, terms) })) };
+  }
+
+  private highlights(user: Pick<User, 'name' | 'email'>, terms: string[]): UserHighlights {
+    const name = highlight(user.name, terms);
+    const email = highlight(user.email, terms);
+    return { ...(name && { name }), ...(email && { email }) };
   }
 }
@@ -0,0 +1,107 @@
+import { HttpStatus } from '../utils/httpResponse';
+import { FieldError } from '../utils/validation';
+
+/**
+ * Base class for errors that carry an HTTP status and a stable,
+ * machine-readable error code. Services throw these; the error handler
+ * turns them into ApiResponse bodies.
+ */
+export class AppError extends Error {
+  public readonly statusCode: HttpStatus;
+  public readonly code: string;
+  public readonly errors?: FieldError[];
+
+  constructor(message: string, statusCode: HttpStatus, code: string, errors?: FieldError[]) {
+    super(message);
+    this.name = new.target.name;
+    this.statusCode = statusCode;
+    this.code = code;
+    if (errors) {
+      this.errors = errors;
+    }
+  }
+}
+
+/**
+ * 404 - the requested resource does not exist
+ */
+export class NotFoundError extends AppError {
+  constructor(message: string = 'Resource not found', code: string = 'NOT_FOUND') {
+    super(message, HttpStatus.NOT_FOUND, code);
+  }
+}
+
+/**
+ * 409 - the request conflicts with the current state of a resource
+ */
+export class ConflictError extends AppError {
+  constructor(message: string = 'Resource already exists', code: string = 'CONFLICT', errors?: FieldError[]) {
+    super(message, HttpStatus.CONFLICT, code, errors);
+  }
+}
+
+/**
+ * 412 - a precondition such as If-Match does not hold for the current resource
+ */
+export class PreconditionFailedError extends AppError {
+  constructor(message: string = 'Precondition Failed', code: string = 'PRECONDITION_FAILED') {
+    super(message, HttpStatus.PRECONDITION_FAILED, code);
+  }
+}
+
+/**
+ * 415 - the request body is in a media type the route does not accept
+ */
+export class UnsupportedMediaTypeError extends AppError {
+  public readonly accepted: string[];
+
+  /**
+   * @param accepted - Media types the route accepts
+   */
+  constructor(accepted: string[], message: string = 'Unsupported Media Type', code: string = 'UNSUPPORTED_MEDIA_TYPE') {
+    super(message, HttpStatus.UNSUPPORTED_MEDIA_TYPE, code);
+    this.accepted = accepted;
+  }
+}
+
+/**
+ * 422 - the request is well-formed but fails validation
+ */
+export class ValidationError extends AppError {
+  constructor(errors: FieldError[], message: string = 'Validation failed', code: string = 'VALIDATION_FAILED') {
+    super(message, HttpStatus.UNPROCESSABLE_ENTITY, code, errors);
+  }
+}
+
+/**
+ * 401 - the caller is not authenticated
+ */
+export class UnauthorizedError extends AppError {
+  constructor(message: string = 'Unauthorized', code: string = 'UNAUTHORIZED') {
+    super(message, HttpStatus.UNAUTHORIZED, code);
+  }
+}
+
+/**
+ * 403 - the caller is authenticated but not allowed to perform the action
+ */
+export class ForbiddenError extends AppError {
+  constructor(message: string = 'Forbidden', code: string = 'FORBIDDEN') {
+    super(message, HttpStatus.FORBIDDEN, code);
+  }
+}
+
+/**
+ * 429 - the caller has sent too many requests
+ */
+export class RateLimitedError extends AppError {
+  public readonly retryAfter: number;
+
+  /**
+   * @param retryAfter - Seconds until the caller may retry
+   */
+  constructor(retryAfter: number, message: string = 'Too Many Requests', code: string = 'RATE_LIMITED') {
+    super(message, HttpStatus.TOO_MANY_REQUESTS, code);
+    this.retryAfter = retryAfter;
+  }
+}
@@ -0,0 +1,92 @@
+import { readdirSync } from 'fs';
+import path from 'path';
+import { QueryTypes, Sequelize } from 'sequelize';
+import { ICache } from '../cache/ICache';
+import { HealthCheck } from '../types/Health';
+import { poolStats } from '../utils/pool';
+
+const MIGRATIONS_PATH = path.resolve(__dirname, '../migrations');
+
+/**
+ * The database answers a trivial query
+ */
+export function databaseCheck(sequelize: Sequelize): HealthCheck {
+  return {
+    name: 'database',
+    run: async () => {
+      await sequelize.query('SELECT 1', { type: QueryTypes.SELECT });
+      return { status: 'pass' };
+    },
+  };
+}
+
+/**
+ * Connections are left in the pool
+ * A saturated pool only warns: requests queue for a connection but are
+ * still served, and taking every busy instance out of rotation at once
+ * would turn load into an outage.
+ */
+export function connectionPoolCheck(sequelize: Sequelize): HealthCheck {
+  return {
+    name: 'connectionPool',
+    run: async () => {
+      const pool = poolStats(sequelize);
+      if (!pool) {
+        return { status: 'pass' };
+      }
+
+      const { size, available, using, waiting, maxSize } = pool;
+      const saturated = using >= maxSize && waiting > 0;
+      return { status: saturated ? 'warn' : 'pass', details: { size, available, using, waiting, max: maxSize } };
+    },
+  };
+}
+
+/**
+ * Every migration shipped with the code has been applied
+ * Names are compared without their extension, since migrations run from
+ * `.ts` sources and ship as `.js`. Once nothing is pending the result is
+ * kept, as migrations only appear with a new deployment.
+ * @param directory - Where the migration files are
+ */
+export function migrationsCheck(sequelize: Sequelize, directory: string = MIGRATIONS_PATH): HealthCheck {
+  let applied = false;
+  const baseName = (file: string): string => file.replace(/\.(ts|js)$/, '');
+
+  return {
+    name: 'migrations',
+    run: async () => {
+      if (applied) {
+        return { status: 'pass' };
+      }
+
+      const rows = await sequelize.query<{ name: string }>('SELECT name FROM "SequelizeMeta"', { type: QueryTypes.SELECT });
+      const done = new Set(rows.map(row => baseName(row.name)));
+      const pending = readdirSync(directory)
+        .filter(file => /\.(ts|js)$/.test(file) && !file.endsWith('.d.ts'))
+        .map(baseName)
+        .filter(name => !done.has(name));
+
+      applied = pending.length === 0;
+      return applied ? { status: 'pass' } : { status: 'fail', details: { pending } };
+    },
+  };
+}
+
+/**
+ * The cache backend answers
+ * Only warns: the repositories fall back to the database without it.
+ */
+export function cacheCheck(cache: ICache): HealthCheck {
+  return {
+    name: 'cache',
+    run: async () => {
+      try {
+        await cache.ping();
+        return { status: 'pass', details: { backend: cache.stats().backend } };
+      } catch (error) {
+        return { status: 'warn', error: (error as Error).message };
+      }
+    },
+  };
+}
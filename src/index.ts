@@ -1,55 +1,23 @@
-import express, { Application, Request, Response } from 'express';
-import bodyParser from 'body-parser';
+import { Application } from 'express';
 import { Server } from 'http';
-import routes from './routes';
-import { errorHandler, notFound } from './middleware/errorHandler';
-import { requestLogger, errorLogger } from './middleware/logger';
+import { createApp } from './app';
+import { createContainer } from './container';
 import { Logger } from './utils/logger';
-import { testConnection, closeConnection } from './config/database';
+import { config, configWarnings, redactConfig } from './config';
+import { sequelize, testConnection, closeConnection } from './config/database';
+import { startTracing } from './tracing/tracing';
+import { traceQueries } from './tracing/instrument';
 
-const logger = new Logger({ module: 'Server' });
-const app: Application = express();
-const PORT = process.env.PORT || 3000;
-
-// Middleware
-app.use(bodyParser.json());
-app.use(bodyParser.urlencoded({ extended: true }));
-
-// Request logging middleware
-app.use(requestLogger);
-
-// Basic route
-app.get('/', (req: Request, res: Response) => {
-  res.json({ 
-    message: 'Express TypeScript MVC Server is running!',
-    version: '1.0.0',
-    endpoints: {
-      health: '/health',
-      users: '/api/users',
-      hello: '/api/hello',
-      helloPersonalized: '/api/hello/personalized/:name',
-      helloRandom: '/api/hello/random',
-      helloLanguages: '/api/hello/languages'
-    }
-  });
-});
+const tracing = startTracing(config.tracing);
+traceQueries(sequelize);
 
-// Health check route
-app.get('/health', (req: Request, res: Response) => {
-  res.status(200).json({ 
-    status: 'OK', 
-    timestamp: new Date().toISOString(),
-    uptime: process.uptime()
-  });
-});
-
-// API routes
-app.use(routes);
+const logger = new Logger({ module: 'Server' });
+const container = createContainer();
+const app: Application = createApp(container);
+const PORT = config.server.port;
 
-// Error handling middleware
-app.use(errorLogger);
-app.use(notFound);
-app.use(errorHandler);
+logger.info('Configuration loaded', redactConfig(config));
+configWarnings.forEach(warning => logger.warn(warning));
 
 // Start server
 let server: Server;
@@ -63,7 +31,8 @@ const startServer = async () => {
 
     server = app.listen(PORT, () => {
       logger.info(`🚀 Server is running on port ${PORT}`);
-      logger.info(`📍 Health check: http://localhost:${PORT}/health`);
+      logger.info(`📍 Health checks: http://localhost:${PORT}/health/live, http://localhost:${PORT}/health/ready`);
+      logger.info(`📈 Metrics: http://localhost:${PORT}/metrics`);
       logger.info(`👥 Users API: http://localhost:${PORT}/api/users`);
       logger.info(`👋 Hello API: http://localhost:${PORT}/api/hello`);
       logger.info(`🌍 Hello Random: http://localhost:${PORT}/api/hello/random`);
@@ -80,11 +49,24 @@ startServer();
 
 /**
  * Graceful shutdown handler
- * Handles SIGTERM and SIGINT signals for clean shutdown
+ * Handles SIGTERM and SIGINT signals for clean shutdown. Readiness fails
+ * first, and the server keeps serving for SHUTDOWN_DRAIN_MS so that load
+ * balancers stop routing to it before it closes.
  */
 const gracefulShutdown = async (signal: string) => {
-  logger.info(`${signal} signal received: closing HTTP server`);
-  
+  const { shutdownDrainMs } = config.health;
+  logger.info(`${signal} signal received: draining traffic for ${shutdownDrainMs}ms`);
+  container.resolve('healthService').beginShutdown();
+
+  // Force shutdown 10 seconds after draining
+  setTimeout(() => {
+    logger.error('Could not close connections in time, forcefully shutting down');
+    process.exit(1);
+  }, shutdownDrainMs + 10000);
+
+  await new Promise(resolve => setTimeout(resolve, shutdownDrainMs));
+  logger.info('Closing HTTP server');
+
   server.close(async () => {
     logger.info('HTTP server closed');
     
@@ -95,16 +77,31 @@ const gracefulShutdown = async (signal: string) => {
     } catch (error) {
       logger.error('Error closing database connection', error as Error);
     }
+
+    try {
+      await container.resolve('cache').close();
+      logger.info('Cache connection closed');
+    } catch (error) {
+      logger.error('Error closing cache connection', error as Error);
+    }
+
+    try {
+      await container.resolve('rateLimitStore').close();
+      logger.info('Rate limit store closed');
+    } catch (error) {
+      logger.error('Error closing rate limit store', error as Error);
+    }
+
+    try {
+      // Export the spans still buffered
+      await tracing.shutdown();
+    } catch (error) {
+      logger.error('Error flushing traces', error as Error);
+    }
     
     logger.info('Graceful shutdown completed');
     process.exit(0);
   });
-
-  // Force shutdown after 10 seconds
-  setTimeout(() => {
-    logger.error('Could not close connections in time, forcefully shutting down');
-    process.exit(1);
-  }, 10000);
 };
 
 // Listen for termination signals
@@ -0,0 +1,140 @@
+import { Counter, Gauge, Histogram, Registry, collectDefaultMetrics } from 'prom-client';
+import { QueryOptions, Sequelize } from 'sequelize';
+import { poolStats } from '../utils/pool';
+
+const HTTP_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+const QUERY_BUCKETS = [0.001, 0.0025, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5];
+
+/**
+ * The metrics each Sequelize instance times its queries into
+ * Hooks are added the first time an instance is observed and look the
+ * metrics up here, so containers resolved again over the shared instance do
+ * not pile up hooks.
+ */
+const observers = new WeakMap<Sequelize, Metrics>();
+
+/**
+ * Time every query of a Sequelize instance into the metrics observing it
+ * when the query started
+ */
+function timeQueries(sequelize: Sequelize): void {
+  const timers = new WeakMap<object, () => void>();
+
+  sequelize.addHook('beforeQuery', (options: QueryOptions, query: object) => {
+    const metrics = observers.get(sequelize);
+    if (metrics) {
+      timers.set(query, metrics.dbQueryDuration.startTimer({ operation: options.type ?? 'RAW' }));
+    }
+  });
+  sequelize.addHook('afterQuery', (_options: QueryOptions, query: object) => {
+    timers.get(query)?.();
+    timers.delete(query);
+  });
+}
+
+/**
+ * Prometheus metrics of one app instance
+ * Every instance has its own registry, so that apps built side by side,
+ * as the tests do, count separately. Process metrics such as event-loop lag,
+ * heap size and CPU time come from prom-client's default collectors.
+ */
+export class Metrics {
+  public readonly registry: Registry;
+
+  public readonly httpRequests: Counter<'method' | 'route' | 'status'>;
+  public readonly httpRequestDuration: Histogram<'method' | 'route' | 'status'>;
+  public readonly dbQueryDuration: Histogram<'operation'>;
+
+  public readonly usersCreated: Counter<'source'>;
+  public readonly usersDeleted: Counter;
+  public readonly usersRestored: Counter;
+  public readonly usersPurged: Counter;
+  public readonly logins: Counter<'result'>;
+
+  constructor() {
+    this.registry = new Registry();
+    const registers = [this.registry];
+
+    collectDefaultMetrics({ register: this.registry });
+
+    this.httpRequests = new Counter({
+      name: 'http_requests_total',
+      help: 'HTTP requests answered, by route template',
+      labelNames: ['method', 'route', 'status'],
+      registers,
+    });
+    this.httpRequestDuration = new Histogram({
+      name: 'http_request_duration_seconds',
+      help: 'Time from receiving an HTTP request to finishing its response',
+      labelNames: ['method', 'route', 'status'],
+      buckets: HTTP_BUCKETS,
+      registers,
+    });
+    this.dbQueryDuration = new Histogram({
+      name: 'db_query_duration_seconds',
+      help: 'Time Sequelize queries took, by query type',
+      labelNames: ['operation'],
+      buckets: QUERY_BUCKETS,
+      registers,
+    });
+
+    this.usersCreated = new Counter({
+      name: 'users_created_total',
+      help: 'Users created, by an administrator or through registration',
+      labelNames: ['source'],
+      registers,
+    });
+    this.usersDeleted = new Counter({ name: 'users_deleted_total', help: 'Users soft-deleted', registers });
+    this.usersRestored = new Counter({ name: 'users_restored_total', help: 'Soft-deleted users restored', registers });
+    this.usersPurged = new Counter({ name: 'users_purged_total', help: 'Users permanently deleted', registers });
+    this.logins = new Counter({
+      name: 'auth_logins_total',
+      help: 'Login attempts, by whether the credentials were accepted',
+      labelNames: ['result'],
+      registers,
+    });
+  }
+
+  /**
+   * Time the queries of a Sequelize instance and report its connection pool
+   * An instance times its queries into the metrics that observed it last.
+   */
+  public observeDatabase(sequelize: Sequelize): void {
+    if (!observers.has(sequelize)) {
+      timeQueries(sequelize);
+    }
+    observers.set(sequelize, this);
+
+    new Gauge({
+      name: 'db_pool_connections',
+      help: 'Database connections by state: in use, idle in the pool, or requests waiting for one',
+      labelNames: ['state'],
+      registers: [this.registry],
+      collect() {
+        const pool = poolStats(sequelize);
+        this.set({ state: 'using' }, pool?.using ?? 0);
+        this.set({ state: 'available' }, pool?.available ?? 0);
+        this.set({ state: 'waiting' }, pool?.waiting ?? 0);
+      },
+    });
+    new Gauge({
+      name: 'db_pool_max_connections',
+      help: 'Most connections the database pool opens',
+      registers: [this.registry],
+      collect() {
+        this.set(poolStats(sequelize)?.maxSize ?? 0);
+      },
+    });
+  }
+
+  /**
+   * Every metric in the Prometheus text exposition format
+   */
+  public async render(): Promise<string> {
+    return await this.registry.metrics();
+  }
+
+  public get contentType(): string {
+    return this.registry.contentType;
+  }
+}
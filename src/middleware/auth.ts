@@ -0,0 +1,46 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { AuthUser } from '../types/Auth';
+import { TokenService } from '../services/TokenService';
+import { UnauthorizedError } from '../errors/AppError';
+import { annotate } from '../utils/routeMetadata';
+import { updateRequestContext } from '../utils/requestContext';
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: AuthUser;
+    }
+  }
+}
+
+/**
+ * Authentication middleware
+ * Verifies the Bearer access token and attaches the caller to `req.user`
+ * @param tokenService - Verifies access tokens
+ */
+export const createAuthenticate = (tokenService: TokenService): RequestHandler => {
+  return annotate((req: Request, res: Response, next: NextFunction): void => {
+    const header = req.get('authorization');
+    const [scheme, token] = header ? header.split(' ') : [];
+
+    if (scheme?.toLowerCase() !== 'bearer' || !token) {
+      next(new UnauthorizedError('Missing bearer token', 'MISSING_TOKEN'));
+      return;
+    }
+
+    req.user = tokenService.verifyAccessToken(token);
+    updateRequestContext({ userId: req.user.id });
+    next();
+  }, { authenticated: true });
+};
+
+/**
+ * Get the authenticated caller of a request
+ * Throws when used on a route that is not behind `authenticate`
+ */
+export function getAuthUser(req: Request): AuthUser {
+  if (!req.user) {
+    throw new UnauthorizedError();
+  }
+  return req.user;
+}
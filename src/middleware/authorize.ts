@@ -0,0 +1,56 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { Permission } from '../types/Permission';
+import { PermissionService } from '../services/PermissionService';
+import { ForbiddenError } from '../errors/AppError';
+import { getAuthUser } from './auth';
+import { annotate } from '../utils/routeMetadata';
+
+export interface AuthorizeOptions {
+  /**
+   * Permission that is sufficient when the caller owns the target resource
+   */
+  ownPermission?: Permission;
+  /**
+   * Resolve the ID of the user who owns the target resource
+   */
+  ownerId?: (req: Request) => number;
+}
+
+/**
+ * Policy middleware
+ * Must run after `authenticate`. Allows the request when the caller holds
+ * `permission`, or holds `ownPermission` and owns the target resource.
+ * Otherwise responds 403 naming the missing permission.
+ */
+export type Authorize = (permission: Permission, options?: AuthorizeOptions) => RequestHandler;
+
+/**
+ * Build the `authorize` policy middleware factory
+ * @param permissionService - Looks up the permissions of the caller
+ */
+export const createAuthorize = (permissionService: PermissionService): Authorize => {
+  return (permission: Permission, options: AuthorizeOptions = {}): RequestHandler => {
+    return annotate(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+      const user = getAuthUser(req);
+      const permissions = await permissionService.getPermissions(user.id);
+
+      if (permissions.has(permission)) {
+        next();
+        return;
+      }
+
+      const { ownPermission, ownerId } = options;
+      if (ownPermission && ownerId && ownerId(req) === user.id && permissions.has(ownPermission)) {
+        next();
+        return;
+      }
+
+      next(new ForbiddenError(`Missing permission: ${permission}`, 'MISSING_PERMISSION'));
+    }, { permission, ...(options.ownPermission && { ownPermission: options.ownPermission }) });
+  };
+};
+
+/**
+ * Owner resolver for routes addressing a user by `:id`
+ */
+export const userIdParam = (req: Request): number => Number(req.params.id);
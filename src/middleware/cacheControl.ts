@@ -0,0 +1,17 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { CachePolicy, formatCacheControl, setCachePolicy } from '../utils/httpCache';
+import { annotate } from '../utils/routeMetadata';
+
+/**
+ * HTTP caching middleware
+ * Applies a cache policy to the route: Cache-Control is sent with every
+ * response and HttpResponse adds ETag and Last-Modified, so clients can
+ * revalidate with If-None-Match or If-Modified-Since and get 304 back
+ * @param policy - How the responses of the route may be stored
+ */
+export const cacheControl = (policy: CachePolicy): RequestHandler => {
+  return annotate((req: Request, res: Response, next: NextFunction): void => {
+    setCachePolicy(res, policy);
+    next();
+  }, { cacheControl: formatCacheControl(policy) });
+};
@@ -0,0 +1,30 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+
+/**
+ * Run a chain of middleware only when a predicate matches the request
+ * Errors, including rejected promises from async handlers, are passed to next()
+ * @param predicate - Decides whether the handlers apply to this request
+ * @param handlers - Middleware to run in order
+ */
+export const when = (predicate: (req: Request) => boolean, ...handlers: RequestHandler[]): RequestHandler => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!predicate(req)) {
+      next();
+      return;
+    }
+
+    const run = (index: number, err?: unknown): void => {
+      const handler = handlers[index];
+      if (err || !handler) {
+        next(err);
+        return;
+      }
+
+      Promise.resolve()
+        .then(() => handler(req, res, (nextErr?: unknown) => run(index + 1, nextErr)))
+        .catch(next);
+    };
+
+    run(0);
+  };
+};
@@ -0,0 +1,23 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { UnsupportedMediaTypeError } from '../errors/AppError';
+import { annotate } from '../utils/routeMetadata';
+
+export const APPLICATION_JSON = 'application/json';
+
+/**
+ * Content-Type guard
+ * Passes an UnsupportedMediaTypeError (415) unless the request body is in
+ * one of the given media types; for PATCH the error handler advertises
+ * them in Accept-Patch
+ * @param mediaTypes - Media types the route accepts
+ */
+export const consumes = (...mediaTypes: string[]): RequestHandler => {
+  return annotate((req: Request, res: Response, next: NextFunction): void => {
+    if (req.is(mediaTypes)) {
+      next();
+      return;
+    }
+
+    next(new UnsupportedMediaTypeError(mediaTypes, `Content-Type must be one of: ${mediaTypes.join(', ')}`));
+  }, { consumes: mediaTypes });
+};
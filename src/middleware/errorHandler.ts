@@ -1,31 +1,95 @@
 import { Request, Response, NextFunction } from 'express';
+import {
+  OptimisticLockError,
+  UniqueConstraintError,
+  ValidationError as SequelizeValidationError,
+} from 'sequelize';
+import {
+  AppError,
+  ConflictError,
+  NotFoundError,
+  PreconditionFailedError,
+  RateLimitedError,
+  UnsupportedMediaTypeError,
+  ValidationError,
+} from '../errors/AppError';
+import { HttpResponse, HttpStatus } from '../utils/httpResponse';
+import { Logger } from '../utils/logger';
+import { config } from '../config';
+import { fromSequelizeError } from '../utils/validation';
+
+const logger = new Logger({ module: 'ErrorHandler' });
 
 export interface ApiError extends Error {
   statusCode?: number;
+  code?: string;
+}
+
+/**
+ * Translate errors raised outside the domain layer into AppErrors
+ * Sequelize validation errors share the shape of the validation middleware
+ */
+function toAppError(err: ApiError): AppError | undefined {
+  if (err instanceof AppError) {
+    return err;
+  }
+  if (err instanceof UniqueConstraintError) {
+    return new ConflictError('Resource already exists', 'UNIQUE_CONSTRAINT', fromSequelizeError(err));
+  }
+  // A concurrent request updated the row between our read and our write
+  if (err instanceof OptimisticLockError) {
+    return new PreconditionFailedError('Resource was modified by another request', 'STALE_VERSION');
+  }
+  if (err instanceof SequelizeValidationError) {
+    return new ValidationError(fromSequelizeError(err));
+  }
+  // body-parser and other http-errors style errors
+  if (err.statusCode && err.statusCode >= 400 && err.statusCode < 500) {
+    return new AppError(err.message, err.statusCode, err.code || HttpStatus[err.statusCode] || 'BAD_REQUEST');
+  }
+  return undefined;
 }
 
+/**
+ * Central error handler
+ * Turns every error passed to next() - including rejected promises from
+ * async route handlers, which Express 5 forwards automatically - into an
+ * ApiResponse body with a stable error code and the request ID
+ */
 export const errorHandler = (
   err: ApiError,
   req: Request,
   res: Response,
   next: NextFunction
 ): void => {
-  const statusCode = err.statusCode || 500;
-  const message = err.message || 'Internal Server Error';
+  if (res.headersSent) {
+    next(err);
+    return;
+  }
+
+  const appError = toAppError(err);
+
+  if (appError) {
+    if (appError instanceof RateLimitedError) {
+      res.setHeader('Retry-After', String(appError.retryAfter));
+    }
+    if (appError instanceof UnsupportedMediaTypeError && req.method === 'PATCH') {
+      res.setHeader('Accept-Patch', appError.accepted.join(', '));
+    }
+    HttpResponse.error(res, appError.message, appError.statusCode, appError.errors, appError.code);
+    return;
+  }
 
-  console.error(`Error ${statusCode}: ${message}`);
-  console.error(err.stack);
+  logger.error('Unhandled error', err);
 
-  res.status(statusCode).json({
-    success: false,
-    message,
-    ...(process.env.NODE_ENV === 'development' && { stack: err.stack })
-  });
+  // Internal error details are only exposed in development
+  const statusCode = err.statusCode || HttpStatus.INTERNAL_SERVER_ERROR;
+  const message = config.env === 'development' && err.message
+    ? err.message
+    : 'Internal Server Error';
+  HttpResponse.error(res, message, statusCode, undefined, 'INTERNAL_ERROR');
 };
 
-export const notFound = (req: Request, res: Response): void => {
-  res.status(404).json({
-    success: false,
-    message: `Route ${req.originalUrl} not found`
-  });
+export const notFound = (req: Request, res: Response, next: NextFunction): void => {
+  next(new NotFoundError(`Route ${req.originalUrl} not found`, 'ROUTE_NOT_FOUND'));
 };
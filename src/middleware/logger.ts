@@ -1,51 +1,83 @@
-import { Request, Response, NextFunction } from 'express';
+import { Request, Response, NextFunction, RequestHandler } from 'express';
 import { Logger } from '../utils/logger';
+import { config } from '../config';
 
 const logger = new Logger({ module: 'RequestLogger' });
 
+export interface RequestLogOptions {
+  /**
+   * Share of successful requests to log, from 0 to 1
+   */
+  sampleRate: number;
+  /**
+   * Duration from which a request is logged at warn; 0 disables
+   */
+  slowRequestMs: number;
+}
+
 /**
  * Request logging middleware
- * Logs incoming requests and outgoing responses
+ * Logs incoming requests and outgoing responses. Runs after requestContext,
+ * which gives the request its ID. URLs are logged without their query
+ * string, whose parameters are logged as `query` where redaction applies.
+ *
+ * Whether a request is logged is decided when it arrives, by sampling.
+ * Responses of requests that were not sampled are still logged when they
+ * fail, and slow requests are logged at warn whatever the sample.
+ * @param options - Sampling and slow request threshold
  */
-export const requestLogger = (req: Request, res: Response, next: NextFunction): void => {
-  const startTime = Date.now();
-  const requestId = `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-  
-  // Add request ID to request object for tracing
-  (req as any).requestId = requestId;
+export const requestLogger = (options: RequestLogOptions): RequestHandler => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const startTime = Date.now();
+    const { requestId } = req;
+    const sampled = Math.random() < options.sampleRate;
 
-  // Log incoming request
-  logger.info('Incoming request', {
-    requestId,
-    method: req.method,
-    url: req.url,
-    path: req.path,
-    query: req.query,
-    ip: req.ip,
-    userAgent: req.get('user-agent'),
-  });
+    // Log incoming request
+    if (sampled) {
+      logger.info('Incoming request', {
+        requestId,
+        method: req.method,
+        path: req.path,
+        query: req.query,
+        ip: req.ip,
+        userAgent: req.get('user-agent'),
+      });
+    }
 
-  // Capture the original end function
-  const originalEnd = res.end;
+    // Capture the original end function
+    const originalEnd = res.end;
 
-  // Override res.end to log response
-  res.end = function(chunk?: any, encoding?: any, callback?: any): Response {
-    const duration = Date.now() - startTime;
-    
-    // Log outgoing response
-    logger.info('Outgoing response', {
-      requestId,
-      method: req.method,
-      url: req.url,
-      statusCode: res.statusCode,
-      duration: `${duration}ms`,
-    });
+    // Override res.end to log response
+    res.end = function(chunk?: any, encoding?: any, callback?: any): Response {
+      const duration = Date.now() - startTime;
+      const response = {
+        requestId,
+        method: req.method,
+        path: req.path,
+        route: req.routeTemplate,
+        statusCode: res.statusCode,
+        duration: `${duration}ms`,
+      };
 
-    // Call original end function
-    return originalEnd.call(this, chunk, encoding, callback) as Response;
-  };
+      // Log outgoing response
+      if (options.slowRequestMs > 0 && duration >= options.slowRequestMs) {
+        logger.warn('Slow request', {
+          ...response,
+          query: req.query,
+          durationMs: duration,
+          thresholdMs: options.slowRequestMs,
+          startedAt: new Date(startTime).toISOString(),
+        });
+      } else if (sampled || res.statusCode >= 400) {
+        logger.info('Outgoing response', response);
+      }
+
+      // Call original end function
+      return originalEnd.call(this, chunk, encoding, callback) as Response;
+    };
 
-  next();
+    next();
+  };
 };
 
 /**
@@ -58,16 +90,16 @@ export const errorLogger = (
   res: Response,
   next: NextFunction
 ): void => {
-  const requestId = (req as any).requestId || 'unknown';
+  const requestId = req.requestId ?? 'unknown';
 
   logger.error('Request error', {
     requestId,
     method: req.method,
-    url: req.url,
+    path: req.path,
     error: {
       name: err.name,
       message: err.message,
-      stack: process.env.NODE_ENV === 'development' ? err.stack : undefined,
+      stack: config.env === 'development' ? err.stack : undefined,
     },
   });
 
@@ -0,0 +1,32 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { Metrics } from '../metrics/Metrics';
+
+/**
+ * Route label of requests no documented route matched, so that scanners
+ * probing random URLs cannot create a series per URL
+ */
+export const UNMATCHED_ROUTE = 'unmatched';
+
+/**
+ * HTTP metrics middleware
+ * Counts and times every request by method, route template and status once
+ * its response has finished.
+ * @param metrics - Metrics of the app
+ */
+export const createHttpMetrics = (metrics: Metrics): RequestHandler => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const stopTimer = metrics.httpRequestDuration.startTimer();
+
+    res.on('finish', () => {
+      const labels = {
+        method: req.method,
+        route: req.routeTemplate ?? UNMATCHED_ROUTE,
+        status: String(res.statusCode),
+      };
+      metrics.httpRequests.inc(labels);
+      stopTimer(labels);
+    });
+
+    next();
+  };
+};
@@ -0,0 +1,80 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { RateLimitGroup, rateLimitPolicies } from '../config/rateLimit';
+import { RateLimitStore } from '../rateLimit/RateLimitStore';
+import { RateLimitDecision, RateLimitPolicy, decide } from '../rateLimit/slidingWindow';
+import { RateLimitedError } from '../errors/AppError';
+import { Logger } from '../utils/logger';
+import { annotate } from '../utils/routeMetadata';
+
+/**
+ * Rate limiting middleware
+ * Counts the request against the quota its caller has for the route group
+ * and sends the quota in RateLimit-Limit, RateLimit-Remaining,
+ * RateLimit-Reset and RateLimit-Policy. Past the limit it responds 429 with
+ * Retry-After. Every route of a group shares one quota, and rejected
+ * requests count too, so clients that retry early stay limited.
+ * Must run after `authenticate` on routes limited per user.
+ */
+export type RateLimit = (group: RateLimitGroup) => RequestHandler;
+
+/**
+ * Who a request is counted against
+ */
+function callerKey(req: Request, keyBy: RateLimitPolicy['keyBy']): string {
+  if (keyBy === 'user' && req.user) {
+    return `user:${req.user.id}`;
+  }
+  return `ip:${req.ip ?? 'unknown'}`;
+}
+
+/**
+ * Build the `rateLimit` middleware factory
+ * A failing store lets requests through: an outage of the counters must
+ * not take the API down with it.
+ * @param store - Where the counters are kept
+ * @param logger - Logger for rejected requests and store failures
+ * @param policies - Limits of the route groups
+ */
+export const createRateLimit = (
+  store: RateLimitStore,
+  logger: Logger,
+  policies: Record<RateLimitGroup, RateLimitPolicy> = rateLimitPolicies
+): RateLimit => {
+  const log = logger.child({ module: 'RateLimit' });
+
+  return (group: RateLimitGroup): RequestHandler => {
+    const policy = policies[group];
+
+    return annotate(async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+      const key = `${group}:${callerKey(req, policy.keyBy)}`;
+      const now = Date.now();
+      const windowMs = policy.windowSeconds * 1000;
+
+      let decision: RateLimitDecision;
+      try {
+        decision = decide(policy, await store.increment(key, Math.floor(now / windowMs), windowMs), now);
+      } catch (error) {
+        log.error(`Rate limit store failed for ${key}`, error as Error);
+        next();
+        return;
+      }
+
+      res.setHeader('RateLimit-Limit', String(policy.limit));
+      res.setHeader('RateLimit-Remaining', String(decision.remaining));
+      res.setHeader('RateLimit-Reset', String(decision.resetSeconds));
+      res.setHeader('RateLimit-Policy', `${policy.limit};w=${policy.windowSeconds}`);
+
+      if (!decision.allowed) {
+        log.warn('Rate limit exceeded', { group, key });
+        next(new RateLimitedError(decision.resetSeconds));
+        return;
+      }
+      next();
+    }, { rateLimit: `${policy.limit} requests per ${policy.windowSeconds} seconds` });
+  };
+};
+
+/**
+ * `rateLimit` factory that limits nothing, for RATE_LIMIT_DRIVER=none
+ */
+export const noRateLimit: RateLimit = () => (req: Request, res: Response, next: NextFunction): void => next();
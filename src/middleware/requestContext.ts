@@ -0,0 +1,44 @@
+import { randomUUID } from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { runWithRequestContext } from '../utils/requestContext';
+import { activeTraceIds } from '../tracing/tracing';
+
+declare global {
+  namespace Express {
+    interface Request {
+      /**
+       * ID of the request, also sent back in the X-Request-Id header
+       */
+      requestId?: string;
+    }
+  }
+}
+
+// IDs callers may choose; anything else could forge or break log lines
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+/**
+ * ID of a request: the caller's X-Request-Id when it is well-formed,
+ * otherwise the trace ID of the request
+ */
+function requestIdOf(req: Request): string {
+  const given = req.get('x-request-id');
+  if (given && REQUEST_ID_PATTERN.test(given)) {
+    return given;
+  }
+  return activeTraceIds()?.traceId ?? randomUUID();
+}
+
+/**
+ * Request context middleware
+ * Gives the request its ID and runs the rest of the chain within its
+ * context, which every Logger line then includes. Runs after traceRequests,
+ * so that the request's span is active.
+ */
+export const requestContext = (req: Request, res: Response, next: NextFunction): void => {
+  const requestId = requestIdOf(req);
+  req.requestId = requestId;
+  res.setHeader('X-Request-Id', requestId);
+
+  runWithRequestContext({ requestId }, next);
+};
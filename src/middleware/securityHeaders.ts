@@ -0,0 +1,48 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+
+export interface SecurityHeadersOptions {
+  /**
+   * Seconds browsers keep to HTTPS after an HTTPS response; 0 sends no HSTS
+   */
+  hstsMaxAge: number;
+}
+
+/**
+ * Nothing served by the API is meant to load resources or be framed
+ */
+const API_CONTENT_SECURITY_POLICY = "default-src 'none'; frame-ancestors 'none'; base-uri 'none'; form-action 'none'";
+
+/**
+ * Security headers middleware
+ * Sends the headers that keep browsers from sniffing, framing or leaking
+ * the API's responses. HSTS is only sent over HTTPS, where browsers honour
+ * it; behind a TLS-terminating proxy that relies on TRUST_PROXY.
+ * @param options - HSTS lifetime
+ */
+export const securityHeaders = (options: SecurityHeadersOptions): RequestHandler => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    res.setHeader('Content-Security-Policy', API_CONTENT_SECURITY_POLICY);
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    res.setHeader('X-Frame-Options', 'DENY');
+    res.setHeader('Referrer-Policy', 'no-referrer');
+    res.setHeader('Cross-Origin-Opener-Policy', 'same-origin');
+    res.setHeader('Cross-Origin-Resource-Policy', 'same-origin');
+    res.setHeader('X-Permitted-Cross-Domain-Policies', 'none');
+
+    if (req.secure && options.hstsMaxAge > 0) {
+      res.setHeader('Strict-Transport-Security', `max-age=${options.hstsMaxAge}; includeSubDomains`);
+    }
+    next();
+  };
+};
+
+/**
+ * Replace the API's Content-Security-Policy on routes that serve pages
+ * @param policy - Policy the page needs
+ */
+export const contentSecurityPolicy = (policy: string): RequestHandler => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    res.setHeader('Content-Security-Policy', policy);
+    next();
+  };
+};
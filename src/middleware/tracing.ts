@@ -0,0 +1,64 @@
+import { Request, Response, NextFunction } from 'express';
+import { ROOT_CONTEXT, SpanKind, SpanStatusCode, context, isSpanContextValid, propagation, trace } from '@opentelemetry/api';
+import {
+  ATTR_CLIENT_ADDRESS,
+  ATTR_HTTP_REQUEST_METHOD,
+  ATTR_HTTP_RESPONSE_STATUS_CODE,
+  ATTR_HTTP_ROUTE,
+  ATTR_URL_PATH,
+  ATTR_USER_AGENT_ORIGINAL,
+} from '@opentelemetry/semantic-conventions';
+import { tracer } from '../tracing/tracing';
+
+/**
+ * Request tracing middleware
+ * Continues the trace of an incoming `traceparent` header, or starts one,
+ * with a server span that covers the whole request. The rest of the chain
+ * runs with that span active. The span is named after the route template
+ * once the response has finished, and its context is sent back in a
+ * `traceresponse` header.
+ */
+export const traceRequests = (req: Request, res: Response, next: NextFunction): void => {
+  const parent = propagation.extract(ROOT_CONTEXT, req.headers);
+  const span = tracer.startSpan(req.method, {
+    kind: SpanKind.SERVER,
+    attributes: {
+      [ATTR_HTTP_REQUEST_METHOD]: req.method,
+      [ATTR_URL_PATH]: req.path,
+      ...(req.ip && { [ATTR_CLIENT_ADDRESS]: req.ip }),
+      ...(req.get('user-agent') && { [ATTR_USER_AGENT_ORIGINAL]: req.get('user-agent') }),
+    },
+  }, parent);
+  const active = trace.setSpan(parent, span);
+
+  const spanContext = span.spanContext();
+  if (isSpanContextValid(spanContext)) {
+    const flags = spanContext.traceFlags.toString(16).padStart(2, '0');
+    res.setHeader('traceresponse', `00-${spanContext.traceId}-${spanContext.spanId}-${flags}`);
+  }
+
+  let ended = false;
+  const end = (): void => {
+    if (ended) {
+      return;
+    }
+    ended = true;
+    if (req.routeTemplate) {
+      span.updateName(`${req.method} ${req.routeTemplate}`);
+      span.setAttribute(ATTR_HTTP_ROUTE, req.routeTemplate);
+    }
+    span.setAttribute(ATTR_HTTP_RESPONSE_STATUS_CODE, res.statusCode);
+    if (res.statusCode >= 500) {
+      span.setStatus({ code: SpanStatusCode.ERROR });
+    }
+    span.end();
+  };
+  // close alone means the client went away before the response was sent
+  res.once('finish', end);
+  res.once('close', end);
+
+  // Body parsers continue the chain from stream events, which would lose the span
+  context.bind(active, req);
+  context.bind(active, res);
+  context.with(active, next);
+};
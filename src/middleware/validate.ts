@@ -0,0 +1,28 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { ValidationError } from '../errors/AppError';
+import { FieldError, RequestLocation, RequestSchema, validateObject } from '../utils/validation';
+import { annotate } from '../utils/routeMetadata';
+
+const LOCATIONS: RequestLocation[] = ['params', 'query', 'body'];
+
+/**
+ * Request validation middleware
+ * Validates params, query and body against the given schemas and
+ * passes a ValidationError (422 with a field-level `errors` array) on failure
+ * @param schema - Schemas for the parts of the request to validate
+ */
+export const validate = (schema: RequestSchema): RequestHandler => {
+  return annotate((req: Request, res: Response, next: NextFunction): void => {
+    const errors: FieldError[] = LOCATIONS.flatMap(location => {
+      const locationSchema = schema[location];
+      return locationSchema ? validateObject(req[location], locationSchema, location) : [];
+    });
+
+    if (errors.length > 0) {
+      next(new ValidationError(errors));
+      return;
+    }
+
+    next();
+  }, { schema });
+};
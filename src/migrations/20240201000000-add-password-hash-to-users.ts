@@ -0,0 +1,15 @@
+import { QueryInterface, DataTypes } from 'sequelize';
+
+export default {
+  async up(queryInterface: QueryInterface): Promise<void> {
+    // Nullable so that existing users without credentials stay valid
+    await queryInterface.addColumn('users', 'password_hash', {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+    });
+  },
+
+  async down(queryInterface: QueryInterface): Promise<void> {
+    await queryInterface.removeColumn('users', 'password_hash');
+  },
+};
@@ -0,0 +1,62 @@
+import { QueryInterface, DataTypes } from 'sequelize';
+
+export default {
+  async up(queryInterface: QueryInterface): Promise<void> {
+    await queryInterface.createTable('refresh_tokens', {
+      id: {
+        type: DataTypes.INTEGER,
+        autoIncrement: true,
+        primaryKey: true,
+      },
+      user_id: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        references: {
+          model: 'users',
+          key: 'id',
+        },
+        onDelete: 'CASCADE',
+      },
+      token_hash: {
+        type: DataTypes.STRING(64),
+        allowNull: false,
+      },
+      expires_at: {
+        type: DataTypes.DATE,
+        allowNull: false,
+      },
+      revoked_at: {
+        type: DataTypes.DATE,
+        allowNull: true,
+      },
+      replaced_by_id: {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+      },
+      created_at: {
+        type: DataTypes.DATE,
+        allowNull: false,
+        defaultValue: DataTypes.NOW,
+      },
+      updated_at: {
+        type: DataTypes.DATE,
+        allowNull: false,
+        defaultValue: DataTypes.NOW,
+      },
+    });
+
+    // Refresh tokens are looked up by the hash of the presented token
+    await queryInterface.addIndex('refresh_tokens', ['token_hash'], {
+      unique: true,
+      name: 'refresh_tokens_token_hash_unique_idx',
+    });
+
+    await queryInterface.addIndex('refresh_tokens', ['user_id'], {
+      name: 'refresh_tokens_user_id_idx',
+    });
+  },
+
+  async down(queryInterface: QueryInterface): Promise<void> {
+    await queryInterface.dropTable('refresh_tokens');
+  },
+};
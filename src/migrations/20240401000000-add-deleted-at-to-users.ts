@@ -0,0 +1,36 @@
+import { QueryInterface, DataTypes } from 'sequelize';
+
+export default {
+  async up(queryInterface: QueryInterface): Promise<void> {
+    await queryInterface.addColumn('users', 'deleted_at', {
+      type: DataTypes.DATE,
+      allowNull: true,
+    });
+
+    // Email only has to be unique among users that are not soft-deleted,
+    // so a deleted user's address can be registered again
+    await queryInterface.removeConstraint('users', 'users_email_key');
+    await queryInterface.removeIndex('users', 'users_email_unique_idx');
+    await queryInterface.addIndex('users', ['email'], {
+      unique: true,
+      name: 'users_email_active_unique_idx',
+      where: { deleted_at: null },
+    });
+  },
+
+  async down(queryInterface: QueryInterface): Promise<void> {
+    // Without deleted_at soft-deleted users would come back to life, so they are purged
+    await queryInterface.removeIndex('users', 'users_email_active_unique_idx');
+    await queryInterface.sequelize.query('DELETE FROM users WHERE deleted_at IS NOT NULL');
+    await queryInterface.addIndex('users', ['email'], {
+      unique: true,
+      name: 'users_email_unique_idx',
+    });
+    await queryInterface.addConstraint('users', {
+      fields: ['email'],
+      type: 'unique',
+      name: 'users_email_key',
+    });
+    await queryInterface.removeColumn('users', 'deleted_at');
+  },
+};
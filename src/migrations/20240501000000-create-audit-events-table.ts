@@ -0,0 +1,73 @@
+import { QueryInterface, DataTypes } from 'sequelize';
+
+export default {
+  async up(queryInterface: QueryInterface): Promise<void> {
+    await queryInterface.createTable('audit_events', {
+      id: {
+        type: DataTypes.INTEGER,
+        autoIncrement: true,
+        primaryKey: true,
+      },
+      actor_id: {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+        references: {
+          model: 'users',
+          key: 'id',
+        },
+        // Keep the trail when the acting user is purged
+        onDelete: 'SET NULL',
+      },
+      action: {
+        type: DataTypes.STRING(64),
+        allowNull: false,
+      },
+      entity_type: {
+        type: DataTypes.STRING(64),
+        allowNull: false,
+      },
+      entity_id: {
+        type: DataTypes.STRING(64),
+        allowNull: false,
+      },
+      before: {
+        type: DataTypes.JSONB,
+        allowNull: true,
+      },
+      after: {
+        type: DataTypes.JSONB,
+        allowNull: true,
+      },
+      request_id: {
+        type: DataTypes.STRING(128),
+        allowNull: true,
+      },
+      ip: {
+        type: DataTypes.STRING(64),
+        allowNull: true,
+      },
+      created_at: {
+        type: DataTypes.DATE,
+        allowNull: false,
+        defaultValue: DataTypes.NOW,
+      },
+    });
+
+    // History of a single entity, newest first
+    await queryInterface.addIndex('audit_events', ['entity_type', 'entity_id', 'created_at'], {
+      name: 'audit_events_entity_idx',
+    });
+
+    await queryInterface.addIndex('audit_events', ['actor_id'], {
+      name: 'audit_events_actor_id_idx',
+    });
+
+    await queryInterface.addIndex('audit_events', ['created_at'], {
+      name: 'audit_events_created_at_idx',
+    });
+  },
+
+  async down(queryInterface: QueryInterface): Promise<void> {
+    await queryInterface.dropTable('audit_events');
+  },
+};
@@ -0,0 +1,16 @@
+import { QueryInterface, DataTypes } from 'sequelize';
+
+export default {
+  async up(queryInterface: QueryInterface): Promise<void> {
+    // Incremented on every update; exposed as the ETag of a user for If-Match
+    await queryInterface.addColumn('users', 'version', {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+    });
+  },
+
+  async down(queryInterface: QueryInterface): Promise<void> {
+    await queryInterface.removeColumn('users', 'version');
+  },
+};
@@ -0,0 +1,37 @@
+import { QueryInterface } from 'sequelize';
+
+export default {
+  async up(queryInterface: QueryInterface): Promise<void> {
+    // Trigram matching, for searches with typos
+    await queryInterface.sequelize.query('CREATE EXTENSION IF NOT EXISTS pg_trgm');
+
+    // The simple configuration lowercases words without stemming them, which
+    // suits names. Emails are split into words at their separators so that
+    // "example" finds john@example.com. Names rank above emails.
+    await queryInterface.sequelize.query(`
+      ALTER TABLE users ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+        setweight(to_tsvector('simple', name), 'A')
+        || setweight(to_tsvector('simple', translate(email, '@.+_-', '     ')), 'B')
+      ) STORED
+    `);
+
+    await queryInterface.addIndex('users', ['search_vector'], {
+      name: 'users_search_vector_idx',
+      using: 'GIN',
+    });
+    await queryInterface.sequelize.query(
+      'CREATE INDEX users_name_trgm_idx ON users USING GIN (name gin_trgm_ops)'
+    );
+    await queryInterface.sequelize.query(
+      'CREATE INDEX users_email_trgm_idx ON users USING GIN (email gin_trgm_ops)'
+    );
+  },
+
+  async down(queryInterface: QueryInterface): Promise<void> {
+    await queryInterface.removeIndex('users', 'users_email_trgm_idx');
+    await queryInterface.removeIndex('users', 'users_name_trgm_idx');
+    await queryInterface.removeIndex('users', 'users_search_vector_idx');
+    await queryInterface.removeColumn('users', 'search_vector');
+    // pg_trgm stays installed; other schemas of the database may use it
+  },
+};
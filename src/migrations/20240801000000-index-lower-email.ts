@@ -0,0 +1,23 @@
+import { QueryInterface } from 'sequelize';
+
+export default {
+  async up(queryInterface: QueryInterface): Promise<void> {
+    // Emails are looked up and compared case-insensitively, on lower(email);
+    // the unique index has to be on the same expression, both to be used by
+    // those lookups and to reject A@x.com next to a@x.com. Fails if such
+    // pairs already exist among active users.
+    await queryInterface.removeIndex('users', 'users_email_active_unique_idx');
+    await queryInterface.sequelize.query(
+      'CREATE UNIQUE INDEX users_email_active_unique_idx ON users (lower(email)) WHERE deleted_at IS NULL'
+    );
+  },
+
+  async down(queryInterface: QueryInterface): Promise<void> {
+    await queryInterface.removeIndex('users', 'users_email_active_unique_idx');
+    await queryInterface.addIndex('users', ['email'], {
+      unique: true,
+      name: 'users_email_active_unique_idx',
+      where: { deleted_at: null },
+    });
+  },
+};
@@ -0,0 +1,107 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import sequelize from '../config/database';
+
+// Define AuditEvent attributes
+export interface AuditEventAttributes {
+  id: number;
+  actorId: number | null;
+  action: string;
+  entityType: string;
+  entityId: string;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  requestId: string | null;
+  ip: string | null;
+  createdAt?: Date;
+}
+
+// Define creation attributes (id is auto-generated)
+export interface AuditEventCreationAttributes
+  extends Optional<AuditEventAttributes, 'id' | 'actorId' | 'before' | 'after' | 'requestId' | 'ip' | 'createdAt'> {}
+
+// Define AuditEvent model
+// Audit events are append-only, so there is no updatedAt
+class AuditEvent extends Model<AuditEventAttributes, AuditEventCreationAttributes> implements AuditEventAttributes {
+  public id!: number;
+  public actorId!: number | null;
+  public action!: string;
+  public entityType!: string;
+  public entityId!: string;
+  public before!: Record<string, unknown> | null;
+  public after!: Record<string, unknown> | null;
+  public requestId!: string | null;
+  public ip!: string | null;
+  public readonly createdAt!: Date;
+}
+
+// Initialize AuditEvent model
+AuditEvent.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    actorId: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      field: 'actor_id',
+    },
+    action: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+    },
+    entityType: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+      field: 'entity_type',
+    },
+    entityId: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+      field: 'entity_id',
+    },
+    before: {
+      type: DataTypes.JSONB,
+      allowNull: true,
+    },
+    after: {
+      type: DataTypes.JSONB,
+      allowNull: true,
+    },
+    requestId: {
+      type: DataTypes.STRING(128),
+      allowNull: true,
+      field: 'request_id',
+    },
+    ip: {
+      type: DataTypes.STRING(64),
+      allowNull: true,
+    },
+    createdAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      field: 'created_at',
+    },
+  },
+  {
+    sequelize,
+    tableName: 'audit_events',
+    timestamps: true,
+    updatedAt: false,
+    underscored: true,
+    indexes: [
+      {
+        fields: ['entity_type', 'entity_id', 'created_at'],
+      },
+      {
+        fields: ['actor_id'],
+      },
+      {
+        fields: ['created_at'],
+      },
+    ],
+  }
+);
+
+export default AuditEvent;
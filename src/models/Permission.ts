@@ -0,0 +1,62 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import sequelize from '../config/database';
+
+// Define Permission attributes
+export interface PermissionAttributes {
+  id: number;
+  name: string;
+  description?: string | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+// Define creation attributes (id is auto-generated)
+export interface PermissionCreationAttributes
+  extends Optional<PermissionAttributes, 'id' | 'description' | 'createdAt' | 'updatedAt'> {}
+
+// Define Permission model
+class Permission extends Model<PermissionAttributes, PermissionCreationAttributes> implements PermissionAttributes {
+  public id!: number;
+  public name!: string;
+  public description!: string | null;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+// Initialize Permission model
+Permission.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    name: {
+      type: DataTypes.STRING(128),
+      allowNull: false,
+      unique: true,
+    },
+    description: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+    },
+    createdAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      field: 'created_at',
+    },
+    updatedAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      field: 'updated_at',
+    },
+  },
+  {
+    sequelize,
+    tableName: 'permissions',
+    timestamps: true,
+    underscored: true,
+  }
+);
+
+export default Permission;
@@ -0,0 +1,101 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import sequelize from '../config/database';
+import User from './User';
+
+// Define RefreshToken attributes
+export interface RefreshTokenAttributes {
+  id: number;
+  userId: number;
+  tokenHash: string;
+  expiresAt: Date;
+  revokedAt?: Date | null;
+  replacedById?: number | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+// Define creation attributes (id is auto-generated)
+export interface RefreshTokenCreationAttributes
+  extends Optional<RefreshTokenAttributes, 'id' | 'revokedAt' | 'replacedById' | 'createdAt' | 'updatedAt'> {}
+
+// Define RefreshToken model
+class RefreshToken
+  extends Model<RefreshTokenAttributes, RefreshTokenCreationAttributes>
+  implements RefreshTokenAttributes {
+  public id!: number;
+  public userId!: number;
+  public tokenHash!: string;
+  public expiresAt!: Date;
+  public revokedAt!: Date | null;
+  public replacedById!: number | null;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+// Initialize RefreshToken model
+RefreshToken.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    userId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      field: 'user_id',
+    },
+    tokenHash: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+      unique: true,
+      field: 'token_hash',
+    },
+    expiresAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      field: 'expires_at',
+    },
+    revokedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: 'revoked_at',
+    },
+    replacedById: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      field: 'replaced_by_id',
+    },
+    createdAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      field: 'created_at',
+    },
+    updatedAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      field: 'updated_at',
+    },
+  },
+  {
+    sequelize,
+    tableName: 'refresh_tokens',
+    timestamps: true,
+    underscored: true,
+    indexes: [
+      {
+        unique: true,
+        fields: ['token_hash'],
+      },
+      {
+        fields: ['user_id'],
+      },
+    ],
+  }
+);
+
+// Associations
+User.hasMany(RefreshToken, { foreignKey: 'userId', onDelete: 'CASCADE' });
+RefreshToken.belongsTo(User, { foreignKey: 'userId' });
+
+export default RefreshToken;
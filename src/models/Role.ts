@@ -0,0 +1,72 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import sequelize from '../config/database';
+import User from './User';
+import Permission from './Permission';
+import UserRole from './UserRole';
+import RolePermission from './RolePermission';
+
+// Define Role attributes
+export interface RoleAttributes {
+  id: number;
+  name: string;
+  description?: string | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+// Define creation attributes (id is auto-generated)
+export interface RoleCreationAttributes
+  extends Optional<RoleAttributes, 'id' | 'description' | 'createdAt' | 'updatedAt'> {}
+
+// Define Role model
+class Role extends Model<RoleAttributes, RoleCreationAttributes> implements RoleAttributes {
+  public id!: number;
+  public name!: string;
+  public description!: string | null;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+// Initialize Role model
+Role.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      autoIncrement: true,
+      primaryKey: true,
+    },
+    name: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+      unique: true,
+    },
+    description: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+    },
+    createdAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      field: 'created_at',
+    },
+    updatedAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      field: 'updated_at',
+    },
+  },
+  {
+    sequelize,
+    tableName: 'roles',
+    timestamps: true,
+    underscored: true,
+  }
+);
+
+// Associations
+Role.belongsToMany(Permission, { through: RolePermission, foreignKey: 'roleId', otherKey: 'permissionId', as: 'permissions' });
+Permission.belongsToMany(Role, { through: RolePermission, foreignKey: 'permissionId', otherKey: 'roleId', as: 'roles' });
+User.belongsToMany(Role, { through: UserRole, foreignKey: 'userId', otherKey: 'roleId', as: 'roles' });
+Role.belongsToMany(User, { through: UserRole, foreignKey: 'roleId', otherKey: 'userId', as: 'users' });
+
+export default Role;
@@ -0,0 +1,40 @@
+import { DataTypes, Model } from 'sequelize';
+import sequelize from '../config/database';
+
+// Define RolePermission attributes
+export interface RolePermissionAttributes {
+  roleId: number;
+  permissionId: number;
+}
+
+// Join table between roles and permissions
+class RolePermission extends Model<RolePermissionAttributes> implements RolePermissionAttributes {
+  public roleId!: number;
+  public permissionId!: number;
+}
+
+// Initialize RolePermission model
+RolePermission.init(
+  {
+    roleId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      primaryKey: true,
+      field: 'role_id',
+    },
+    permissionId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      primaryKey: true,
+      field: 'permission_id',
+    },
+  },
+  {
+    sequelize,
+    tableName: 'role_permissions',
+    timestamps: false,
+    underscored: true,
+  }
+);
+
+export default RolePermission;
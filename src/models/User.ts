@@ -1,4 +1,4 @@
-import { DataTypes, Model, Optional } from 'sequelize';
+import { DataTypes, Model, Optional, col, fn } from 'sequelize';
 import sequelize from '../config/database';
 
 // Define User attributes
@@ -6,20 +6,26 @@ export interface UserAttributes {
   id: number;
   name: string;
   email: string;
+  passwordHash?: string | null;
+  version?: number;
   createdAt?: Date;
   updatedAt?: Date;
+  deletedAt?: Date | null;
 }
 
 // Define creation attributes (id is auto-generated)
-export interface UserCreationAttributes extends Optional<UserAttributes, 'id' | 'createdAt' | 'updatedAt'> {}
+export interface UserCreationAttributes extends Optional<UserAttributes, 'id' | 'passwordHash' | 'version' | 'createdAt' | 'updatedAt' | 'deletedAt'> {}
 
 // Define User model
 class User extends Model<UserAttributes, UserCreationAttributes> implements UserAttributes {
   public id!: number;
   public name!: string;
   public email!: string;
+  public passwordHash!: string | null;
+  public readonly version!: number;
   public readonly createdAt!: Date;
   public readonly updatedAt!: Date;
+  public deletedAt!: Date | null;
 }
 
 // Initialize User model
@@ -41,12 +47,21 @@ User.init(
     email: {
       type: DataTypes.STRING(255),
       allowNull: false,
-      unique: true,
       validate: {
         notEmpty: true,
         isEmail: true,
       },
     },
+    passwordHash: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+      field: 'password_hash',
+    },
+    version: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+    },
     createdAt: {
       type: DataTypes.DATE,
       allowNull: false,
@@ -57,16 +72,38 @@ User.init(
       allowNull: false,
       field: 'updated_at',
     },
+    deletedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+      field: 'deleted_at',
+    },
   },
   {
     sequelize,
     tableName: 'users',
     timestamps: true,
     underscored: true,
+    // Deletes set deleted_at instead of removing the row
+    paranoid: true,
+    // Updates increment version and fail with OptimisticLockError when the
+    // row changed since it was loaded
+    version: true,
+    // Never load password hashes unless explicitly asked for
+    defaultScope: {
+      attributes: { exclude: ['passwordHash'] },
+    },
+    scopes: {
+      withPassword: {
+        attributes: { include: ['passwordHash'] },
+      },
+    },
     indexes: [
       {
+        // Unique, whatever the case, among users that are not soft-deleted
+        name: 'users_email_active_unique_idx',
         unique: true,
-        fields: ['email'],
+        fields: [fn('lower', col('email'))],
+        where: { deleted_at: null },
       },
       {
         fields: ['name'],
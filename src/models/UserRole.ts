@@ -0,0 +1,40 @@
+import { DataTypes, Model } from 'sequelize';
+import sequelize from '../config/database';
+
+// Define UserRole attributes
+export interface UserRoleAttributes {
+  userId: number;
+  roleId: number;
+}
+
+// Join table between users and roles
+class UserRole extends Model<UserRoleAttributes> implements UserRoleAttributes {
+  public userId!: number;
+  public roleId!: number;
+}
+
+// Initialize UserRole model
+UserRole.init(
+  {
+    userId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      primaryKey: true,
+      field: 'user_id',
+    },
+    roleId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      primaryKey: true,
+      field: 'role_id',
+    },
+  },
+  {
+    sequelize,
+    tableName: 'user_roles',
+    timestamps: false,
+    underscored: true,
+  }
+);
+
+export default UserRole;
@@ -0,0 +1,242 @@
+import { User, UserHighlights, UserSuggestion } from '../types/User';
+import { AuditEvent } from '../types/Audit';
+import { AuthResult, AuthTokens } from '../types/Auth';
+import { PageMeta } from '../types/Pagination';
+import { HelloMessage } from '../services/HelloService';
+import { ApiResponse, PageLinks } from '../utils/httpResponse';
+import { FieldError } from '../utils/validation';
+import { CacheStats } from '../cache/ICache';
+import { CheckResult, HealthReport } from '../types/Health';
+import { LogLevelReport, ModuleLogLevel } from '../types/Logging';
+import { LOG_LEVELS } from '../config/schema';
+import { setLogLevelSchema } from '../schemas/logLevelSchemas';
+import { createUserSchema, replaceUserSchema } from '../schemas/userSchemas';
+import { JsonSchema, objectOf, objectSchemaToJson, ref } from './jsonSchema';
+
+const dateTime: JsonSchema = { type: 'string', format: 'date-time' };
+const nullable = (schema: JsonSchema): JsonSchema => ({ ...schema, type: [schema.type, 'null'] });
+
+/**
+ * Schemas listed under `components.schemas`
+ * Object schemas are typed against the interfaces they describe.
+ * Request DTOs are derived from the validation schemas of their routes.
+ */
+export const componentSchemas: Record<string, JsonSchema> = {
+  User: objectOf<User>({
+    id: { type: 'integer' },
+    name: { type: 'string' },
+    email: { type: 'string', format: 'email' },
+    version: { type: 'integer', description: 'Incremented on every update; also sent as the ETag' },
+    createdAt: dateTime,
+    updatedAt: dateTime,
+    deletedAt: nullable(dateTime),
+  }, ['id', 'name', 'email', 'version']),
+
+  CreateUserDto: objectSchemaToJson(createUserSchema.body ?? {}),
+  ReplaceUserDto: objectSchemaToJson(replaceUserSchema.body ?? {}),
+
+  UserMergePatch: {
+    type: 'object',
+    description: 'JSON Merge Patch (RFC 7396) of the fields of ReplaceUserDto',
+    properties: {
+      name: { type: 'string', minLength: 1, maxLength: 255 },
+      email: { type: 'string', format: 'email', maxLength: 255 },
+    },
+  },
+
+  JsonPatch: {
+    type: 'array',
+    description: 'JSON Patch (RFC 6902) operations, applied in order',
+    items: {
+      type: 'object',
+      properties: {
+        op: { type: 'string', enum: ['add', 'remove', 'replace', 'move', 'copy', 'test'] },
+        path: { type: 'string', description: 'JSON Pointer' },
+        from: { type: 'string', description: 'JSON Pointer; for move and copy' },
+        value: { description: 'For add, replace and test' },
+      },
+      required: ['op', 'path'],
+    },
+  },
+
+  UserHighlights: {
+    ...objectOf<UserHighlights>({
+      name: { type: 'string' },
+      email: { type: 'string' },
+    }),
+    description: 'Fields with the matched words wrapped in `<mark>` and the rest HTML-escaped; '
+      + 'fields without a match are left out',
+  },
+
+  UserSearchHit: {
+    allOf: [
+      ref('User'),
+      {
+        type: 'object',
+        description: 'User listed by GET /users; `highlights` is only set when searching',
+        properties: { highlights: ref('UserHighlights') },
+      },
+    ],
+  },
+
+  UserSuggestion: objectOf<UserSuggestion>({
+    id: { type: 'integer' },
+    name: { type: 'string' },
+    email: { type: 'string', format: 'email' },
+    highlights: ref('UserHighlights'),
+  }, ['id', 'name', 'email', 'highlights']),
+
+  CurrentUser: {
+    allOf: [
+      ref('User'),
+      {
+        type: 'object',
+        properties: {
+          roles: { type: 'array', items: { type: 'string' } },
+          permissions: { type: 'array', items: { type: 'string' } },
+        },
+        required: ['roles', 'permissions'],
+      },
+    ],
+  },
+
+  HelloMessage: objectOf<HelloMessage>({
+    message: { type: 'string' },
+    timestamp: dateTime,
+    language: { type: 'string' },
+  }, ['message', 'timestamp']),
+
+  AuditEvent: objectOf<AuditEvent>({
+    id: { type: 'integer' },
+    actorId: nullable({ type: 'integer' }),
+    action: { type: 'string' },
+    entityType: { type: 'string' },
+    entityId: { type: 'string' },
+    before: nullable({ type: 'object' }),
+    after: nullable({ type: 'object' }),
+    requestId: nullable({ type: 'string' }),
+    ip: nullable({ type: 'string' }),
+    createdAt: dateTime,
+  }, ['id', 'action', 'entityType', 'entityId', 'createdAt']),
+
+  AuthTokens: objectOf<AuthTokens>({
+    accessToken: { type: 'string' },
+    refreshToken: { type: 'string' },
+    tokenType: { type: 'string', const: 'Bearer' },
+    expiresIn: { type: 'integer', description: 'Access token lifetime in seconds' },
+  }, ['accessToken', 'refreshToken', 'tokenType', 'expiresIn']),
+
+  AuthResult: objectOf<AuthResult>({
+    user: ref('User'),
+    tokens: ref('AuthTokens'),
+  }, ['user', 'tokens']),
+
+  PageMeta: objectOf<PageMeta>({
+    total: { type: 'integer' },
+    limit: { type: 'integer' },
+    page: { type: 'integer' },
+    totalPages: { type: 'integer' },
+    hasMore: { type: 'boolean' },
+    nextCursor: { type: 'string', description: 'Pass as `after` to fetch the next page' },
+  }, ['total', 'limit', 'hasMore']),
+
+  PageLinks: objectOf<PageLinks>({
+    self: { type: 'string' },
+    first: { type: 'string' },
+    prev: { type: 'string' },
+    next: { type: 'string' },
+    last: { type: 'string' },
+  }, ['self']),
+
+  CacheStats: objectOf<CacheStats>({
+    backend: { type: 'string', enum: ['memory', 'redis'] },
+    hits: { type: 'integer' },
+    misses: { type: 'integer' },
+    hitRate: { type: 'number', minimum: 0, maximum: 1 },
+    sets: { type: 'integer' },
+    deletes: { type: 'integer' },
+    evictions: { type: 'integer' },
+    size: { type: 'integer' },
+    errors: { type: 'integer', description: 'Backend failures treated as misses' },
+  }, ['backend', 'hits', 'misses', 'hitRate', 'sets', 'deletes']),
+
+  CheckResult: objectOf<CheckResult>({
+    status: { type: 'string', enum: ['pass', 'warn', 'fail'] },
+    latencyMs: { type: 'integer' },
+    details: { type: 'object' },
+    error: { type: 'string' },
+  }, ['status']),
+
+  HealthReport: objectOf<HealthReport>({
+    status: { type: 'string', enum: ['pass', 'warn', 'fail'] },
+    shuttingDown: { type: 'boolean' },
+    checks: { type: 'object', additionalProperties: ref('CheckResult') },
+    timestamp: dateTime,
+  }, ['status', 'shuttingDown', 'checks', 'timestamp']),
+
+  ModuleLogLevel: objectOf<ModuleLogLevel>({
+    module: { type: 'string' },
+    level: { type: 'string', enum: [...LOG_LEVELS] },
+    expiresAt: nullable(dateTime),
+  }, ['module', 'level', 'expiresAt']),
+
+  LogLevelReport: objectOf<LogLevelReport>({
+    level: { type: 'string', enum: [...LOG_LEVELS], description: 'Level of modules without one of their own' },
+    defaultLevel: { type: 'string', enum: [...LOG_LEVELS] },
+    expiresAt: nullable(dateTime),
+    modules: { type: 'array', items: ref('ModuleLogLevel') },
+  }, ['level', 'defaultLevel', 'expiresAt', 'modules']),
+
+  SetLogLevelDto: objectSchemaToJson(setLogLevelSchema.body ?? {}),
+
+  FieldError: objectOf<FieldError>({
+    field: { type: 'string' },
+    location: { type: 'string', enum: ['body', 'params', 'query'] },
+    rule: { type: 'string' },
+    message: { type: 'string' },
+  }, ['field', 'rule', 'message']),
+
+  ApiResponse: objectOf<ApiResponse>({
+    success: { type: 'boolean' },
+    message: { type: 'string' },
+    data: {},
+    error: { type: 'string' },
+    code: { type: 'string', description: 'Machine-readable error code' },
+    requestId: { type: 'string' },
+    errors: { type: 'array', items: ref('FieldError') },
+    timestamp: dateTime,
+    path: { type: 'string' },
+    meta: ref('PageMeta'),
+    links: ref('PageLinks'),
+  }, ['success', 'timestamp']),
+};
+
+/**
+ * Success envelope carrying the given data
+ * @param data - Schema of the `data` field; omit for responses with `data: null`
+ */
+export function dataResponse(data?: JsonSchema): JsonSchema {
+  return {
+    allOf: [
+      ref('ApiResponse'),
+      { type: 'object', properties: { data: data ?? { type: 'null' } } },
+    ],
+  };
+}
+
+/**
+ * Paginated envelope carrying a page of the given component
+ * @param item - Component name of the items
+ */
+export function pageResponse(item: string): JsonSchema {
+  return {
+    allOf: [
+      ref('ApiResponse'),
+      {
+        type: 'object',
+        properties: { data: { type: 'array', items: ref(item) } },
+        required: ['data', 'meta', 'links'],
+      },
+    ],
+  };
+}
@@ -0,0 +1,153 @@
+import { RegisteredRoute } from '../routes/registry';
+import { ObjectSchema } from '../utils/validation';
+import { componentSchemas } from './components';
+import { JsonSchema, fieldToJsonSchema, objectSchemaToJson, ref } from './jsonSchema';
+
+export interface OpenApiInfo {
+  title: string;
+  version: string;
+  description?: string;
+}
+
+const errorResponse = (description: string): JsonSchema => ({
+  description,
+  content: { 'application/json': { schema: ref('ApiResponse') } },
+});
+
+const cacheControlHeader = (value: string): JsonSchema => ({
+  description: `\`${value}\``,
+  schema: { type: 'string' },
+});
+
+/**
+ * Convert an Express path such as `/users/:id` to the OpenAPI form `/users/{id}`
+ */
+function toOpenApiPath(path: string): string {
+  return path.replace(/:(\w+)/g, '{$1}');
+}
+
+function parameters(location: 'path' | 'query', fields: ObjectSchema = {}): JsonSchema[] {
+  return Object.entries(fields).map(([name, field]) => ({
+    name,
+    in: location,
+    required: location === 'path' || Boolean(field.required),
+    schema: fieldToJsonSchema(field),
+  }));
+}
+
+function describePermissions(route: RegisteredRoute): string | undefined {
+  if (!route.permission) {
+    return route.description;
+  }
+
+  const rule = route.ownPermission
+    ? `Requires \`${route.permission}\`, or \`${route.ownPermission}\` for the caller's own resource.`
+    : `Requires \`${route.permission}\`.`;
+  return route.description ? `${route.description}\n\n${rule}` : rule;
+}
+
+/**
+ * Request body in every media type the route consumes
+ * Described by the named component(s), or else by the body validation schema
+ */
+function buildRequestBody(route: RegisteredRoute): JsonSchema | undefined {
+  const mediaTypes = route.consumes ?? ['application/json'];
+  const { requestBody } = route;
+  let content: Record<string, JsonSchema>;
+
+  if (typeof requestBody === 'object') {
+    content = Object.fromEntries(
+      Object.entries(requestBody).map(([mediaType, component]) => [mediaType, { schema: ref(component) }])
+    );
+  } else {
+    const body = requestBody ? ref(requestBody) : route.schema?.body && objectSchemaToJson(route.schema.body);
+    if (!body) {
+      return undefined;
+    }
+    content = Object.fromEntries(mediaTypes.map(mediaType => [mediaType, { schema: body }]));
+  }
+
+  return { required: true, content };
+}
+
+function buildOperation(route: RegisteredRoute): JsonSchema {
+  const { schema } = route;
+  const description = describePermissions(route);
+  const responses: Record<string, JsonSchema> = {};
+
+  for (const [status, response] of Object.entries(route.responses)) {
+    const headers = {
+      ...response.headers,
+      ...(route.cacheControl && status === '200' && { 'Cache-Control': cacheControlHeader(route.cacheControl) }),
+    };
+    responses[status] = {
+      description: response.description,
+      ...(Object.keys(headers).length > 0 && { headers }),
+      ...(response.schema && { content: { 'application/json': { schema: response.schema } } }),
+    };
+  }
+  if (route.cacheControl) {
+    responses['304'] ??= { description: 'Not modified since the ETag in If-None-Match or the date in If-Modified-Since' };
+  }
+  if (schema) {
+    responses['422'] ??= errorResponse('Validation failed');
+  }
+  if (route.authenticated) {
+    responses['401'] ??= errorResponse('Missing, invalid or expired access token');
+  }
+  if (route.permission) {
+    responses['403'] ??= errorResponse('Caller lacks the required permission');
+  }
+  if (route.consumes) {
+    responses['415'] ??= errorResponse(`Content-Type is not one of: ${route.consumes.join(', ')}`);
+  }
+  if (route.rateLimit) {
+    responses['429'] ??= {
+      ...errorResponse(`More than ${route.rateLimit} from the caller`),
+      headers: { 'Retry-After': { description: 'Seconds until the caller may retry', schema: { type: 'integer' } } },
+    };
+  }
+
+  const requestBody = buildRequestBody(route);
+
+  return {
+    operationId: route.operationId,
+    summary: route.summary,
+    ...(description && { description }),
+    tags: route.tags,
+    parameters: [
+      ...parameters('path', schema?.params),
+      ...parameters('query', schema?.query),
+      ...(route.parameters ?? []),
+    ],
+    ...(requestBody && { requestBody }),
+    ...(route.authenticated && { security: [{ bearerAuth: [] }] }),
+    responses,
+  };
+}
+
+/**
+ * Build the OpenAPI 3.1 document describing the given routes
+ * @param routes - Routes recorded by the route registry
+ * @param info - Title and version of the API
+ */
+export function buildOpenApiDocument(routes: RegisteredRoute[], info: OpenApiInfo): JsonSchema {
+  const paths: Record<string, Record<string, JsonSchema>> = {};
+
+  for (const route of routes) {
+    const path = toOpenApiPath(route.path);
+    paths[path] = { ...paths[path], [route.method]: buildOperation(route) };
+  }
+
+  return {
+    openapi: '3.1.0',
+    info,
+    paths,
+    components: {
+      schemas: componentSchemas,
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' },
+      },
+    },
+  };
+}
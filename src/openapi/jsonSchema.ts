@@ -0,0 +1,59 @@
+import { FieldSchema, ObjectSchema } from '../utils/validation';
+
+/**
+ * JSON Schema (draft 2020-12, as used by OpenAPI 3.1)
+ */
+export type JsonSchema = { [keyword: string]: unknown };
+
+/**
+ * Object properties for every field of T, so that a component schema
+ * stops compiling when the type it documents gains or loses a field
+ */
+export type Properties<T> = { [K in keyof Required<T>]: JsonSchema };
+
+/**
+ * Describe an object type
+ * @param properties - Schema of every field
+ * @param required - Fields that are always present
+ */
+export function objectOf<T>(properties: Properties<T>, required: ReadonlyArray<keyof T & string> = []): JsonSchema {
+  return { type: 'object', properties, ...(required.length > 0 && { required: [...required] }) };
+}
+
+/**
+ * Reference a component schema
+ */
+export function ref(name: string): JsonSchema {
+  return { $ref: `#/components/schemas/${name}` };
+}
+
+/**
+ * Translate a validation rule set into the equivalent JSON Schema
+ * @param field - Rules checked by the validate middleware
+ */
+export function fieldToJsonSchema(field: FieldSchema): JsonSchema {
+  return {
+    ...(field.type === 'date' ? { type: 'string', format: 'date-time' } : { type: field.type ?? 'string' }),
+    ...(field.min !== undefined && { minimum: field.min }),
+    ...(field.max !== undefined && { maximum: field.max }),
+    ...(field.minLength !== undefined && { minLength: field.minLength }),
+    ...(field.maxLength !== undefined && { maxLength: field.maxLength }),
+    ...(field.email && { format: 'email' }),
+    ...(field.pattern && { pattern: field.pattern.source }),
+    ...(field.enum && { enum: [...field.enum] }),
+    ...(field.custom && { description: field.custom.map(rule => rule.message).join('. ') }),
+  };
+}
+
+/**
+ * Translate the validation schema of a request body into a JSON Schema object
+ * @param fields - Rules of every body field
+ */
+export function objectSchemaToJson(fields: ObjectSchema): JsonSchema {
+  const required = Object.keys(fields).filter(name => fields[name]?.required);
+  return {
+    type: 'object',
+    properties: Object.fromEntries(Object.entries(fields).map(([name, field]) => [name, fieldToJsonSchema(field)])),
+    ...(required.length > 0 && { required }),
+  };
+}
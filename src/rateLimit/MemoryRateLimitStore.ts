@@ -0,0 +1,59 @@
+import { RateLimitStore, WindowCounts } from './RateLimitStore';
+
+interface Counter extends WindowCounts {
+  window: number;
+  expiresAt: number;
+}
+
+const SWEEP_INTERVAL_MS = 60_000;
+
+/**
+ * Rate limit counters kept in this process
+ * Each instance of the app counts on its own, so the effective limit grows
+ * with the number of instances. Counters that can no longer affect a
+ * decision are swept at most once a minute.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private counters = new Map<string, Counter>();
+  private nextSweep = 0;
+
+  public async increment(key: string, window: number, windowMs: number): Promise<WindowCounts> {
+    this.sweep();
+
+    const counter = this.counters.get(key);
+    const next: Counter = {
+      window,
+      current: 1,
+      previous: 0,
+      // Once the window after next starts, neither count is read again
+      expiresAt: (window + 2) * windowMs,
+    };
+    if (counter?.window === window) {
+      next.current += counter.current;
+      next.previous = counter.previous;
+    } else if (counter?.window === window - 1) {
+      next.previous = counter.current;
+    }
+
+    this.counters.set(key, next);
+    return { current: next.current, previous: next.previous };
+  }
+
+  public async close(): Promise<void> {
+    this.counters.clear();
+  }
+
+  private sweep(): void {
+    const now = Date.now();
+    if (now < this.nextSweep) {
+      return;
+    }
+
+    for (const [key, counter] of this.counters) {
+      if (counter.expiresAt <= now) {
+        this.counters.delete(key);
+      }
+    }
+    this.nextSweep = now + SWEEP_INTERVAL_MS;
+  }
+}
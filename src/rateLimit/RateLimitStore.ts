@@ -0,0 +1,28 @@
+/**
+ * Requests counted for a key in the current window and the one before it
+ */
+export interface WindowCounts {
+  current: number;
+  previous: number;
+}
+
+/**
+ * Where rate limit counters are kept
+ * Windows are numbered by dividing the time by their length, so every
+ * instance sharing a store agrees on which window a request falls in.
+ */
+export interface RateLimitStore {
+  /**
+   * Count a request against a key
+   * @param key - Route group and caller
+   * @param window - Number of the current window
+   * @param windowMs - Length of a window
+   * @returns Counts including this request
+   */
+  increment(key: string, window: number, windowMs: number): Promise<WindowCounts>;
+
+  /**
+   * Release the connection to the backend, if any
+   */
+  close(): Promise<void>;
+}
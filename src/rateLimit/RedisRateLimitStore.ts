@@ -0,0 +1,40 @@
+import { RateLimitStore, WindowCounts } from './RateLimitStore';
+
+/**
+ * Commands RedisRateLimitStore needs, as offered by ioredis and any client
+ * or stand-in with the same signatures
+ */
+export interface RedisCounterClient {
+  get(key: string): Promise<string | null>;
+  incr(key: string): Promise<number>;
+  pexpire(key: string, milliseconds: number): Promise<number>;
+  quit(): Promise<unknown>;
+}
+
+/**
+ * Rate limit counters shared by every instance of the app through Redis
+ * Each window of a key is its own counter, removed by Redis once the
+ * window after next has started.
+ */
+export class RedisRateLimitStore implements RateLimitStore {
+  /**
+   * @param client - Connected Redis client
+   * @param keyPrefix - Namespace for the keys of this app
+   */
+  constructor(private readonly client: RedisCounterClient, private readonly keyPrefix: string) {}
+
+  public async increment(key: string, window: number, windowMs: number): Promise<WindowCounts> {
+    const currentKey = `${this.keyPrefix}${key}:${window}`;
+    const [current, previous] = await Promise.all([
+      this.client.incr(currentKey),
+      this.client.get(`${this.keyPrefix}${key}:${window - 1}`),
+    ]);
+    await this.client.pexpire(currentKey, windowMs * 2);
+
+    return { current, previous: Number(previous ?? 0) };
+  }
+
+  public async close(): Promise<void> {
+    await this.client.quit();
+  }
+}
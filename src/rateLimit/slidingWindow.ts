@@ -0,0 +1,68 @@
+import { WindowCounts } from './RateLimitStore';
+
+/**
+ * How many requests a caller may send to a route group
+ */
+export interface RateLimitPolicy {
+  /**
+   * Requests allowed per window
+   */
+  limit: number;
+  /**
+   * Length of the window in seconds
+   */
+  windowSeconds: number;
+  /**
+   * Who the limit applies to: the client address or the authenticated user.
+   * `user` falls back to the client address for anonymous requests.
+   */
+  keyBy: 'ip' | 'user';
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  remaining: number;
+  /**
+   * Seconds until the caller may send another request, or until the
+   * current window ends while requests remain
+   */
+  resetSeconds: number;
+}
+
+/**
+ * Sliding window counter
+ * Estimates the requests of the last `windowSeconds` by adding the current
+ * window's count to the previous window's count, weighted by how much of
+ * the previous window still overlaps. This smooths out the burst a fixed
+ * window allows at its boundary with two counters per caller.
+ * @param policy - Limit being enforced
+ * @param counts - Counts including the request being decided
+ * @param now - Time of the request in milliseconds
+ */
+export function decide(policy: RateLimitPolicy, counts: WindowCounts, now: number): RateLimitDecision {
+  const windowMs = policy.windowSeconds * 1000;
+  const elapsed = now % windowMs;
+  const overlap = (windowMs - elapsed) / windowMs;
+  const used = Math.floor(counts.previous * overlap) + counts.current;
+
+  if (used <= policy.limit) {
+    return { allowed: true, remaining: policy.limit - used, resetSeconds: Math.ceil((windowMs - elapsed) / 1000) };
+  }
+
+  return { allowed: false, remaining: 0, resetSeconds: Math.max(1, Math.ceil(waitMs(policy, counts, elapsed) / 1000)) };
+}
+
+/**
+ * Time until the estimate leaves room for one more request
+ * While the current window alone is under the limit, that happens as the
+ * previous window slides out; otherwise the current window has to become
+ * the previous one and slide out far enough.
+ */
+function waitMs({ limit, windowSeconds }: RateLimitPolicy, { current, previous }: WindowCounts, elapsed: number): number {
+  const windowMs = windowSeconds * 1000;
+
+  if (current < limit) {
+    return windowMs * (1 - (limit - current) / previous) - elapsed;
+  }
+  return windowMs - elapsed + windowMs * (1 - limit / current);
+}
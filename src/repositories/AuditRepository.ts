@@ -0,0 +1,51 @@
+import { Op, WhereOptions } from 'sequelize';
+import { AuditEvent, AuditFilters } from '../types/Audit';
+import { SortField } from '../types/Pagination';
+import { SequelizeRepository } from './SequelizeRepository';
+import AuditEventModel from '../models/AuditEvent';
+
+/**
+ * AuditRepository
+ * Storage for audit events. Events are append-only: services only ever
+ * create and read them.
+ */
+export class AuditRepository extends SequelizeRepository<AuditEventModel, AuditEvent, AuditFilters> {
+  // Newest events first; id breaks ties between events written in the same millisecond
+  protected override defaultSort: SortField<AuditEvent>[] = [
+    { field: 'createdAt', direction: 'DESC' },
+    { field: 'id', direction: 'DESC' },
+  ];
+
+  constructor() {
+    super(AuditEventModel);
+  }
+
+  /**
+   * Translate audit filters into a Sequelize where clause
+   * @param filters - Audit list filters
+   */
+  protected override buildFilterWhere(filters: AuditFilters = {}): WhereOptions {
+    const conditions: WhereOptions[] = [];
+
+    if (filters.actorId !== undefined) {
+      conditions.push({ actorId: filters.actorId });
+    }
+    if (filters.action) {
+      conditions.push({ action: filters.action });
+    }
+    if (filters.entityType) {
+      conditions.push({ entityType: filters.entityType });
+    }
+    if (filters.entityId) {
+      conditions.push({ entityId: filters.entityId });
+    }
+    if (filters.from) {
+      conditions.push({ createdAt: { [Op.gte]: filters.from } });
+    }
+    if (filters.to) {
+      conditions.push({ createdAt: { [Op.lt]: filters.to } });
+    }
+
+    return { [Op.and]: conditions };
+  }
+}
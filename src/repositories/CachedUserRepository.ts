@@ -0,0 +1,161 @@
+import { User, CreateUserDto } from '../types/User';
+import { UserCredentials } from '../types/Auth';
+import { Page, PageOptions, UserFilters } from '../types/Pagination';
+import { RepositoryOptions } from './IRepository';
+import { IUserRepository } from './IUserRepository';
+import { ICache } from '../cache/ICache';
+import { randomUUID } from 'crypto';
+import { afterCommit, currentTransaction } from '../utils/transaction';
+
+const idKey = (id: number | string): string => `user:${id}`;
+const emailKey = (email: string): string => `user:email:${email.toLowerCase()}`;
+const generationKey = (id: number | string): string => `user:generation:${id}`;
+
+/**
+ * CachedUserRepository
+ * Read-through cache in front of another IUserRepository for the hot
+ * single-user lookups. Only active users found outside a transaction are
+ * cached: reads inside a unit of work go to the store, so checks such as
+ * email uniqueness and If-Match always see committed rows. Email lookups
+ * cache the user ID and verify the email on every hit, so only ID entries
+ * have to be invalidated when a user changes.
+ * A fill races with writes: the user read before a write commits can reach
+ * the cache after the write dropped the entry. Every invalidation therefore
+ * also replaces the user's generation, and a fill that saw the generation
+ * change while it ran drops what it stored.
+ */
+export class CachedUserRepository implements IUserRepository {
+  /**
+   * @param store - Repository holding the users
+   * @param cache - Cache backend
+   * @param ttlSeconds - Lifetime of cached users
+   */
+  constructor(
+    private readonly store: IUserRepository,
+    private readonly cache: ICache,
+    private readonly ttlSeconds: number
+  ) {}
+
+  public async findById(
+    id: number | string,
+    options: RepositoryOptions & { includeDeleted?: boolean } = {}
+  ): Promise<User | undefined> {
+    if (options.includeDeleted || this.inTransaction(options)) {
+      return await this.store.findById(id, options);
+    }
+
+    const cached = await this.cache.get<User>(idKey(id));
+    if (cached) {
+      return cached;
+    }
+
+    const generation = await this.cache.get<string>(generationKey(id));
+    const user = await this.store.findById(id);
+    if (user) {
+      await this.cache.set(idKey(user.id), user, this.ttlSeconds);
+      if (await this.cache.get<string>(generationKey(id)) !== generation) {
+        await this.cache.delete(idKey(user.id));
+      }
+    }
+    return user;
+  }
+
+  public async findByEmail(email: string, options: RepositoryOptions = {}): Promise<User | undefined> {
+    if (this.inTransaction(options)) {
+      return await this.store.findByEmail(email, options);
+    }
+
+    const id = await this.cache.get<number>(emailKey(email));
+    if (id !== undefined) {
+      const user = await this.findById(id);
+      if (user && user.email.toLowerCase() === email.toLowerCase()) {
+        return user;
+      }
+      // The user changed their email or was deleted since
+      await this.cache.delete(emailKey(email));
+    }
+
+    // Only the ID is cached: this read began before the generation of the
+    // user could be known, so the user itself is left to findById
+    const user = await this.store.findByEmail(email);
+    if (user) {
+      await this.cache.set(emailKey(email), user.id, this.ttlSeconds);
+    }
+    return user;
+  }
+
+  public async update(id: number | string, data: Partial<User>, options: RepositoryOptions = {}): Promise<User | undefined> {
+    const user = await this.store.update(id, data, options);
+    await this.invalidate(id);
+    return user;
+  }
+
+  public async delete(id: number | string, options: RepositoryOptions = {}): Promise<boolean> {
+    const deleted = await this.store.delete(id, options);
+    await this.invalidate(id);
+    return deleted;
+  }
+
+  public async restore(id: number | string, options: RepositoryOptions = {}): Promise<User | undefined> {
+    const user = await this.store.restore(id, options);
+    await this.invalidate(id);
+    return user;
+  }
+
+  public async purge(id: number | string, options: RepositoryOptions = {}): Promise<boolean> {
+    const purged = await this.store.purge(id, options);
+    await this.invalidate(id);
+    return purged;
+  }
+
+  public async create(data: Partial<User>, options: RepositoryOptions = {}): Promise<User> {
+    return await this.store.create(data, options);
+  }
+
+  public async createWithPassword(data: CreateUserDto, passwordHash: string, options: RepositoryOptions = {}): Promise<User> {
+    return await this.store.createWithPassword(data, passwordHash, options);
+  }
+
+  public async findAll(): Promise<User[]> {
+    return await this.store.findAll();
+  }
+
+  public async findPage(options: PageOptions<User, UserFilters>): Promise<Page<User>> {
+    return await this.store.findPage(options);
+  }
+
+  public async findCredentialsByEmail(email: string): Promise<UserCredentials | undefined> {
+    return await this.store.findCredentialsByEmail(email);
+  }
+
+  public async search(query: string): Promise<User[]> {
+    return await this.store.search(query);
+  }
+
+  public async suggest(prefix: string, limit: number): Promise<User[]> {
+    return await this.store.suggest(prefix, limit);
+  }
+
+  public async exists(id: number | string): Promise<boolean> {
+    return (await this.findById(id)) !== undefined;
+  }
+
+  public async count(): Promise<number> {
+    return await this.store.count();
+  }
+
+  private inTransaction(options: RepositoryOptions): boolean {
+    return options.transaction !== undefined || currentTransaction() !== undefined;
+  }
+
+  /**
+   * Drop the cached user once the write is committed, after moving on to a
+   * new generation so that fills already running drop theirs too
+   */
+  private async invalidate(id: number | string): Promise<void> {
+    await afterCommit(async () => {
+      await this.cache.set(generationKey(id), randomUUID(), this.ttlSeconds);
+      await this.cache.delete(idKey(id));
+    });
+  }
+}
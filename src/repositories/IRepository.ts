@@ -1,14 +1,34 @@
+import { Transaction } from 'sequelize';
+import { Page, PageOptions } from '../types/Pagination';
+
+/**
+ * Per-call options accepted by repository write methods
+ */
+export interface RepositoryOptions {
+  /**
+   * Defaults to the ambient transaction started by withTransaction
+   */
+  transaction?: Transaction;
+}
+
 /**
  * Base Repository Interface
  * Defines the standard CRUD operations for all repositories
  * All methods return Promises for async database operations
+ * F describes the entity-specific filters accepted by findPage
  */
-export interface IRepository<T> {
+export interface IRepository<T, F = Record<string, unknown>> {
   /**
    * Find all entities
    */
   findAll(): Promise<T[]>;
 
+  /**
+   * Find a single page of entities
+   * @param options - Limit, offset page or cursor, sort order and filters
+   */
+  findPage(options: PageOptions<T, F>): Promise<Page<T>>;
+
   /**
    * Find entity by ID
    * @param id - Entity identifier
@@ -33,4 +53,15 @@ export interface IRepository<T> {
    * @param id - Entity identifier
    */
   delete(id: number | string): Promise<boolean>;
+
+  /**
+   * Check if an entity exists
+   * @param id - Entity identifier
+   */
+  exists(id: number | string): Promise<boolean>;
+
+  /**
+   * Count all entities
+   */
+  count(): Promise<number>;
 }
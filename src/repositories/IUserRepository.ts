@@ -0,0 +1,91 @@
+import { User, CreateUserDto } from '../types/User';
+import { UserCredentials } from '../types/Auth';
+import { UserFilters } from '../types/Pagination';
+import { IRepository, RepositoryOptions } from './IRepository';
+
+/**
+ * User Repository Interface
+ * What the services need from user storage on top of the generic CRUD,
+ * so that the Sequelize implementation can be swapped for another backend
+ */
+export interface IUserRepository extends IRepository<User, UserFilters> {
+  /**
+   * Find a user by their ID
+   * @param id - User ID
+   * @param options - Transaction; set includeDeleted to also find soft-deleted users
+   */
+  findById(id: number | string, options?: RepositoryOptions & { includeDeleted?: boolean }): Promise<User | undefined>;
+
+  /**
+   * Create a new user
+   * @param data - User data
+   * @param options - Optional transaction
+   */
+  create(data: Partial<User>, options?: RepositoryOptions): Promise<User>;
+
+  /**
+   * Update an existing user
+   * @param id - User ID
+   * @param data - Updated user data
+   * @param options - Optional transaction
+   */
+  update(id: number | string, data: Partial<User>, options?: RepositoryOptions): Promise<User | undefined>;
+
+  /**
+   * Soft-delete a user
+   * @param id - User ID
+   * @param options - Optional transaction
+   */
+  delete(id: number | string, options?: RepositoryOptions): Promise<boolean>;
+
+  /**
+   * Find an active user by their email address, ignoring case
+   * @param email - User email
+   * @param options - Optional transaction
+   */
+  findByEmail(email: string, options?: RepositoryOptions): Promise<User | undefined>;
+
+  /**
+   * Find a user together with their password hash
+   * @param email - User email
+   */
+  findCredentialsByEmail(email: string): Promise<UserCredentials | undefined>;
+
+  /**
+   * Search users by name or email, most relevant first
+   * Every word matches as a prefix of a word, and longer queries also match
+   * despite typos.
+   * @param query - Search query
+   */
+  search(query: string): Promise<User[]>;
+
+  /**
+   * Find users with a word in their name or email starting with every word
+   * of the prefix, for autocomplete; name matches first
+   * @param prefix - Text typed so far
+   * @param limit - Most users returned
+   */
+  suggest(prefix: string, limit: number): Promise<User[]>;
+
+  /**
+   * Create a new user with login credentials
+   * @param data - User data
+   * @param passwordHash - Hash produced by hashPassword
+   * @param options - Optional transaction
+   */
+  createWithPassword(data: CreateUserDto, passwordHash: string, options?: RepositoryOptions): Promise<User>;
+
+  /**
+   * Restore a soft-deleted user
+   * @param id - User ID
+   * @param options - Optional transaction
+   */
+  restore(id: number | string, options?: RepositoryOptions): Promise<User | undefined>;
+
+  /**
+   * Permanently delete a user, whether soft-deleted or not
+   * @param id - User ID
+   * @param options - Optional transaction
+   */
+  purge(id: number | string, options?: RepositoryOptions): Promise<boolean>;
+}
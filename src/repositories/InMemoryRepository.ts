@@ -0,0 +1,214 @@
+import { IRepository } from './IRepository';
+import { Page, PageOptions, SortField } from '../types/Pagination';
+import { ValidationError } from '../errors/AppError';
+import { RELEVANCE_CURSOR_ERROR, decodeCursor, encodeCursor, withTieBreaker } from '../utils/pagination';
+
+/**
+ * Base repository keeping entities in a Map
+ * Implements IRepository with the same paging and cursor semantics as
+ * SequelizeRepository, for tests and for running without a database.
+ * Subclasses build new entities and override matches to support
+ * findPage filters, and relevance for filters that rank rows.
+ */
+export abstract class InMemoryRepository<T extends { id: number }, F = Record<string, unknown>>
+  implements IRepository<T, F> {
+  /**
+   * Sort order used by findPage when the caller does not give one
+   */
+  protected defaultSort: SortField<T>[] = [];
+
+  protected rows = new Map<number, T>();
+  private nextId = 1;
+
+  /**
+   * Find all entities
+   */
+  public async findAll(): Promise<T[]> {
+    return [...this.rows.values()].filter(row => this.isActive(row)).map(row => this.copy(row));
+  }
+
+  /**
+   * Find a single page of entities
+   * Uses keyset pagination when a cursor is given, offset pagination otherwise.
+   * Without a sort, filters that rank rows order them most relevant first;
+   * those pages have no cursor.
+   * @param options - Limit, page or cursor, sort order and filters
+   */
+  public async findPage(options: PageOptions<T, F>): Promise<Page<T>> {
+    const { limit } = options;
+    const relevance = options.sort ? undefined : this.relevance(options.filters);
+    const sort = withTieBreaker(relevance ? [] : options.sort ?? this.defaultSort, 'id');
+    const matching = [...this.rows.values()]
+      .filter(row => this.matches(row, options.filters))
+      .sort((a, b) => (relevance ? relevance(b) - relevance(a) : 0)
+        || compareBy(sort, sortValues(sort, a), sortValues(sort, b)));
+
+    let rows: T[];
+    let page: number | undefined;
+
+    if (options.after) {
+      if (relevance) {
+        throw new ValidationError([RELEVANCE_CURSOR_ERROR]);
+      }
+
+      const values = decodeCursor(options.after);
+      if (!values || values.length !== sort.length) {
+        throw new ValidationError([{
+          field: 'after',
+          location: 'query',
+          rule: 'cursor',
+          message: 'after does not match the requested sort order',
+        }]);
+      }
+      rows = matching.filter(row => compareBy(sort, sortValues(sort, row), values) > 0);
+    } else {
+      page = options.page ?? 1;
+      rows = matching.slice((page - 1) * limit);
+    }
+
+    const hasMore = rows.length > limit;
+    const items = rows.slice(0, limit).map(row => this.copy(row));
+    const last = items[items.length - 1];
+
+    return {
+      items,
+      meta: {
+        total: matching.length,
+        limit,
+        hasMore,
+        ...(page !== undefined && { page, totalPages: Math.ceil(matching.length / limit) }),
+        ...(hasMore && last && !relevance && { nextCursor: encodeCursor(sortValues(sort, last)) }),
+      },
+    };
+  }
+
+  /**
+   * Find entity by ID
+   * @param id - Entity identifier
+   */
+  public async findById(id: number | string): Promise<T | undefined> {
+    const row = this.rows.get(Number(id));
+    return row && this.isActive(row) ? this.copy(row) : undefined;
+  }
+
+  /**
+   * Create a new entity
+   * @param data - Entity data
+   */
+  public async create(data: Partial<T>): Promise<T> {
+    const row = this.build(this.nextId++, definedValues(data));
+    this.rows.set(row.id, row);
+    return this.copy(row);
+  }
+
+  /**
+   * Update an existing entity
+   * Undefined fields are left unchanged
+   * @param id - Entity identifier
+   * @param data - Updated entity data
+   */
+  public async update(id: number | string, data: Partial<T>): Promise<T | undefined> {
+    const row = this.rows.get(Number(id));
+    if (!row || !this.isActive(row)) {
+      return undefined;
+    }
+
+    const updated = this.applyUpdate(row, definedValues(data));
+    this.rows.set(updated.id, updated);
+    return this.copy(updated);
+  }
+
+  /**
+   * Delete an entity
+   * @param id - Entity identifier
+   */
+  public async delete(id: number | string): Promise<boolean> {
+    const row = this.rows.get(Number(id));
+    return row !== undefined && this.isActive(row) && this.rows.delete(row.id);
+  }
+
+  /**
+   * Check if an entity exists
+   * @param id - Entity identifier
+   */
+  public async exists(id: number | string): Promise<boolean> {
+    return (await this.findById(id)) !== undefined;
+  }
+
+  /**
+   * Count entities
+   */
+  public async count(): Promise<number> {
+    return (await this.findAll()).length;
+  }
+
+  /**
+   * Build a new entity from the data given to create
+   */
+  protected abstract build(id: number, data: Partial<T>): T;
+
+  /**
+   * Merge the data given to update into an entity
+   */
+  protected applyUpdate(row: T, data: Partial<T>): T {
+    return { ...row, ...data, id: row.id };
+  }
+
+  /**
+   * Whether an entity is visible to reads; false for soft-deleted entities
+   */
+  protected isActive(_row: T): boolean {
+    return true;
+  }
+
+  /**
+   * Whether an entity matches the findPage filters
+   * Repositories that accept filters override this
+   */
+  protected matches(row: T, _filters?: F): boolean {
+    return this.isActive(row);
+  }
+
+  /**
+   * Relevance of a row to the filters, higher first
+   * Repositories whose filters rank rows, such as a search, override this;
+   * undefined means the filters do not rank.
+   */
+  protected relevance(_filters?: F): ((row: T) => number) | undefined {
+    return undefined;
+  }
+
+  /**
+   * Hand out copies so callers cannot mutate stored entities
+   */
+  protected copy(row: T): T {
+    return { ...row };
+  }
+}
+
+function definedValues<T>(data: Partial<T>): Partial<T> {
+  return Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined)) as Partial<T>;
+}
+
+function sortValues<T>(sort: SortField<T>[], row: T): unknown[] {
+  return sort.map(s => {
+    const value = row[s.field];
+    return value instanceof Date ? value.toISOString() : value;
+  });
+}
+
+/**
+ * Compare two rows by their sort key values
+ * Dates are compared as ISO strings, which is also how cursors carry them
+ */
+function compareBy<T>(sort: SortField<T>[], a: unknown[], b: unknown[]): number {
+  for (const [i, s] of sort.entries()) {
+    const x = a[i] as string | number;
+    const y = b[i] as string | number;
+    if (x !== y) {
+      const order = x < y ? -1 : 1;
+      return s.direction === 'ASC' ? order : -order;
+    }
+  }
+  return 0;
+}
@@ -0,0 +1,229 @@
+import { User, CreateUserDto } from '../types/User';
+import { UserCredentials } from '../types/Auth';
+import { UserFilters } from '../types/Pagination';
+import { IUserRepository } from './IUserRepository';
+import { ConflictError } from '../errors/AppError';
+import { InMemoryRepository } from './InMemoryRepository';
+import {
+  WORD_SIMILARITY_THRESHOLD,
+  fuzzyQuery,
+  matchesPrefixes,
+  searchTerms,
+  wordSimilarity,
+} from '../utils/search';
+
+/**
+ * InMemoryUserRepository
+ * IUserRepository kept in memory, with the same soft-delete and
+ * case-insensitive email semantics as UserRepository. Search matches the
+ * same users; its ranking only approximates the full-text rank.
+ */
+export class InMemoryUserRepository extends InMemoryRepository<User, UserFilters> implements IUserRepository {
+  private passwordHashes = new Map<number, string>();
+
+  /**
+   * Find a user by their ID
+   * @param id - User ID
+   * @param options - Set includeDeleted to also find soft-deleted users
+   */
+  public override async findById(id: number | string, options: { includeDeleted?: boolean } = {}): Promise<User | undefined> {
+    const user = this.rows.get(Number(id));
+    return user && (options.includeDeleted || this.isActive(user)) ? this.copy(user) : undefined;
+  }
+
+  public override async create(data: Partial<User>): Promise<User> {
+    this.assertEmailFree(data.email);
+    return await super.create(data);
+  }
+
+  public override async update(id: number | string, data: Partial<User>): Promise<User | undefined> {
+    this.assertEmailFree(data.email, Number(id));
+    return await super.update(id, data);
+  }
+
+  /**
+   * Soft-delete a user
+   * @param id - User ID
+   */
+  public override async delete(id: number | string): Promise<boolean> {
+    return (await this.update(id, { deletedAt: new Date() })) !== undefined;
+  }
+
+  /**
+   * Find an active user by their email address, ignoring case
+   * @param email - User email
+   */
+  public async findByEmail(email: string): Promise<User | undefined> {
+    const user = [...this.rows.values()].find(
+      row => this.isActive(row) && row.email.toLowerCase() === email.toLowerCase()
+    );
+    return user ? this.copy(user) : undefined;
+  }
+
+  /**
+   * Find a user together with their password hash
+   * @param email - User email
+   */
+  public async findCredentialsByEmail(email: string): Promise<UserCredentials | undefined> {
+    const user = await this.findByEmail(email);
+    return user ? { user, passwordHash: this.passwordHashes.get(user.id) ?? null } : undefined;
+  }
+
+  /**
+   * Search users by name or email, most relevant first
+   * @param query - Search query
+   */
+  public async search(query: string): Promise<User[]> {
+    const relevance = this.relevance({ search: query });
+    return [...this.rows.values()]
+      .filter(row => this.matches(row, { search: query }))
+      .sort((a, b) => (relevance ? relevance(b) - relevance(a) : 0) || a.id - b.id)
+      .map(row => this.copy(row));
+  }
+
+  /**
+   * Find users with a word in their name or email starting with every word
+   * of the prefix; name matches first
+   * @param prefix - Text typed so far
+   * @param limit - Most users returned
+   */
+  public async suggest(prefix: string, limit: number): Promise<User[]> {
+    const terms = searchTerms(prefix);
+    const inName = (user: User): number => (matchesPrefixes(terms, user.name) ? 0 : 1);
+
+    return [...this.rows.values()]
+      .filter(row => this.isActive(row) && matchesPrefixes(terms, `${row.name} ${row.email}`))
+      .sort((a, b) => inName(a) - inName(b) || a.name.localeCompare(b.name) || a.id - b.id)
+      .slice(0, limit)
+      .map(row => this.copy(row));
+  }
+
+  /**
+   * Create a new user with login credentials
+   * @param data - User data
+   * @param passwordHash - Hash produced by hashPassword
+   */
+  public async createWithPassword(data: CreateUserDto, passwordHash: string): Promise<User> {
+    const user = await this.create(data);
+    this.passwordHashes.set(user.id, passwordHash);
+    return user;
+  }
+
+  /**
+   * Restore a soft-deleted user
+   * @param id - User ID
+   */
+  public async restore(id: number | string): Promise<User | undefined> {
+    const user = this.rows.get(Number(id));
+    if (!user) {
+      return undefined;
+    }
+    this.assertEmailFree(user.email, user.id);
+
+    const restored = { ...user, deletedAt: null, version: user.version + 1, updatedAt: new Date() };
+    this.rows.set(restored.id, restored);
+    return this.copy(restored);
+  }
+
+  /**
+   * Permanently delete a user, whether soft-deleted or not
+   * @param id - User ID
+   */
+  public async purge(id: number | string): Promise<boolean> {
+    this.passwordHashes.delete(Number(id));
+    return this.rows.delete(Number(id));
+  }
+
+  protected override build(id: number, data: Partial<User>): User {
+    const now = new Date();
+    return {
+      id,
+      name: data.name ?? '',
+      email: data.email ?? '',
+      version: 0,
+      createdAt: data.createdAt ?? now,
+      updatedAt: data.updatedAt ?? now,
+      deletedAt: null,
+    };
+  }
+
+  /**
+   * Like the version option of the User model, an update that changes
+   * nothing leaves version and updatedAt alone
+   */
+  protected override applyUpdate(user: User, data: Partial<User>): User {
+    const changed = (Object.keys(data) as (keyof User)[]).some(field => data[field] !== user[field]);
+    return changed
+      ? { ...user, ...data, id: user.id, version: user.version + 1, updatedAt: new Date() }
+      : user;
+  }
+
+  protected override isActive(user: User): boolean {
+    return !user.deletedAt;
+  }
+
+  /**
+   * Apply the list filters UserRepository translates into SQL
+   * @param user - Candidate user
+   * @param filters - User list filters
+   */
+  protected override matches(user: User, filters: UserFilters = {}): boolean {
+    if (!filters.includeDeleted && !this.isActive(user)) {
+      return false;
+    }
+    if (filters.search && !this.matchesSearch(user, filters.search)) {
+      return false;
+    }
+    if (filters.emailDomain && !user.email.toLowerCase().endsWith(`@${filters.emailDomain.toLowerCase()}`)) {
+      return false;
+    }
+    if (filters.createdAfter && !(user.createdAt && user.createdAt > filters.createdAfter)) {
+      return false;
+    }
+    if (filters.createdBefore && !(user.createdAt && user.createdAt < filters.createdBefore)) {
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Prefix matches in name and email, with name matches first, then by how
+   * closely the query resembles the name or email
+   */
+  protected override relevance(filters: UserFilters = {}): ((user: User) => number) | undefined {
+    const terms = filters.search ? searchTerms(filters.search) : [];
+    if (terms.length === 0) {
+      return undefined;
+    }
+
+    const query = terms.join(' ');
+    return user => (matchesPrefixes(terms, user.name) ? 1 : 0)
+      + (matchesPrefixes(terms, `${user.name} ${user.email}`) ? 1 : 0)
+      + Math.max(wordSimilarity(query, user.name), wordSimilarity(query, user.email));
+  }
+
+  /**
+   * The unique index of UserRepository: one active user per email, whatever the case
+   */
+  private assertEmailFree(email: string | undefined, exceptId?: number): void {
+    const taken = email !== undefined && [...this.rows.values()].some(row =>
+      row.id !== exceptId && this.isActive(row) && row.email.toLowerCase() === email.toLowerCase()
+    );
+    if (taken) {
+      throw new ConflictError('User with this email already exists', 'USER_EMAIL_TAKEN');
+    }
+  }
+
+  private matchesSearch(user: User, search: string): boolean {
+    const terms = searchTerms(search);
+    if (terms.length === 0) {
+      const substring = search.toLowerCase();
+      return user.name.toLowerCase().includes(substring) || user.email.toLowerCase().includes(substring);
+    }
+
+    const fuzzy = fuzzyQuery(terms);
+    return matchesPrefixes(terms, `${user.name} ${user.email}`)
+      || (fuzzy !== undefined && Math.max(wordSimilarity(fuzzy, user.name), wordSimilarity(fuzzy, user.email))
+        >= WORD_SIMILARITY_THRESHOLD);
+  }
+}
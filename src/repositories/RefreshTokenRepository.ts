@@ -0,0 +1,57 @@
+import { Op } from 'sequelize';
+import { RefreshTokenRecord } from '../types/Auth';
+import RefreshTokenModel from '../models/RefreshToken';
+import { joinTransaction } from '../utils/transaction';
+
+/**
+ * RefreshTokenRepository
+ * Handles persistence of hashed refresh tokens
+ * Queries join the ambient unit of work started by withTransaction
+ */
+export class RefreshTokenRepository {
+  /**
+   * Store a new refresh token
+   * @param userId - Owner of the token
+   * @param tokenHash - SHA-256 hash of the token handed to the client
+   * @param expiresAt - Expiry time
+   */
+  public async create(userId: number, tokenHash: string, expiresAt: Date): Promise<RefreshTokenRecord> {
+    const token = await RefreshTokenModel.create({ userId, tokenHash, expiresAt }, joinTransaction({}));
+    return token.toJSON() as RefreshTokenRecord;
+  }
+
+  /**
+   * Find a refresh token by its hash
+   * @param tokenHash - SHA-256 hash of the presented token
+   */
+  public async findByHash(tokenHash: string): Promise<RefreshTokenRecord | undefined> {
+    const token = await RefreshTokenModel.findOne({ ...joinTransaction({}), where: { tokenHash } });
+    return token ? (token.toJSON() as RefreshTokenRecord) : undefined;
+  }
+
+  /**
+   * Revoke a refresh token if it is still active
+   * Returns false when the token had already been revoked
+   * @param id - Token ID
+   * @param replacedById - ID of the token issued in its place, when rotating
+   */
+  public async revoke(id: number, replacedById?: number): Promise<boolean> {
+    const [count] = await RefreshTokenModel.update(
+      { revokedAt: new Date(), replacedById: replacedById ?? null },
+      { ...joinTransaction({}), where: { id, revokedAt: { [Op.is]: null } } }
+    );
+    return count > 0;
+  }
+
+  /**
+   * Revoke every active refresh token of a user
+   * @param userId - User ID
+   */
+  public async revokeAllForUser(userId: number): Promise<number> {
+    const [count] = await RefreshTokenModel.update(
+      { revokedAt: new Date() },
+      { ...joinTransaction({}), where: { userId, revokedAt: { [Op.is]: null } } }
+    );
+    return count;
+  }
+}
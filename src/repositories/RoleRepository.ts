@@ -0,0 +1,80 @@
+import { Role } from '../types/Permission';
+import { RepositoryOptions } from './IRepository';
+import RoleModel from '../models/Role';
+import PermissionModel from '../models/Permission';
+import UserModel from '../models/User';
+import UserRoleModel from '../models/UserRole';
+import { joinTransaction } from '../utils/transaction';
+
+/**
+ * RoleRepository
+ * Handles data access for roles, permissions and role assignments
+ * Queries join the ambient unit of work started by withTransaction
+ */
+export class RoleRepository {
+  /**
+   * Find a role by its name
+   * @param name - Role name
+   * @param options - Optional transaction
+   */
+  public async findByName(name: string, options: RepositoryOptions = {}): Promise<Role | undefined> {
+    const role = await RoleModel.findOne({ ...joinTransaction(options), where: { name } });
+    return role ? (role.toJSON() as Role) : undefined;
+  }
+
+  /**
+   * Get the roles assigned to a user
+   * @param userId - User ID
+   */
+  public async findRolesForUser(userId: number): Promise<Role[]> {
+    const roles = await RoleModel.findAll({
+      ...joinTransaction({}),
+      include: [{
+        model: UserModel,
+        as: 'users',
+        where: { id: userId },
+        attributes: [],
+        through: { attributes: [] },
+      }],
+    });
+    return roles.map(role => role.toJSON() as Role);
+  }
+
+  /**
+   * Get the names of all permissions granted to a user through their roles
+   * @param userId - User ID
+   */
+  public async findPermissionNamesForUser(userId: number): Promise<string[]> {
+    const permissions = await PermissionModel.findAll({
+      ...joinTransaction({}),
+      attributes: ['name'],
+      include: [{
+        model: RoleModel,
+        as: 'roles',
+        attributes: [],
+        through: { attributes: [] },
+        required: true,
+        include: [{
+          model: UserModel,
+          as: 'users',
+          where: { id: userId },
+          attributes: [],
+          through: { attributes: [] },
+          required: true,
+        }],
+      }],
+    });
+    return [...new Set(permissions.map(permission => permission.name))];
+  }
+
+  /**
+   * Assign a role to a user
+   * Assigning a role the user already has is a no-op
+   * @param userId - User ID
+   * @param roleId - Role ID
+   * @param options - Optional transaction
+   */
+  public async assignRole(userId: number, roleId: number, options: RepositoryOptions = {}): Promise<void> {
+    await UserRoleModel.findOrCreate({ ...joinTransaction(options), where: { userId, roleId } });
+  }
+}
@@ -0,0 +1,243 @@
+import { Includeable, Model, ModelStatic, Op, Order, OrderItem, Utils, WhereOptions } from 'sequelize';
+import { IRepository, RepositoryOptions } from './IRepository';
+import { Page, PageOptions, SortField } from '../types/Pagination';
+import { ValidationError } from '../errors/AppError';
+import { RELEVANCE_CURSOR_ERROR, buildKeysetWhere, decodeCursor, encodeCursor, withTieBreaker } from '../utils/pagination';
+import { joinTransaction } from '../utils/transaction';
+
+/**
+ * Per-call query options accepted by SequelizeRepository read methods
+ */
+export interface RepositoryQueryOptions extends RepositoryOptions {
+  where?: WhereOptions;
+  order?: Order;
+  include?: Includeable[];
+  limit?: number;
+  /**
+   * Set to false to also return soft-deleted rows of paranoid models
+   */
+  paranoid?: boolean;
+}
+
+/**
+ * Base repository for Sequelize models
+ * Implements IRepository on top of a model and maps instances to plain DTOs.
+ * Subclasses only add entity-specific queries, override toDto when the DTO
+ * is not the plain JSON of the model, and override buildFilterWhere to
+ * support findPage filters, and relevance for filters that rank rows, such
+ * as a search. Every query joins the ambient unit of work
+ * started by withTransaction unless a transaction is passed explicitly.
+ */
+export abstract class SequelizeRepository<TModel extends Model, TDto extends object, F = Record<string, unknown>>
+  implements IRepository<TDto, F> {
+  /**
+   * Sort order used by findPage when the caller does not give one
+   */
+  protected defaultSort: SortField<TDto>[] = [];
+
+  constructor(protected readonly model: ModelStatic<TModel>) {}
+
+  /**
+   * Find all entities
+   * @param options - Where, order, include and transaction
+   */
+  public async findAll(options: RepositoryQueryOptions = {}): Promise<TDto[]> {
+    const rows = await this.model.findAll(joinTransaction(options));
+    return rows.map(row => this.toDto(row));
+  }
+
+  /**
+   * Find a single page of entities
+   * Uses keyset pagination when a cursor is given, offset pagination otherwise.
+   * Without a sort, filters that rank rows order them most relevant first;
+   * those pages have no cursor.
+   * @param options - Limit, page or cursor, sort order and filters
+   * @param queryOptions - Extra where, include, paranoid and transaction
+   */
+  public async findPage(options: PageOptions<TDto, F>, queryOptions: RepositoryQueryOptions = {}): Promise<Page<TDto>> {
+    const { limit } = options;
+    const relevance = options.sort ? undefined : this.relevance(options.filters);
+    const sort = withTieBreaker(relevance ? [] : options.sort ?? this.defaultSort, this.primaryKey());
+    const order: OrderItem[] = [
+      ...(relevance ? [[relevance, 'DESC'] as OrderItem] : []),
+      ...sort.map(s => [s.field, s.direction] as [string, string]),
+    ];
+    const { where: extraWhere, ...rest } = joinTransaction(queryOptions);
+    const where: WhereOptions = {
+      [Op.and]: [this.buildFilterWhere(options.filters), ...(extraWhere ? [extraWhere] : [])],
+    };
+
+    const total = await this.model.count({ ...rest, where, distinct: true });
+
+    let rows: TModel[];
+    let page: number | undefined;
+
+    if (options.after) {
+      if (relevance) {
+        throw new ValidationError([RELEVANCE_CURSOR_ERROR]);
+      }
+
+      const values = decodeCursor(options.after);
+      if (!values || values.length !== sort.length) {
+        throw new ValidationError([{
+          field: 'after',
+          location: 'query',
+          rule: 'cursor',
+          message: 'after does not match the requested sort order',
+        }]);
+      }
+
+      rows = await this.model.findAll({
+        ...rest,
+        where: { [Op.and]: [where, buildKeysetWhere(sort, values)] },
+        order,
+        limit: limit + 1,
+      });
+    } else {
+      page = options.page ?? 1;
+      rows = await this.model.findAll({
+        ...rest,
+        where,
+        order,
+        limit: limit + 1,
+        offset: (page - 1) * limit,
+      });
+    }
+
+    const hasMore = rows.length > limit;
+    const items = rows.slice(0, limit).map(row => this.toDto(row));
+    const last = items[items.length - 1];
+
+    return {
+      items,
+      meta: {
+        total,
+        limit,
+        hasMore,
+        ...(page !== undefined && { page, totalPages: Math.ceil(total / limit) }),
+        ...(hasMore && last && !relevance && { nextCursor: encodeCursor(sort.map(s => last[s.field])) }),
+      },
+    };
+  }
+
+  /**
+   * Find entity by ID
+   * @param id - Entity identifier
+   * @param options - Include, paranoid and transaction
+   */
+  public async findById(id: number | string, options: RepositoryQueryOptions = {}): Promise<TDto | undefined> {
+    const row = await this.model.findByPk(this.parseId(id), joinTransaction(options));
+    return row ? this.toDto(row) : undefined;
+  }
+
+  /**
+   * Create a new entity
+   * @param data - Entity data
+   * @param options - Optional transaction
+   */
+  public async create(data: Partial<TDto>, options: RepositoryOptions = {}): Promise<TDto> {
+    const row = await this.model.create(
+      this.definedValues(data) as TModel['_creationAttributes'],
+      joinTransaction(options)
+    );
+    return this.toDto(row);
+  }
+
+  /**
+   * Update an existing entity
+   * Undefined fields are left unchanged
+   * @param id - Entity identifier
+   * @param data - Updated entity data
+   * @param options - Optional transaction
+   */
+  public async update(id: number | string, data: Partial<TDto>, options: RepositoryOptions = {}): Promise<TDto | undefined> {
+    const queryOptions = joinTransaction(options);
+    const row = await this.model.findByPk(this.parseId(id), queryOptions);
+
+    if (!row) {
+      return undefined;
+    }
+
+    await row.update(this.definedValues(data), queryOptions);
+    return this.toDto(row);
+  }
+
+  /**
+   * Delete an entity
+   * Paranoid models are soft-deleted
+   * @param id - Entity identifier
+   * @param options - Optional transaction
+   */
+  public async delete(id: number | string, options: RepositoryOptions = {}): Promise<boolean> {
+    const deletedCount = await this.model.destroy({
+      ...joinTransaction(options),
+      where: this.primaryKeyWhere(id),
+    });
+
+    return deletedCount > 0;
+  }
+
+  /**
+   * Check if an entity exists
+   * @param id - Entity identifier
+   * @param options - Paranoid and transaction
+   */
+  public async exists(id: number | string, options: RepositoryQueryOptions = {}): Promise<boolean> {
+    const count = await this.model.count({
+      ...joinTransaction(options),
+      where: this.primaryKeyWhere(id),
+    });
+    return count > 0;
+  }
+
+  /**
+   * Count entities
+   * @param options - Where, paranoid and transaction
+   */
+  public async count(options: RepositoryQueryOptions = {}): Promise<number> {
+    return await this.model.count(joinTransaction(options));
+  }
+
+  /**
+   * Map a model instance to the DTO returned to services
+   */
+  protected toDto(row: TModel): TDto {
+    return row.toJSON() as TDto;
+  }
+
+  /**
+   * Translate findPage filters into a where clause
+   * Repositories that accept filters override this
+   */
+  protected buildFilterWhere(_filters?: F): WhereOptions {
+    return {};
+  }
+
+  /**
+   * Relevance of each row to the filters, higher first
+   * Repositories whose filters rank rows, such as a search, override this;
+   * undefined means the filters do not rank.
+   */
+  protected relevance(_filters?: F): Utils.Literal | undefined {
+    return undefined;
+  }
+
+  /**
+   * Convert string IDs from the URL to the numeric keys used by the models
+   */
+  protected parseId(id: number | string): number | string {
+    return typeof id === 'string' && /^\d+$/.test(id) ? parseInt(id) : id;
+  }
+
+  private primaryKey(): keyof TDto & string {
+    return this.model.primaryKeyAttribute as keyof TDto & string;
+  }
+
+  private primaryKeyWhere(id: number | string): WhereOptions {
+    return { [this.model.primaryKeyAttribute]: this.parseId(id) };
+  }
+
+  private definedValues(data: Partial<TDto>): Record<string, unknown> {
+    return Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined));
+  }
+}
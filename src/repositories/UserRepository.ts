@@ -1,141 +1,277 @@
-import { Op } from 'sequelize';
-import { User } from '../types/User';
-import { IRepository } from './IRepository';
+import { Op, UniqueConstraintError, Utils, WhereOptions, col, fn, literal, where } from 'sequelize';
+import { User, CreateUserDto } from '../types/User';
+import { UserCredentials } from '../types/Auth';
+import { Page, PageOptions, UserFilters } from '../types/Pagination';
+import { RepositoryOptions } from './IRepository';
+import { IUserRepository } from './IUserRepository';
+import { RepositoryQueryOptions, SequelizeRepository } from './SequelizeRepository';
 import UserModel from '../models/User';
+import { escapeLike } from '../utils/pagination';
+import { fuzzyQuery, prefixTsQuery, searchTerms } from '../utils/search';
+import { joinTransaction } from '../utils/transaction';
+import { ConflictError } from '../errors/AppError';
+
+const EMAIL_INDEX = 'users_email_active_unique_idx';
 
 /**
  * UserRepository
  * Handles all data access operations for User entities using Sequelize
+ * Generic CRUD comes from SequelizeRepository; only user-specific queries live here
  */
-export class UserRepository implements IRepository<User> {
+export class UserRepository extends SequelizeRepository<UserModel, User, UserFilters> implements IUserRepository {
+  constructor() {
+    super(UserModel);
+  }
+
   /**
-   * Get all users from the database
+   * Find a page of users
+   * Soft-deleted users are only included when the includeDeleted filter is set
+   * @param options - Limit, page or cursor, sort order and filters
    */
-  public async findAll(): Promise<User[]> {
-    const users = await UserModel.findAll();
-    return users.map(user => user.toJSON() as User);
+  public override async findPage(options: PageOptions<User, UserFilters>): Promise<Page<User>> {
+    return await super.findPage(options, { paranoid: !options.filters?.includeDeleted });
   }
 
   /**
    * Find a user by their ID
    * @param id - User ID
+   * @param options - Transaction; set includeDeleted to also find soft-deleted users
    */
-  public async findById(id: number | string): Promise<User | undefined> {
-    const userId = typeof id === 'string' ? parseInt(id) : id;
-    const user = await UserModel.findByPk(userId);
-    return user ? (user.toJSON() as User) : undefined;
+  public override async findById(
+    id: number | string,
+    options: RepositoryQueryOptions & { includeDeleted?: boolean } = {}
+  ): Promise<User | undefined> {
+    const { includeDeleted, ...queryOptions } = options;
+    return await super.findById(id, { ...queryOptions, paranoid: !includeDeleted });
+  }
+
+  public override async create(data: Partial<User>, options: RepositoryOptions = {}): Promise<User> {
+    return await this.uniqueEmail(() => super.create(data, options));
+  }
+
+  public override async update(
+    id: number | string,
+    data: Partial<User>,
+    options: RepositoryOptions = {}
+  ): Promise<User | undefined> {
+    return await this.uniqueEmail(() => super.update(id, data, options));
   }
 
   /**
    * Find a user by their email address
    * @param email - User email
+   * @param options - Optional transaction
    */
-  public async findByEmail(email: string): Promise<User | undefined> {
+  public async findByEmail(email: string, options: RepositoryOptions = {}): Promise<User | undefined> {
     const user = await UserModel.findOne({
-      where: {
-        email: {
-          [Op.iLike]: email, // Case-insensitive search
-        },
-      },
+      ...joinTransaction(options),
+      where: this.emailWhere(email),
     });
-    return user ? (user.toJSON() as User) : undefined;
+    return user ? this.toDto(user) : undefined;
+  }
+
+  /**
+   * Find a user together with their password hash
+   * Only for authentication; the hash is excluded from every other query
+   * @param email - User email
+   */
+  public async findCredentialsByEmail(email: string): Promise<UserCredentials | undefined> {
+    const user = await UserModel.scope('withPassword').findOne({
+      ...joinTransaction({}),
+      where: this.emailWhere(email),
+    });
+
+    if (!user) {
+      return undefined;
+    }
+
+    return { user: this.toDto(user), passwordHash: user.passwordHash ?? null };
   }
 
   /**
-   * Search users by name or email
+   * Search users by name or email, most relevant first
    * @param query - Search query
    */
   public async search(query: string): Promise<User[]> {
-    const users = await UserModel.findAll({
-      where: {
-        [Op.or]: [
-          {
-            name: {
-              [Op.iLike]: `%${query}%`,
-            },
-          },
-          {
-            email: {
-              [Op.iLike]: `%${query}%`,
-            },
-          },
-        ],
-      },
+    const relevance = this.relevance({ search: query });
+    return await this.findAll({
+      where: this.buildFilterWhere({ search: query }),
+      order: [...(relevance ? [[relevance, 'DESC'] as [Utils.Literal, string]] : []), ['id', 'ASC']],
     });
-    return users.map(user => user.toJSON() as User);
   }
 
   /**
-   * Create a new user
-   * @param data - User data
+   * Find users with a word in their name or email starting with every word
+   * of the prefix, for autocomplete; name matches first
+   * @param prefix - Text typed so far
+   * @param limit - Most users returned
    */
-  public async create(data: Partial<User>): Promise<User> {
-    if (!data.name || !data.email) {
-      throw new Error('Name and email are required');
+  public async suggest(prefix: string, limit: number): Promise<User[]> {
+    const terms = searchTerms(prefix);
+    if (terms.length === 0) {
+      return [];
     }
 
-    const newUser = await UserModel.create({
+    const query = `to_tsquery('simple', ${this.escape(prefixTsQuery(terms))})`;
+    return await this.findAll({
+      where: literal(`search_vector @@ ${query}`),
+      order: [[literal(`ts_rank(search_vector, ${query})`), 'DESC'], ['name', 'ASC'], ['id', 'ASC']],
+      limit,
+    });
+  }
+
+  /**
+   * Create a new user with login credentials
+   * @param data - User data
+   * @param passwordHash - Hash produced by hashPassword
+   * @param options - Optional transaction
+   */
+  public async createWithPassword(
+    data: CreateUserDto,
+    passwordHash: string,
+    options: RepositoryOptions = {}
+  ): Promise<User> {
+    const newUser = await this.uniqueEmail(() => UserModel.create({
       name: data.name,
       email: data.email,
-    });
+      passwordHash,
+    }, joinTransaction(options)));
 
-    return newUser.toJSON() as User;
+    return this.toDto(newUser);
   }
 
   /**
-   * Update an existing user
+   * Restore a soft-deleted user
    * @param id - User ID
-   * @param data - Updated user data
+   * @param options - Optional transaction
    */
-  public async update(id: number | string, data: Partial<User>): Promise<User | undefined> {
-    const userId = typeof id === 'string' ? parseInt(id) : id;
-    const user = await UserModel.findByPk(userId);
+  public async restore(id: number | string, options: RepositoryOptions = {}): Promise<User | undefined> {
+    const queryOptions = joinTransaction(options);
+    const user = await UserModel.findByPk(this.parseId(id), { ...queryOptions, paranoid: false });
 
     if (!user) {
       return undefined;
     }
 
-    const updateData: Partial<User> = {};
-    if (data.name !== undefined) {
-      updateData.name = data.name;
-    }
-    if (data.email !== undefined) {
-      updateData.email = data.email;
-    }
-
-    await user.update(updateData);
-    return user.toJSON() as User;
+    await this.uniqueEmail(() => user.restore(queryOptions));
+    return this.toDto(user);
   }
 
   /**
-   * Delete a user
+   * Permanently delete a user, whether soft-deleted or not
    * @param id - User ID
+   * @param options - Optional transaction
    */
-  public async delete(id: number | string): Promise<boolean> {
-    const userId = typeof id === 'string' ? parseInt(id) : id;
+  public async purge(id: number | string, options: RepositoryOptions = {}): Promise<boolean> {
     const deletedCount = await UserModel.destroy({
-      where: { id: userId },
+      ...joinTransaction(options),
+      where: { id: this.parseId(id) },
+      force: true,
     });
 
     return deletedCount > 0;
   }
 
   /**
-   * Check if a user exists
-   * @param id - User ID
+   * Never hand out password hashes, even from instances loaded with them
    */
-  public async exists(id: number | string): Promise<boolean> {
-    const userId = typeof id === 'string' ? parseInt(id) : id;
-    const count = await UserModel.count({
-      where: { id: userId },
-    });
-    return count > 0;
+  protected override toDto(user: UserModel): User {
+    const { passwordHash: _passwordHash, ...data } = user.toJSON();
+    return data as User;
   }
 
   /**
-   * Count total users
+   * Rank search results by their full-text rank, where names weigh more than
+   * emails, plus how closely the query resembles the name or email
    */
-  public async count(): Promise<number> {
-    return await UserModel.count();
+  protected override relevance(filters: UserFilters = {}): Utils.Literal | undefined {
+    const terms = filters.search ? searchTerms(filters.search) : [];
+    if (terms.length === 0) {
+      return undefined;
+    }
+
+    const query = this.escape(terms.join(' '));
+    return literal(
+      `ts_rank(search_vector, to_tsquery('simple', ${this.escape(prefixTsQuery(terms))}))`
+      + ` + greatest(word_similarity(${query}, name), word_similarity(${query}, email))`
+    );
+  }
+
+  /**
+   * Translate list filters into a Sequelize where clause
+   * @param filters - User list filters
+   */
+  protected override buildFilterWhere(filters: UserFilters = {}): WhereOptions {
+    const conditions: WhereOptions[] = [];
+
+    if (filters.search) {
+      conditions.push(this.searchWhere(filters.search));
+    }
+    if (filters.emailDomain) {
+      conditions.push({ email: { [Op.iLike]: `%@${escapeLike(filters.emailDomain)}` } });
+    }
+    if (filters.createdAfter) {
+      conditions.push({ createdAt: { [Op.gt]: filters.createdAfter } });
+    }
+    if (filters.createdBefore) {
+      conditions.push({ createdAt: { [Op.lt]: filters.createdBefore } });
+    }
+
+    return { [Op.and]: conditions };
+  }
+
+  /**
+   * Match every word of the search as a word prefix in the search_vector
+   * column, or the whole search fuzzily against name or email so that typos
+   * still match. Both use GIN indexes.
+   */
+  private searchWhere(search: string): WhereOptions {
+    const terms = searchTerms(search);
+
+    // Searches without letters or digits, such as "@", have no words to match
+    if (terms.length === 0) {
+      const pattern = `%${escapeLike(search)}%`;
+      return {
+        [Op.or]: [
+          { name: { [Op.iLike]: pattern } },
+          { email: { [Op.iLike]: pattern } },
+        ],
+      };
+    }
+
+    const conditions = [`search_vector @@ to_tsquery('simple', ${this.escape(prefixTsQuery(terms))})`];
+    const fuzzy = fuzzyQuery(terms);
+    if (fuzzy) {
+      // <% compares against pg_trgm.word_similarity_threshold, set on every connection
+      conditions.push(`${this.escape(fuzzy)} <% name`, `${this.escape(fuzzy)} <% email`);
+    }
+    return literal(`(${conditions.join(' OR ')})`);
+  }
+
+  /**
+   * Exact, case-insensitive email match; iLike would treat % and _ in the
+   * address as wildcards
+   */
+  private emailWhere(email: string): WhereOptions {
+    return where(fn('lower', col('email')), email.toLowerCase());
+  }
+
+  /**
+   * Report a write that races past the services' email check, and hits the
+   * unique index, as the same conflict the check would have raised
+   */
+  private async uniqueEmail<T>(write: () => Promise<T>): Promise<T> {
+    try {
+      return await write();
+    } catch (error) {
+      if (error instanceof UniqueConstraintError && (error.parent as { constraint?: string }).constraint === EMAIL_INDEX) {
+        throw new ConflictError('User with this email already exists', 'USER_EMAIL_TAKEN');
+      }
+      throw error;
+    }
+  }
+
+  private escape(value: string): string {
+    return this.model.sequelize!.escape(value);
   }
 }
@@ -0,0 +1,35 @@
+import { Container } from '../container';
+import { DocumentedRouter } from './registry';
+import { validate } from '../middleware/validate';
+import { Permission } from '../types/Permission';
+import { listAuditEventsSchema } from '../schemas/auditSchemas';
+import { pageResponse } from '../openapi/components';
+
+/**
+ * Build the audit routes with their controller and middleware from the container
+ */
+export function createAuditRoutes(container: Container): DocumentedRouter {
+  const routes = new DocumentedRouter();
+  const auditController = container.resolve('auditController');
+  const authenticate = container.resolve('authenticate');
+  const authorize = container.resolve('authorize');
+  const limit = container.resolve('rateLimit')('admin');
+
+  // Audit routes
+  routes.get(
+    '/audit',
+    {
+      operationId: 'listAuditEvents',
+      summary: 'List audit events, newest first',
+      tags: ['Audit'],
+      responses: { 200: { description: 'Page of audit events', schema: pageResponse('AuditEvent') } },
+    },
+    authenticate,
+    limit,
+    authorize(Permission.AUDIT_READ),
+    validate(listAuditEventsSchema),
+    auditController.listEvents.bind(auditController)
+  );
+
+  return routes;
+}
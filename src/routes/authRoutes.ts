@@ -0,0 +1,59 @@
+import { Container } from '../container';
+import { DocumentedRouter } from './registry';
+import { validate } from '../middleware/validate';
+import { APPLICATION_JSON, consumes } from '../middleware/contentType';
+import { registerSchema, loginSchema, refreshSchema, logoutSchema } from '../schemas/authSchemas';
+import { dataResponse } from '../openapi/components';
+import { ref } from '../openapi/jsonSchema';
+
+const TAGS = ['Auth'];
+
+/**
+ * Build the auth routes with their controller from the container
+ */
+export function createAuthRoutes(container: Container): DocumentedRouter {
+  const routes = new DocumentedRouter();
+  const authController = container.resolve('authController');
+  const limit = container.resolve('rateLimit')('auth');
+  const json = consumes(APPLICATION_JSON);
+
+  // Auth routes
+  routes.post('/auth/register', {
+    operationId: 'register',
+    summary: 'Register a new account',
+    tags: TAGS,
+    responses: {
+      201: { description: 'Account created', schema: dataResponse(ref('AuthResult')) },
+      409: { description: 'Email already taken' },
+    },
+  }, limit, json, validate(registerSchema), authController.register.bind(authController));
+
+  routes.post('/auth/login', {
+    operationId: 'login',
+    summary: 'Log in with email and password',
+    tags: TAGS,
+    responses: {
+      200: { description: 'Logged in', schema: dataResponse(ref('AuthResult')) },
+      401: { description: 'Invalid email or password' },
+    },
+  }, limit, json, validate(loginSchema), authController.login.bind(authController));
+
+  routes.post('/auth/refresh', {
+    operationId: 'refreshToken',
+    summary: 'Exchange a refresh token for a new token pair',
+    tags: TAGS,
+    responses: {
+      200: { description: 'New tokens', schema: dataResponse(ref('AuthTokens')) },
+      401: { description: 'Refresh token invalid, expired or revoked' },
+    },
+  }, limit, json, validate(refreshSchema), authController.refresh.bind(authController));
+
+  routes.post('/auth/logout', {
+    operationId: 'logout',
+    summary: 'Revoke a refresh token',
+    tags: TAGS,
+    responses: { 200: { description: 'Logged out', schema: dataResponse() } },
+  }, limit, json, validate(logoutSchema), authController.logout.bind(authController));
+
+  return routes;
+}
@@ -0,0 +1,34 @@
+import { Container } from '../container';
+import { DocumentedRouter } from './registry';
+import { Permission } from '../types/Permission';
+import { dataResponse } from '../openapi/components';
+import { ref } from '../openapi/jsonSchema';
+
+/**
+ * Build the cache routes with their controller and middleware from the container
+ */
+export function createCacheRoutes(container: Container): DocumentedRouter {
+  const routes = new DocumentedRouter();
+  const cacheController = container.resolve('cacheController');
+  const authenticate = container.resolve('authenticate');
+  const authorize = container.resolve('authorize');
+  const limit = container.resolve('rateLimit')('admin');
+
+  // Cache routes
+  routes.get(
+    '/cache/stats',
+    {
+      operationId: 'getCacheStats',
+      summary: 'Hit and miss counts of the repository cache',
+      description: 'Counted by the instance that answers, since it started.',
+      tags: ['Cache'],
+      responses: { 200: { description: 'Cache statistics', schema: dataResponse(ref('CacheStats')) } },
+    },
+    authenticate,
+    limit,
+    authorize(Permission.CACHE_READ),
+    cacheController.getStats.bind(cacheController)
+  );
+
+  return routes;
+}
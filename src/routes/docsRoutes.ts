@@ -0,0 +1,32 @@
+import express from 'express';
+import { Container } from '../container';
+import { DocumentedRouter } from './registry';
+import { contentSecurityPolicy } from '../middleware/securityHeaders';
+import { DOCS_CONTENT_SECURITY_POLICY, SWAGGER_UI_PATH } from '../controllers/DocsController';
+
+/**
+ * Build the OpenAPI document and interactive documentation routes
+ */
+export function createDocsRoutes(container: Container): DocumentedRouter {
+  const routes = new DocumentedRouter();
+  const docsController = container.resolve('docsController');
+
+  routes.get('/openapi.json', {
+    operationId: 'getOpenApiDocument',
+    summary: 'OpenAPI 3.1 description of this API',
+    tags: ['Docs'],
+    responses: { 200: { description: 'OpenAPI document', schema: { type: 'object' } } },
+  }, docsController.getOpenApiDocument.bind(docsController));
+
+  routes.get('/docs', {
+    operationId: 'getDocs',
+    summary: 'Interactive API documentation',
+    tags: ['Docs'],
+    responses: { 200: { description: 'Swagger UI page' } },
+  }, contentSecurityPolicy(DOCS_CONTENT_SECURITY_POLICY), docsController.getDocsPage.bind(docsController));
+
+  routes.router.get('/docs/init.js', docsController.getDocsScript.bind(docsController));
+  routes.router.use('/docs/assets', express.static(SWAGGER_UI_PATH, { index: false }));
+
+  return routes;
+}
@@ -0,0 +1,44 @@
+import { Container } from '../container';
+import { DocumentedRouter } from './registry';
+import { ref } from '../openapi/jsonSchema';
+
+const TAGS = ['Server'];
+
+/**
+ * Build the liveness and readiness probes with their controller from the container
+ */
+export function createHealthRoutes(container: Container): DocumentedRouter {
+  const routes = new DocumentedRouter();
+  const healthController = container.resolve('healthController');
+  const live = healthController.live.bind(healthController);
+
+  routes.get('/health/live', {
+    operationId: 'healthLive',
+    summary: 'Liveness probe',
+    description: 'Answers as long as the process serves requests; checks no dependencies.',
+    tags: TAGS,
+    responses: { 200: { description: 'Process is up' } },
+  }, live);
+
+  routes.get('/health', {
+    operationId: 'health',
+    summary: 'Liveness check',
+    description: 'Same as `/health/live`.',
+    tags: TAGS,
+    responses: { 200: { description: 'Process is up' } },
+  }, live);
+
+  routes.get('/health/ready', {
+    operationId: 'healthReady',
+    summary: 'Readiness probe',
+    description: 'Checks the database, its connection pool, pending migrations and the cache. '
+      + 'A `warn` check still reports ready; a `fail` check, or a shutdown in progress, answers 503.',
+    tags: TAGS,
+    responses: {
+      200: { description: 'Ready to serve traffic', schema: ref('HealthReport') },
+      503: { description: 'Not ready, or shutting down', schema: ref('HealthReport') },
+    },
+  }, healthController.ready.bind(healthController));
+
+  return routes;
+}
@@ -1,13 +1,62 @@
-import { Router } from 'express';
-import { HelloController } from '../controllers/HelloController';
+import { Container } from '../container';
+import { DocumentedRouter } from './registry';
+import { validate } from '../middleware/validate';
+import { cacheControl } from '../middleware/cacheControl';
+import { cachePolicies } from '../config/httpCache';
+import { helloSchema, personalizedHelloSchema } from '../schemas/helloSchemas';
+import { dataResponse } from '../openapi/components';
+import { ref } from '../openapi/jsonSchema';
 
-const router = Router();
-const helloController = new HelloController();
+const TAGS = ['Hello'];
+const helloResponse = { 200: { description: 'Greeting', schema: dataResponse(ref('HelloMessage')) } };
 
-// Hello routes
-router.get('/hello', helloController.hello.bind(helloController));
-router.get('/hello/personalized/:name', helloController.personalizedHello.bind(helloController));
-router.get('/hello/random', helloController.randomHello.bind(helloController));
-router.get('/hello/languages', helloController.getSupportedLanguages.bind(helloController));
+/**
+ * Build the hello routes with their controller from the container
+ */
+export function createHelloRoutes(container: Container): DocumentedRouter {
+  const routes = new DocumentedRouter();
+  const helloController = container.resolve('helloController');
+  const limit = container.resolve('rateLimit')('hello');
 
-export default router;
+  // Hello routes
+  routes.get('/hello', {
+    operationId: 'hello',
+    summary: 'Greet the world',
+    tags: TAGS,
+    responses: helloResponse,
+  }, limit, validate(helloSchema), cacheControl(cachePolicies.hello), helloController.hello.bind(helloController));
+
+  routes.get('/hello/personalized/:name', {
+    operationId: 'helloPersonalized',
+    summary: 'Greet someone by name',
+    tags: TAGS,
+    responses: helloResponse,
+  }, limit, validate(personalizedHelloSchema), cacheControl(cachePolicies.hello), helloController.personalizedHello.bind(helloController));
+
+  routes.get('/hello/random', {
+    operationId: 'helloRandom',
+    summary: 'Greet in a random language',
+    tags: TAGS,
+    responses: helloResponse,
+  }, limit, cacheControl(cachePolicies.helloRandom), helloController.randomHello.bind(helloController));
+
+  routes.get('/hello/languages', {
+    operationId: 'helloLanguages',
+    summary: 'List supported languages',
+    tags: TAGS,
+    responses: {
+      200: {
+        description: 'Supported languages',
+        schema: dataResponse({
+          type: 'object',
+          properties: {
+            languages: { type: 'array', items: { type: 'string' } },
+            count: { type: 'integer' },
+          },
+        }),
+      },
+    },
+  }, limit, cacheControl(cachePolicies.helloLanguages), helloController.getSupportedLanguages.bind(helloController));
+
+  return routes;
+}
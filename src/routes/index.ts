@@ -1,11 +1,32 @@
 import { Router } from 'express';
-import userRoutes from './userRoutes';
-import helloRoutes from './helloRoutes';
+import { Container } from '../container';
+import { createUserRoutes } from './userRoutes';
+import { createHelloRoutes } from './helloRoutes';
+import { createAuthRoutes } from './authRoutes';
+import { createAuditRoutes } from './auditRoutes';
+import { createCacheRoutes } from './cacheRoutes';
+import { createDocsRoutes } from './docsRoutes';
 
-const router = Router();
+/**
+ * Build the API router from the bindings of a container
+ * Every route is recorded in the container's route registry
+ */
+export function createRoutes(container: Container): Router {
+  const router = Router();
+  const registry = container.resolve('routeRegistry');
 
-// API routes
-router.use('/api', userRoutes);
-router.use('/api', helloRoutes);
+  // API routes
+  const factories = [
+    createUserRoutes,
+    createHelloRoutes,
+    createAuthRoutes,
+    createAuditRoutes,
+    createCacheRoutes,
+    createDocsRoutes,
+  ];
+  for (const create of factories) {
+    router.use('/api', registry.mount('/api', create(container)));
+  }
 
-export default router;
+  return router;
+}
@@ -0,0 +1,73 @@
+import { Container } from '../container';
+import { DocumentedRouter } from './registry';
+import { validate } from '../middleware/validate';
+import { APPLICATION_JSON, consumes } from '../middleware/contentType';
+import { Permission } from '../types/Permission';
+import { resetLogLevelSchema, setLogLevelSchema } from '../schemas/logLevelSchemas';
+import { dataResponse } from '../openapi/components';
+import { ref } from '../openapi/jsonSchema';
+
+const TAGS = ['Server'];
+
+/**
+ * Build the runtime log level endpoints with their controller and middleware from the container
+ */
+export function createLogLevelRoutes(container: Container): DocumentedRouter {
+  const routes = new DocumentedRouter();
+  const logLevelController = container.resolve('logLevelController');
+  const authenticate = container.resolve('authenticate');
+  const authorize = container.resolve('authorize');
+  const limit = container.resolve('rateLimit')('admin');
+  const levels = { description: 'Log levels in force', schema: dataResponse(ref('LogLevelReport')) };
+
+  routes.get(
+    '/admin/log-level',
+    {
+      operationId: 'getLogLevels',
+      summary: 'Global and per-module log levels',
+      description: 'Levels of the instance that answers.',
+      tags: TAGS,
+      responses: { 200: levels },
+    },
+    authenticate,
+    limit,
+    authorize(Permission.LOGS_MANAGE),
+    logLevelController.getLevels.bind(logLevelController)
+  );
+
+  routes.put(
+    '/admin/log-level',
+    {
+      operationId: 'setLogLevel',
+      summary: 'Set the global log level or the level of one module',
+      description: 'Applies to the instance that answers, and reverts to the configured level after '
+        + '`ttlSeconds`, `LOG_LEVEL_TTL` by default.',
+      tags: TAGS,
+      requestBody: 'SetLogLevelDto',
+      responses: { 200: levels },
+    },
+    authenticate,
+    limit,
+    consumes(APPLICATION_JSON),
+    authorize(Permission.LOGS_MANAGE),
+    validate(setLogLevelSchema),
+    logLevelController.setLevel.bind(logLevelController)
+  );
+
+  routes.delete(
+    '/admin/log-level',
+    {
+      operationId: 'resetLogLevel',
+      summary: 'Revert the global log level, or the level of `module`, to the configured level',
+      tags: TAGS,
+      responses: { 200: levels },
+    },
+    authenticate,
+    limit,
+    authorize(Permission.LOGS_MANAGE),
+    validate(resetLogLevelSchema),
+    logLevelController.resetLevel.bind(logLevelController)
+  );
+
+  return routes;
+}
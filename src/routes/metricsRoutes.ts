@@ -0,0 +1,21 @@
+import { Container } from '../container';
+import { DocumentedRouter } from './registry';
+
+/**
+ * Build the Prometheus scrape endpoint with its controller from the container
+ */
+export function createMetricsRoutes(container: Container): DocumentedRouter {
+  const routes = new DocumentedRouter();
+  const metricsController = container.resolve('metricsController');
+
+  routes.get('/metrics', {
+    operationId: 'metrics',
+    summary: 'Prometheus metrics',
+    description: 'HTTP traffic by route template, database query times and pool usage, user lifecycle counters '
+      + 'and process metrics such as event-loop lag, in the Prometheus text format.',
+    tags: ['Server'],
+    responses: { 200: { description: 'Metrics in the Prometheus text exposition format' } },
+  }, metricsController.getMetrics.bind(metricsController));
+
+  return routes;
+}
@@ -0,0 +1,132 @@
+import { RequestHandler, Router } from 'express';
+import { RouteAnnotation, collectAnnotations } from '../utils/routeMetadata';
+import { JsonSchema } from '../openapi/jsonSchema';
+import { updateRequestContext } from '../utils/requestContext';
+
+declare global {
+  namespace Express {
+    interface Request {
+      /**
+       * Full path template of the documented route that matched, such as
+       * `/api/users/:id`; set before the route's own handlers run
+       */
+      routeTemplate?: string;
+    }
+  }
+}
+
+export type HttpMethod = 'get' | 'post' | 'put' | 'patch' | 'delete';
+
+export interface ResponseDoc {
+  description: string;
+  schema?: JsonSchema;
+  /**
+   * Response headers keyed by name, as OpenAPI header objects
+   */
+  headers?: Record<string, JsonSchema>;
+}
+
+/**
+ * Documentation given alongside a route definition
+ * Parameters, request body and security come from the route's middleware
+ */
+export interface RouteDoc {
+  operationId: string;
+  summary: string;
+  description?: string;
+  tags: string[];
+  /**
+   * Component describing the request body, instead of the validation schema,
+   * or one component per accepted media type
+   */
+  requestBody?: string | Record<string, string>;
+  /**
+   * OpenAPI parameter objects the validation schema cannot express, such as headers
+   */
+  parameters?: JsonSchema[];
+  responses: Record<number, ResponseDoc>;
+}
+
+export interface RegisteredRoute extends RouteDoc, RouteAnnotation {
+  method: HttpMethod;
+  path: string;
+}
+
+/**
+ * Express router that records a RouteDoc for every route it mounts
+ */
+export class DocumentedRouter {
+  public readonly router: Router = Router();
+  public readonly routes: RegisteredRoute[] = [];
+
+  public get(path: string, doc: RouteDoc, ...handlers: RequestHandler[]): this {
+    return this.route('get', path, doc, handlers);
+  }
+
+  public post(path: string, doc: RouteDoc, ...handlers: RequestHandler[]): this {
+    return this.route('post', path, doc, handlers);
+  }
+
+  public put(path: string, doc: RouteDoc, ...handlers: RequestHandler[]): this {
+    return this.route('put', path, doc, handlers);
+  }
+
+  public patch(path: string, doc: RouteDoc, ...handlers: RequestHandler[]): this {
+    return this.route('patch', path, doc, handlers);
+  }
+
+  public delete(path: string, doc: RouteDoc, ...handlers: RequestHandler[]): this {
+    return this.route('delete', path, doc, handlers);
+  }
+
+  private route(method: HttpMethod, path: string, doc: RouteDoc, handlers: RequestHandler[]): this {
+    this.routes.push({ ...doc, ...collectAnnotations(handlers), method, path });
+    this.router[method](path, recordTemplate(path), ...handlers);
+    return this;
+  }
+}
+
+/**
+ * Remember which route matched while the mount path is still known
+ * Express restores `req.baseUrl` once an error leaves the router, so it
+ * cannot be read back when the response finishes.
+ */
+function recordTemplate(path: string): RequestHandler {
+  return (req, _res, next) => {
+    req.routeTemplate = `${req.baseUrl}${path}`;
+    updateRequestContext({ route: req.routeTemplate });
+    next();
+  };
+}
+
+/**
+ * Every documented route of the application
+ * The OpenAPI document and the endpoint map of `/` are both built from it
+ */
+export class RouteRegistry {
+  private routes: RegisteredRoute[] = [];
+
+  /**
+   * Record the routes of a documented router under a mount path
+   * @param prefix - Path the router is mounted at
+   * @param documented - Router to record
+   * @returns The Express router, to pass to `use`
+   */
+  public mount(prefix: string, documented: DocumentedRouter): Router {
+    this.routes.push(...documented.routes.map(route => ({ ...route, path: `${prefix}${route.path}` })));
+    return documented.router;
+  }
+
+  public list(): RegisteredRoute[] {
+    return [...this.routes];
+  }
+
+  /**
+   * Map of operation IDs to `METHOD /path`, as listed by `GET /`
+   */
+  public endpoints(): Record<string, string> {
+    return Object.fromEntries(
+      this.routes.map(route => [route.operationId, `${route.method.toUpperCase()} ${route.path}`])
+    );
+  }
+}
@@ -1,14 +1,231 @@
-import { Router } from 'express';
-import { UserController } from '../controllers/UserController';
+import { Container } from '../container';
+import { DocumentedRouter } from './registry';
+import { dataResponse, pageResponse } from '../openapi/components';
+import { ref } from '../openapi/jsonSchema';
+import { validate } from '../middleware/validate';
+import { userIdParam } from '../middleware/authorize';
+import { when } from '../middleware/conditional';
+import { APPLICATION_JSON, consumes } from '../middleware/contentType';
+import { cacheControl } from '../middleware/cacheControl';
+import { cachePolicies } from '../config/httpCache';
+import { JSON_PATCH, MERGE_PATCH } from '../utils/patch';
+import { Permission } from '../types/Permission';
+import {
+  listUsersSchema,
+  suggestUsersSchema,
+  getUserSchema,
+  createUserSchema,
+  replaceUserSchema,
+  patchUserSchema,
+  deleteUserSchema,
+  restoreUserSchema,
+  purgeUserSchema,
+  userHistorySchema,
+} from '../schemas/userSchemas';
 
-const router = Router();
-const userController = new UserController();
+const TAGS = ['Users'];
+const notFound = { description: 'User not found' };
+const etagHeader = { description: 'Current version of the user', schema: { type: 'string' } };
+const ifMatchHeader = {
+  name: 'If-Match',
+  in: 'header',
+  required: false,
+  description: 'ETag of the version being changed; the update fails with 412 once the user has moved on',
+  schema: { type: 'string' },
+};
 
-// User routes
-router.get('/users', userController.getUsers.bind(userController));
-router.get('/users/:id', userController.getUserById.bind(userController));
-router.post('/users', userController.createUser.bind(userController));
-router.put('/users/:id', userController.updateUser.bind(userController));
-router.delete('/users/:id', userController.deleteUser.bind(userController));
+/**
+ * Build the user routes with their controller and middleware from the container
+ */
+export function createUserRoutes(container: Container): DocumentedRouter {
+  const routes = new DocumentedRouter();
+  const userController = container.resolve('userController');
+  const authenticate = container.resolve('authenticate');
+  const authorize = container.resolve('authorize');
+  const rateLimit = container.resolve('rateLimit');
+  const readLimit = rateLimit('users');
+  const writeLimit = rateLimit('userWrites');
 
-export default router;
+  // Listing soft-deleted users is restricted to callers allowed to see them
+  const includeDeletedGuard = when(
+    req => req.query.includeDeleted === 'true',
+    authenticate,
+    authorize(Permission.USERS_READ_DELETED)
+  );
+  const includeDeletedNote = `\`includeDeleted=true\` requires a bearer token with \`${Permission.USERS_READ_DELETED}\`.`;
+
+  // User routes
+  routes.get('/users/me', {
+    operationId: 'getCurrentUser',
+    summary: 'Get the authenticated user with their roles and permissions',
+    tags: TAGS,
+    responses: { 200: { description: 'Current user', schema: dataResponse(ref('CurrentUser')) } },
+  }, authenticate, readLimit, userController.getMe.bind(userController));
+
+  routes.get('/users', {
+    operationId: 'listUsers',
+    summary: 'List users',
+    description: 'Offset pagination with `page`, or keyset pagination with the `after` cursor. '
+      + '`search` matches users with a word starting with each of its words, or, from four letters, '
+      + 'despite typos; without a `sort` they come most relevant first, paged with `page` only. '
+      + `Each then carries \`highlights\`. ${includeDeletedNote}`,
+    tags: TAGS,
+    responses: { 200: { description: 'Page of users', schema: pageResponse('UserSearchHit') } },
+  }, readLimit, includeDeletedGuard, validate(listUsersSchema), cacheControl(cachePolicies.users), userController.getUsers.bind(userController));
+
+  routes.get('/users/suggest', {
+    operationId: 'suggestUsers',
+    summary: 'Autocomplete users by name or email',
+    description: 'Users with a word starting with each word of `q`, name matches first.',
+    tags: TAGS,
+    responses: {
+      200: { description: 'Suggested users', schema: dataResponse({ type: 'array', items: ref('UserSuggestion') }) },
+    },
+  }, readLimit, validate(suggestUsersSchema), userController.suggestUsers.bind(userController));
+
+  routes.get('/users/:id', {
+    operationId: 'getUser',
+    summary: 'Get a user by ID',
+    description: includeDeletedNote,
+    tags: TAGS,
+    responses: {
+      200: { description: 'User', schema: dataResponse(ref('User')), headers: { ETag: etagHeader } },
+      404: notFound,
+    },
+  }, readLimit, includeDeletedGuard, validate(getUserSchema), cacheControl(cachePolicies.users), userController.getUserById.bind(userController));
+
+  routes.post(
+    '/users',
+    {
+      operationId: 'createUser',
+      summary: 'Create a user',
+      tags: TAGS,
+      requestBody: 'CreateUserDto',
+      responses: {
+        201: { description: 'User created', schema: dataResponse(ref('User')), headers: { ETag: etagHeader } },
+        409: { description: 'Email already taken' },
+      },
+    },
+    authenticate,
+    writeLimit,
+    consumes(APPLICATION_JSON),
+    authorize(Permission.USERS_CREATE),
+    validate(createUserSchema),
+    userController.createUser.bind(userController)
+  );
+
+  const updateRule = authorize(Permission.USERS_UPDATE, {
+    ownPermission: Permission.USERS_UPDATE_OWN,
+    ownerId: userIdParam,
+  });
+  const updateResponses = {
+    200: { description: 'User updated', schema: dataResponse(ref('User')), headers: { ETag: etagHeader } },
+    404: notFound,
+    409: { description: 'Email already taken' },
+    412: { description: 'If-Match does not list the current version' },
+  };
+
+  routes.put(
+    '/users/:id',
+    {
+      operationId: 'replaceUser',
+      summary: 'Replace a user',
+      description: 'Every writable field must be given.',
+      tags: TAGS,
+      requestBody: 'ReplaceUserDto',
+      parameters: [ifMatchHeader],
+      responses: updateResponses,
+    },
+    authenticate,
+    writeLimit,
+    consumes(APPLICATION_JSON),
+    updateRule,
+    validate(replaceUserSchema),
+    userController.replaceUser.bind(userController)
+  );
+
+  routes.patch(
+    '/users/:id',
+    {
+      operationId: 'patchUser',
+      summary: 'Partially update a user',
+      description: 'Send a JSON Merge Patch or a JSON Patch. The patched user must pass the checks of `replaceUser`.',
+      tags: TAGS,
+      requestBody: { [MERGE_PATCH]: 'UserMergePatch', [JSON_PATCH]: 'JsonPatch' },
+      parameters: [ifMatchHeader],
+      responses: { ...updateResponses, 409: { description: 'Email already taken, or a test operation failed' } },
+    },
+    authenticate,
+    writeLimit,
+    consumes(MERGE_PATCH, JSON_PATCH),
+    updateRule,
+    validate(patchUserSchema),
+    userController.patchUser.bind(userController)
+  );
+
+  routes.delete(
+    '/users/:id',
+    {
+      operationId: 'deleteUser',
+      summary: 'Soft-delete a user',
+      tags: TAGS,
+      responses: { 200: { description: 'User deleted', schema: dataResponse() }, 404: notFound },
+    },
+    authenticate,
+    writeLimit,
+    authorize(Permission.USERS_DELETE),
+    validate(deleteUserSchema),
+    userController.deleteUser.bind(userController)
+  );
+
+  routes.post(
+    '/users/:id/restore',
+    {
+      operationId: 'restoreUser',
+      summary: 'Restore a soft-deleted user',
+      tags: TAGS,
+      responses: {
+        200: { description: 'User restored', schema: dataResponse(ref('User')) },
+        404: notFound,
+        409: { description: 'User is not deleted, or their email has been taken' },
+      },
+    },
+    authenticate,
+    writeLimit,
+    authorize(Permission.USERS_RESTORE),
+    validate(restoreUserSchema),
+    userController.restoreUser.bind(userController)
+  );
+
+  routes.delete(
+    '/users/:id/purge',
+    {
+      operationId: 'purgeUser',
+      summary: 'Permanently delete a user',
+      tags: TAGS,
+      responses: { 200: { description: 'User purged', schema: dataResponse() }, 404: notFound },
+    },
+    authenticate,
+    writeLimit,
+    authorize(Permission.USERS_PURGE),
+    validate(purgeUserSchema),
+    userController.purgeUser.bind(userController)
+  );
+
+  routes.get(
+    '/users/:id/history',
+    {
+      operationId: 'getUserHistory',
+      summary: 'Audit trail of a user, newest first',
+      tags: TAGS,
+      responses: { 200: { description: 'Page of audit events', schema: pageResponse('AuditEvent') } },
+    },
+    authenticate,
+    readLimit,
+    authorize(Permission.AUDIT_READ, { ownPermission: Permission.AUDIT_READ_OWN, ownerId: userIdParam }),
+    validate(userHistorySchema),
+    userController.getUserHistory.bind(userController)
+  );
+
+  return routes;
+}
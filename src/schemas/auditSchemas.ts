@@ -0,0 +1,16 @@
+import { RequestSchema } from '../utils/validation';
+import { AuditAction } from '../types/Audit';
+import { pagingQuery } from './commonSchemas';
+
+// GET /audit
+export const listAuditEventsSchema: RequestSchema = {
+  query: {
+    ...pagingQuery,
+    actorId: { type: 'integer', min: 1 },
+    action: { type: 'string', enum: Object.values(AuditAction) },
+    entityType: { type: 'string', maxLength: 64 },
+    entityId: { type: 'string', maxLength: 64 },
+    from: { type: 'date' },
+    to: { type: 'date' },
+  },
+};
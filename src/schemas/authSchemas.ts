@@ -0,0 +1,32 @@
+import { RequestSchema } from '../utils/validation';
+
+const refreshTokenBody: RequestSchema['body'] = {
+  refreshToken: { type: 'string', required: true, maxLength: 512 },
+};
+
+// POST /auth/register
+export const registerSchema: RequestSchema = {
+  body: {
+    name: { type: 'string', required: true, minLength: 1, maxLength: 255 },
+    email: { type: 'string', required: true, maxLength: 255, email: true },
+    password: { type: 'string', required: true, minLength: 8, maxLength: 128 },
+  },
+};
+
+// POST /auth/login
+export const loginSchema: RequestSchema = {
+  body: {
+    email: { type: 'string', required: true, maxLength: 255, email: true },
+    password: { type: 'string', required: true, maxLength: 128 },
+  },
+};
+
+// POST /auth/refresh
+export const refreshSchema: RequestSchema = {
+  body: refreshTokenBody,
+};
+
+// POST /auth/logout
+export const logoutSchema: RequestSchema = {
+  body: refreshTokenBody,
+};
@@ -0,0 +1,18 @@
+import { ObjectSchema } from '../utils/validation';
+import { MAX_PAGE_LIMIT, decodeCursor } from '../utils/pagination';
+
+/**
+ * Query parameters shared by every paginated list endpoint
+ */
+export const pagingQuery: ObjectSchema = {
+  page: { type: 'integer', min: 1 },
+  limit: { type: 'integer', min: 1, max: MAX_PAGE_LIMIT },
+  after: {
+    type: 'string',
+    custom: [{
+      rule: 'cursor',
+      message: 'after must be a cursor returned by a previous page',
+      test: value => decodeCursor(value as string) !== undefined,
+    }],
+  },
+};
@@ -0,0 +1,18 @@
+import { RequestSchema } from '../utils/validation';
+
+const languageQuery: RequestSchema['query'] = {
+  lang: { type: 'string', pattern: /^[a-zA-Z]{2}(-[a-zA-Z]{2})?$/ },
+};
+
+// GET /hello
+export const helloSchema: RequestSchema = {
+  query: languageQuery,
+};
+
+// GET /hello/personalized/:name
+export const personalizedHelloSchema: RequestSchema = {
+  params: {
+    name: { type: 'string', required: true, minLength: 1, maxLength: 100 },
+  },
+  query: languageQuery,
+};
@@ -0,0 +1,25 @@
+import { RequestSchema } from '../utils/validation';
+import { LOG_LEVELS } from '../config/schema';
+
+/**
+ * Longest a level set at runtime may last, one day
+ */
+export const MAX_LOG_LEVEL_TTL = 86400;
+
+const moduleName = { type: 'string', pattern: /^[A-Za-z][\w.-]{0,63}$/ } as const;
+
+// PUT /admin/log-level
+export const setLogLevelSchema: RequestSchema = {
+  body: {
+    level: { type: 'string', required: true, enum: LOG_LEVELS },
+    module: moduleName,
+    ttlSeconds: { type: 'integer', min: 1, max: MAX_LOG_LEVEL_TTL },
+  },
+};
+
+// DELETE /admin/log-level
+export const resetLogLevelSchema: RequestSchema = {
+  query: {
+    module: moduleName,
+  },
+};
@@ -0,0 +1,106 @@
+import { User } from '../types/User';
+import { RequestSchema } from '../utils/validation';
+import { parseSort } from '../utils/pagination';
+import { pagingQuery } from './commonSchemas';
+
+/**
+ * Fields GET /users can be sorted on
+ */
+export const USER_SORTABLE_FIELDS: ReadonlyArray<keyof User & string> = [
+  'id',
+  'name',
+  'email',
+  'createdAt',
+  'updatedAt',
+];
+
+/**
+ * Suggestions GET /users/suggest returns by default, and at most
+ */
+export const DEFAULT_SUGGESTIONS = 10;
+export const MAX_SUGGESTIONS = 20;
+
+const userIdParams: RequestSchema['params'] = {
+  id: { type: 'integer', required: true, min: 1 },
+};
+
+// GET /users
+export const listUsersSchema: RequestSchema = {
+  query: {
+    ...pagingQuery,
+    sort: {
+      type: 'string',
+      custom: [{
+        rule: 'sort',
+        message: `sort must be a comma separated list of: ${USER_SORTABLE_FIELDS.join(', ')}`,
+        test: value => parseSort<User>(value as string, USER_SORTABLE_FIELDS) !== undefined,
+      }],
+    },
+    search: { type: 'string', maxLength: 255 },
+    emailDomain: { type: 'string', maxLength: 255, pattern: /^@?[\w.-]+$/ },
+    createdAfter: { type: 'date' },
+    createdBefore: { type: 'date' },
+    includeDeleted: { type: 'boolean' },
+  },
+};
+
+// GET /users/suggest
+export const suggestUsersSchema: RequestSchema = {
+  query: {
+    q: { type: 'string', required: true, minLength: 1, maxLength: 100 },
+    limit: { type: 'integer', min: 1, max: MAX_SUGGESTIONS },
+  },
+};
+
+// GET /users/:id
+export const getUserSchema: RequestSchema = {
+  params: userIdParams,
+  query: {
+    includeDeleted: { type: 'boolean' },
+  },
+};
+
+// POST /users
+export const createUserSchema: RequestSchema = {
+  body: {
+    name: { type: 'string', required: true, minLength: 1, maxLength: 255 },
+    email: { type: 'string', required: true, maxLength: 255, email: true },
+  },
+};
+
+// PUT /users/:id
+// Also checked against the result of applying a PATCH
+export const replaceUserSchema: RequestSchema = {
+  params: userIdParams,
+  body: {
+    name: { type: 'string', required: true, minLength: 1, maxLength: 255 },
+    email: { type: 'string', required: true, maxLength: 255, email: true },
+  },
+};
+
+// PATCH /users/:id
+// The body is a patch document, validated once applied
+export const patchUserSchema: RequestSchema = {
+  params: userIdParams,
+};
+
+// DELETE /users/:id
+export const deleteUserSchema: RequestSchema = {
+  params: userIdParams,
+};
+
+// POST /users/:id/restore
+export const restoreUserSchema: RequestSchema = {
+  params: userIdParams,
+};
+
+// DELETE /users/:id/purge
+export const purgeUserSchema: RequestSchema = {
+  params: userIdParams,
+};
+
+// GET /users/:id/history
+export const userHistorySchema: RequestSchema = {
+  params: userIdParams,
+  query: pagingQuery,
+};
@@ -1,11 +1,19 @@
 import { QueryInterface } from 'sequelize';
 
+/**
+ * scrypt hash of `admin-password`, the demo admin's password
+ * Change it after the first login on anything but a local install.
+ */
+export const DEMO_ADMIN_PASSWORD_HASH = 'scrypt$dUQN3a/SQVWHxA/MAnS+Rw==$'
+  + 'PiL1ul7Obg6v/dbgMxTDR2N/WtqowEjwqWI5r4azbnROx+IgEK6jXL6+17BN0gDptjBfcu05YprKIR5d/eVz4g==';
+
 export default {
   async up(queryInterface: QueryInterface): Promise<void> {
     await queryInterface.bulkInsert('users', [
       {
         name: 'John Doe',
         email: 'john@example.com',
+        password_hash: DEMO_ADMIN_PASSWORD_HASH,
         created_at: new Date(),
         updated_at: new Date(),
       },
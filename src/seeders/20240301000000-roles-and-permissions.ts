@@ -0,0 +1,70 @@
+import { QueryInterface, QueryTypes } from 'sequelize';
+
+const roles = [
+  { name: 'admin', description: 'Full access to user management' },
+  { name: 'user', description: 'Regular user who can manage their own account' },
+];
+
+const permissions = [
+  { name: 'users:create', description: 'Create users' },
+  { name: 'users:update', description: 'Update any user' },
+  { name: 'users:update:own', description: 'Update own account' },
+  { name: 'users:delete', description: 'Delete any user' },
+];
+
+const rolePermissions: Record<string, string[]> = {
+  admin: ['users:create', 'users:update', 'users:update:own', 'users:delete'],
+  user: ['users:update:own'],
+};
+
+const userRoles: Record<string, string> = {
+  'john@example.com': 'admin',
+  'jane@example.com': 'user',
+};
+
+export default {
+  async up(queryInterface: QueryInterface): Promise<void> {
+    const now = new Date();
+
+    await queryInterface.bulkInsert('roles', roles.map(role => ({ ...role, created_at: now, updated_at: now })));
+    await queryInterface.bulkInsert(
+      'permissions',
+      permissions.map(permission => ({ ...permission, created_at: now, updated_at: now }))
+    );
+
+    const roleRows = await queryInterface.sequelize.query<{ id: number; name: string }>(
+      'SELECT id, name FROM roles',
+      { type: QueryTypes.SELECT }
+    );
+    const permissionRows = await queryInterface.sequelize.query<{ id: number; name: string }>(
+      'SELECT id, name FROM permissions',
+      { type: QueryTypes.SELECT }
+    );
+    const userRows = await queryInterface.sequelize.query<{ id: number; email: string }>(
+      'SELECT id, email FROM users WHERE email IN (:emails)',
+      { type: QueryTypes.SELECT, replacements: { emails: Object.keys(userRoles) } }
+    );
+
+    const roleIds = new Map(roleRows.map(row => [row.name, row.id]));
+    const permissionIds = new Map(permissionRows.map(row => [row.name, row.id]));
+
+    await queryInterface.bulkInsert(
+      'role_permissions',
+      Object.entries(rolePermissions).flatMap(([role, names]) =>
+        names.map(name => ({ role_id: roleIds.get(role), permission_id: permissionIds.get(name) }))
+      )
+    );
+
+    if (userRows.length > 0) {
+      await queryInterface.bulkInsert(
+        'user_roles',
+        userRows.map(row => ({ user_id: row.id, role_id: roleIds.get(userRoles[row.email]!) }))
+      );
+    }
+  },
+
+  async down(queryInterface: QueryInterface): Promise<void> {
+    await queryInterface.bulkDelete('roles', { name: roles.map(role => role.name) });
+    await queryInterface.bulkDelete('permissions', { name: permissions.map(permission => permission.name) });
+  },
+};
@@ -0,0 +1,30 @@
+import { QueryInterface, QueryTypes } from 'sequelize';
+
+const permissions = [
+  { name: 'users:restore', description: 'Restore soft-deleted users' },
+  { name: 'users:purge', description: 'Permanently delete users' },
+  { name: 'users:read:deleted', description: 'List and view soft-deleted users' },
+];
+
+export default {
+  async up(queryInterface: QueryInterface): Promise<void> {
+    const now = new Date();
+
+    await queryInterface.bulkInsert(
+      'permissions',
+      permissions.map(permission => ({ ...permission, created_at: now, updated_at: now }))
+    );
+
+    // Deleted users stay out of sight of everyone but admins
+    await queryInterface.sequelize.query(
+      `INSERT INTO role_permissions (role_id, permission_id)
+       SELECT r.id, p.id FROM roles r, permissions p
+       WHERE r.name = 'admin' AND p.name IN (:names)`,
+      { type: QueryTypes.INSERT, replacements: { names: permissions.map(permission => permission.name) } }
+    );
+  },
+
+  async down(queryInterface: QueryInterface): Promise<void> {
+    await queryInterface.bulkDelete('permissions', { name: permissions.map(permission => permission.name) });
+  },
+};
@@ -0,0 +1,36 @@
+import { QueryInterface, QueryTypes } from 'sequelize';
+
+const permissions = [
+  { name: 'audit:read', description: 'Read the audit trail of any entity' },
+  { name: 'audit:read:own', description: 'Read the history of own account' },
+];
+
+const rolePermissions: Record<string, string[]> = {
+  admin: ['audit:read', 'audit:read:own'],
+  user: ['audit:read:own'],
+};
+
+export default {
+  async up(queryInterface: QueryInterface): Promise<void> {
+    const now = new Date();
+
+    await queryInterface.bulkInsert(
+      'permissions',
+      permissions.map(permission => ({ ...permission, created_at: now, updated_at: now }))
+    );
+
+    // Every user may read the history of their own account
+    for (const [role, names] of Object.entries(rolePermissions)) {
+      await queryInterface.sequelize.query(
+        `INSERT INTO role_permissions (role_id, permission_id)
+         SELECT r.id, p.id FROM roles r, permissions p
+         WHERE r.name = :role AND p.name IN (:names)`,
+        { type: QueryTypes.INSERT, replacements: { role, names } }
+      );
+    }
+  },
+
+  async down(queryInterface: QueryInterface): Promise<void> {
+    await queryInterface.bulkDelete('permissions', { name: permissions.map(permission => permission.name) });
+  },
+};
@@ -0,0 +1,22 @@
+import { QueryInterface } from 'sequelize';
+
+const permission = { name: 'logs:manage', description: 'Read and change log levels at runtime' };
+
+export default {
+  async up(queryInterface: QueryInterface): Promise<void> {
+    const now = new Date();
+    await queryInterface.bulkInsert('permissions', [{ ...permission, created_at: now, updated_at: now }]);
+
+    // Raising a level to debug can flood the log output; admins only
+    await queryInterface.sequelize.query(
+      `INSERT INTO role_permissions (role_id, permission_id)
+       SELECT r.id, p.id FROM roles r, permissions p
+       WHERE r.name = 'admin' AND p.name = :name`,
+      { replacements: { name: permission.name } }
+    );
+  },
+
+  async down(queryInterface: QueryInterface): Promise<void> {
+    await queryInterface.bulkDelete('permissions', { name: permission.name });
+  },
+};
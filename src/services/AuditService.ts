@@ -0,0 +1,57 @@
+import { AuditEvent, AuditFilters, CreateAuditEventDto } from '../types/Audit';
+import { Page, PageOptions } from '../types/Pagination';
+import { IRepository } from '../repositories/IRepository';
+import { diffObjects } from '../utils/diff';
+import { Logger } from '../utils/logger';
+
+export class AuditService {
+  private auditRepository: IRepository<AuditEvent, AuditFilters>;
+  private logger: Logger;
+
+  constructor(auditRepository: IRepository<AuditEvent, AuditFilters>, logger: Logger) {
+    this.auditRepository = auditRepository;
+    this.logger = logger.child({ module: 'AuditService' });
+  }
+
+  /**
+   * Record a mutation
+   * Call it inside the withTransaction of the mutation so that the event is
+   * committed or rolled back together with it
+   */
+  public async record(event: CreateAuditEventDto): Promise<AuditEvent> {
+    const { before, after } = diffObjects(event.before, event.after);
+
+    const auditEvent = await this.auditRepository.create({
+      actorId: event.context.actorId ?? null,
+      action: event.action,
+      entityType: event.entityType,
+      entityId: String(event.entityId),
+      before: event.before ? before : null,
+      after: event.after ? after : null,
+      requestId: event.context.requestId ?? null,
+      ip: event.context.ip ?? null,
+    });
+
+    this.logger.debug(`Recorded ${event.action} for ${event.entityType} ${event.entityId}`);
+    return auditEvent;
+  }
+
+  public async getHistory(
+    entityType: string,
+    entityId: string | number,
+    options: PageOptions<AuditEvent, AuditFilters>
+  ): Promise<Page<AuditEvent>> {
+    this.logger.debug(`Fetching history of ${entityType} ${entityId}`);
+    return await this.auditRepository.findPage({
+      ...options,
+      filters: { ...options.filters, entityType, entityId: String(entityId) },
+    });
+  }
+
+  public async listEvents(options: PageOptions<AuditEvent, AuditFilters>): Promise<Page<AuditEvent>> {
+    this.logger.debug('Listing audit events', options.filters);
+    const page = await this.auditRepository.findPage(options);
+    this.logger.info(`Found ${page.items.length} of ${page.meta.total} audit events`);
+    return page;
+  }
+}
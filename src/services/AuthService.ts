@@ -0,0 +1,113 @@
+import { AuthResult, AuthTokens, LoginDto, RegisterDto } from '../types/Auth';
+import { IUserRepository } from '../repositories/IUserRepository';
+import { TokenService } from './TokenService';
+import { PermissionService } from './PermissionService';
+import { AuditService } from './AuditService';
+import { AuditAction, AuditContext } from '../types/Audit';
+import { UnitOfWork } from '../utils/transaction';
+import { Transaction } from 'sequelize';
+import { RoleName } from '../types/Permission';
+import { ConflictError, UnauthorizedError } from '../errors/AppError';
+import { DUMMY_PASSWORD_HASH, hashPassword, verifyPassword } from '../utils/password';
+import { Logger } from '../utils/logger';
+import { Metrics } from '../metrics/Metrics';
+
+export class AuthService {
+  private userRepository: IUserRepository;
+  private tokenService: TokenService;
+  private permissionService: PermissionService;
+  private auditService: AuditService;
+  private unitOfWork: UnitOfWork;
+  private metrics: Metrics;
+  private logger: Logger;
+
+  constructor(
+    userRepository: IUserRepository,
+    tokenService: TokenService,
+    permissionService: PermissionService,
+    auditService: AuditService,
+    unitOfWork: UnitOfWork,
+    metrics: Metrics,
+    logger: Logger
+  ) {
+    this.userRepository = userRepository;
+    this.tokenService = tokenService;
+    this.permissionService = permissionService;
+    this.auditService = auditService;
+    this.unitOfWork = unitOfWork;
+    this.metrics = metrics;
+    this.logger = logger.child({ module: 'AuthService' });
+  }
+
+  public async register(data: RegisterDto, context: AuditContext = {}): Promise<AuthResult> {
+    this.logger.debug('Registering user', { email: data.email });
+
+    const passwordHash = await hashPassword(data.password);
+
+    const user = await this.unitOfWork(async () => {
+      const existingUser = await this.userRepository.findByEmail(data.email);
+      if (existingUser) {
+        this.logger.warn('Attempted to register duplicate user', { email: data.email });
+        throw new ConflictError('User with this email already exists', 'USER_EMAIL_TAKEN');
+      }
+
+      const newUser = await this.userRepository.createWithPassword(
+        { name: data.name, email: data.email },
+        passwordHash
+      );
+      await this.permissionService.assignRole(newUser.id, RoleName.USER);
+      // Self-registration: the new user is their own actor
+      await this.auditService.record({
+        action: AuditAction.USER_CREATED,
+        entityType: 'user',
+        entityId: newUser.id,
+        after: newUser,
+        context: { ...context, actorId: newUser.id },
+      });
+      return newUser;
+    }, { isolationLevel: Transaction.ISOLATION_LEVELS.SERIALIZABLE });
+
+    const tokens = await this.tokenService.issueTokens(user);
+
+    this.metrics.usersCreated.inc({ source: 'registration' });
+    this.logger.info(`User registered successfully (ID: ${user.id})`);
+    return { user, tokens };
+  }
+
+  public async login(data: LoginDto): Promise<AuthResult> {
+    this.logger.debug('Login attempt', { email: data.email });
+
+    const credentials = await this.userRepository.findCredentialsByEmail(data.email);
+    // Unknown emails and users without a password cost a hash check too, so
+    // that response times do not tell which emails are registered
+    const passwordHash = credentials?.passwordHash;
+    const valid = await verifyPassword(data.password, passwordHash || DUMMY_PASSWORD_HASH);
+
+    if (!credentials || !passwordHash || !valid) {
+      this.metrics.logins.inc({ result: 'failure' });
+      this.logger.warn('Failed login attempt', { email: data.email });
+      throw new UnauthorizedError('Invalid email or password', 'INVALID_CREDENTIALS');
+    }
+
+    const tokens = await this.tokenService.issueTokens(credentials.user);
+    this.metrics.logins.inc({ result: 'success' });
+    this.logger.info(`User logged in (ID: ${credentials.user.id})`);
+    return { user: credentials.user, tokens };
+  }
+
+  public async refresh(refreshToken: string): Promise<AuthTokens> {
+    this.logger.debug('Refreshing tokens');
+    return await this.tokenService.rotateRefreshToken(refreshToken, async id => {
+      const user = await this.userRepository.findById(id);
+      if (!user) {
+        throw new UnauthorizedError('Invalid refresh token', 'INVALID_REFRESH_TOKEN');
+      }
+      return user;
+    });
+  }
+
+  public async logout(refreshToken: string): Promise<void> {
+    this.logger.debug('Revoking refresh token');
+    await this.tokenService.revokeRefreshToken(refreshToken);
+  }
+}
@@ -0,0 +1,68 @@
+import { CheckResult, HealthCheck, HealthReport, HealthStatus } from '../types/Health';
+import { Logger } from '../utils/logger';
+
+const SEVERITY: Record<HealthStatus, number> = { pass: 0, warn: 1, fail: 2 };
+
+export class HealthService {
+  private checks: HealthCheck[];
+  private timeoutMs: number;
+  private logger: Logger;
+  private shuttingDown = false;
+
+  /**
+   * @param checks - Dependencies checked for readiness
+   * @param timeoutMs - Time each check gets before it counts as failed
+   * @param logger - Logger for failed checks
+   */
+  constructor(checks: HealthCheck[], timeoutMs: number, logger: Logger) {
+    this.checks = checks;
+    this.timeoutMs = timeoutMs;
+    this.logger = logger.child({ module: 'HealthService' });
+  }
+
+  /**
+   * Report the instance as not ready from now on, so that load balancers
+   * stop sending it traffic before the server closes
+   */
+  public beginShutdown(): void {
+    this.shuttingDown = true;
+  }
+
+  /**
+   * Run every check concurrently
+   * The report fails while shutting down, whatever the checks say.
+   */
+  public async checkReadiness(): Promise<HealthReport> {
+    const results = await Promise.all(this.checks.map(check => this.runCheck(check)));
+    const checks = Object.fromEntries(this.checks.map((check, i) => [check.name, results[i]!]));
+    const worst = results.reduce<HealthStatus>(
+      (status, result) => (SEVERITY[result.status] > SEVERITY[status] ? result.status : status),
+      'pass'
+    );
+
+    return {
+      status: this.shuttingDown ? 'fail' : worst,
+      shuttingDown: this.shuttingDown,
+      checks,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  private async runCheck(check: HealthCheck): Promise<CheckResult> {
+    const start = Date.now();
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`Timed out after ${this.timeoutMs}ms`)), this.timeoutMs);
+    });
+
+    try {
+      const result = await Promise.race([check.run(), timeout]);
+      return { ...result, latencyMs: Date.now() - start };
+    } catch (error) {
+      this.logger.warn(`Health check ${check.name} failed`, { error: (error as Error).message });
+      return { status: 'fail', latencyMs: Date.now() - start, error: (error as Error).message };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
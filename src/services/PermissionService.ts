@@ -0,0 +1,41 @@
+import { Permission, Role, RoleName } from '../types/Permission';
+import { RoleRepository } from '../repositories/RoleRepository';
+import { Logger } from '../utils/logger';
+
+export class PermissionService {
+  private roleRepository: RoleRepository;
+  private logger: Logger;
+
+  constructor(roleRepository: RoleRepository, logger: Logger) {
+    this.roleRepository = roleRepository;
+    this.logger = logger.child({ module: 'PermissionService' });
+  }
+
+  public async getPermissions(userId: number): Promise<Set<string>> {
+    this.logger.debug(`Loading permissions for user ID: ${userId}`);
+    const permissions = await this.roleRepository.findPermissionNamesForUser(userId);
+    return new Set(permissions);
+  }
+
+  public async hasPermission(userId: number, permission: Permission): Promise<boolean> {
+    const permissions = await this.getPermissions(userId);
+    return permissions.has(permission);
+  }
+
+  public async getRoles(userId: number): Promise<Role[]> {
+    return await this.roleRepository.findRolesForUser(userId);
+  }
+
+  public async assignRole(userId: number, roleName: RoleName): Promise<void> {
+    const role = await this.roleRepository.findByName(roleName);
+
+    if (!role) {
+      // Roles come from the seeders; a missing role is a deployment problem, not a client error
+      this.logger.warn(`Role ${roleName} does not exist, skipping assignment for user ID: ${userId}`);
+      return;
+    }
+
+    await this.roleRepository.assignRole(userId, role.id);
+    this.logger.info(`Assigned role ${roleName} to user ID: ${userId}`);
+  }
+}
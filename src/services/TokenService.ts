@@ -0,0 +1,122 @@
+import { createHash, randomBytes } from 'crypto';
+import jwt from 'jsonwebtoken';
+import { config } from '../config';
+import { AccessTokenPayload, AuthTokens, AuthUser } from '../types/Auth';
+import { RefreshTokenRepository } from '../repositories/RefreshTokenRepository';
+import { UnauthorizedError } from '../errors/AppError';
+import { Logger } from '../utils/logger';
+
+export class TokenService {
+  private refreshTokenRepository: RefreshTokenRepository;
+  private logger: Logger;
+
+  constructor(refreshTokenRepository: RefreshTokenRepository, logger: Logger) {
+    this.refreshTokenRepository = refreshTokenRepository;
+    this.logger = logger.child({ module: 'TokenService' });
+  }
+
+  /**
+   * Issue a signed access token and a new refresh token for a user
+   */
+  public async issueTokens(user: AuthUser): Promise<AuthTokens> {
+    const { refreshToken } = await this.createRefreshToken(user.id);
+    return this.buildTokens(user, refreshToken);
+  }
+
+  /**
+   * Exchange a refresh token for a new token pair
+   * The presented token is revoked and replaced. Presenting a token that was
+   * already rotated is treated as theft and revokes every session of the user.
+   */
+  public async rotateRefreshToken(refreshToken: string, loadUser: (id: number) => Promise<AuthUser>): Promise<AuthTokens> {
+    const record = await this.refreshTokenRepository.findByHash(this.hashToken(refreshToken));
+
+    if (!record) {
+      throw new UnauthorizedError('Invalid refresh token', 'INVALID_REFRESH_TOKEN');
+    }
+
+    if (record.revokedAt) {
+      await this.revokeReusedToken(record.userId);
+    }
+
+    if (record.expiresAt.getTime() <= Date.now()) {
+      throw new UnauthorizedError('Refresh token has expired', 'REFRESH_TOKEN_EXPIRED');
+    }
+
+    const user = await loadUser(record.userId);
+    const replacement = await this.createRefreshToken(user.id);
+
+    // A concurrent request may have rotated the same token in the meantime
+    const revoked = await this.refreshTokenRepository.revoke(record.id, replacement.id);
+    if (!revoked) {
+      await this.revokeReusedToken(record.userId);
+    }
+
+    return this.buildTokens(user, replacement.refreshToken);
+  }
+
+  /**
+   * Revoke a single refresh token
+   * Unknown or already revoked tokens are ignored so logout is idempotent
+   */
+  public async revokeRefreshToken(refreshToken: string): Promise<void> {
+    const record = await this.refreshTokenRepository.findByHash(this.hashToken(refreshToken));
+    if (record) {
+      await this.refreshTokenRepository.revoke(record.id);
+    }
+  }
+
+  /**
+   * Verify a signed access token and return the user it was issued to
+   */
+  public verifyAccessToken(token: string): AuthUser {
+    try {
+      const payload = jwt.verify(token, config.auth.jwtSecret, {
+        algorithms: ['HS256'],
+        issuer: config.auth.jwtIssuer,
+      }) as AccessTokenPayload;
+
+      return { id: Number(payload.sub), email: payload.email };
+    } catch (error) {
+      if (error instanceof jwt.TokenExpiredError) {
+        throw new UnauthorizedError('Access token has expired', 'TOKEN_EXPIRED');
+      }
+      throw new UnauthorizedError('Invalid access token', 'INVALID_TOKEN');
+    }
+  }
+
+  private async createRefreshToken(userId: number): Promise<{ id: number; refreshToken: string }> {
+    const refreshToken = randomBytes(48).toString('base64url');
+    const expiresAt = new Date(Date.now() + config.auth.refreshTokenTtl * 1000);
+    const record = await this.refreshTokenRepository.create(userId, this.hashToken(refreshToken), expiresAt);
+    return { id: record.id, refreshToken };
+  }
+
+  private buildTokens(user: AuthUser, refreshToken: string): AuthTokens {
+    return {
+      accessToken: this.signAccessToken(user),
+      refreshToken,
+      tokenType: 'Bearer',
+      expiresIn: config.auth.accessTokenTtl,
+    };
+  }
+
+  private signAccessToken(user: AuthUser): string {
+    const payload: AccessTokenPayload = { sub: String(user.id), email: user.email };
+    return jwt.sign(payload, config.auth.jwtSecret, {
+      algorithm: 'HS256',
+      issuer: config.auth.jwtIssuer,
+      expiresIn: config.auth.accessTokenTtl,
+    });
+  }
+
+  private async revokeReusedToken(userId: number): Promise<never> {
+    const count = await this.refreshTokenRepository.revokeAllForUser(userId);
+    this.logger.warn(`Refresh token reuse detected, revoked ${count} sessions`, { userId });
+    throw new UnauthorizedError('Refresh token has been revoked', 'REFRESH_TOKEN_REVOKED');
+  }
+
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+}
@@ -1,14 +1,35 @@
-import { User, CreateUserDto, UpdateUserDto } from '../types/User';
-import { UserRepository } from '../repositories/UserRepository';
+import { User, CreateUserDto, ReplaceUserDto } from '../types/User';
+import { Page, PageOptions, UserFilters } from '../types/Pagination';
+import { IUserRepository } from '../repositories/IUserRepository';
 import { Logger } from '../utils/logger';
+import { ConflictError, NotFoundError, PreconditionFailedError } from '../errors/AppError';
+import { AuditService } from './AuditService';
+import { AuditAction, AuditContext, AuditEvent } from '../types/Audit';
+import { UnitOfWork } from '../utils/transaction';
+import { Metrics } from '../metrics/Metrics';
+import { Transaction } from 'sequelize';
+
+const USER_ENTITY = 'user';
 
 export class UserService {
-  private userRepository: UserRepository;
+  private userRepository: IUserRepository;
+  private auditService: AuditService;
+  private unitOfWork: UnitOfWork;
+  private metrics: Metrics;
   private logger: Logger;
 
-  constructor() {
-    this.userRepository = new UserRepository();
-    this.logger = new Logger({ module: 'UserService' });
+  constructor(
+    userRepository: IUserRepository,
+    auditService: AuditService,
+    unitOfWork: UnitOfWork,
+    metrics: Metrics,
+    logger: Logger
+  ) {
+    this.userRepository = userRepository;
+    this.auditService = auditService;
+    this.unitOfWork = unitOfWork;
+    this.metrics = metrics;
+    this.logger = logger.child({ module: 'UserService' });
   }
 
   public async getAllUsers(): Promise<User[]> {
@@ -18,71 +39,252 @@ export class UserService {
     return users;
   }
 
-  public async getUserById(id: number): Promise<User | undefined> {
+  public async getUsersPage(options: PageOptions<User, UserFilters>): Promise<Page<User>> {
+    this.logger.debug('Fetching users page', options);
+    const page = await this.userRepository.findPage(options);
+    this.logger.info(`Found ${page.items.length} of ${page.meta.total} users`);
+    return page;
+  }
+
+  public async getUserById(id: number, includeDeleted: boolean = false): Promise<User> {
     this.logger.debug(`Fetching user with ID: ${id}`);
-    const user = await this.userRepository.findById(id);
+    const user = await this.userRepository.findById(id, { includeDeleted });
     
-    if (user) {
-      this.logger.info(`User found: ${user.email}`);
-    } else {
+    if (!user) {
       this.logger.warn(`User not found with ID: ${id}`);
+      throw new NotFoundError(`User with ID ${id} not found`, 'USER_NOT_FOUND');
     }
-    
+
+    this.logger.info(`User found with ID: ${user.id}`);
     return user;
   }
 
-  public async createUser(userData: CreateUserDto): Promise<User> {
-    this.logger.debug(`Creating user: ${userData.email}`);
-    
-    // Check if user already exists
-    const existingUser = await this.userRepository.findByEmail(userData.email);
-    if (existingUser) {
-      this.logger.warn(`Attempted to create duplicate user: ${userData.email}`);
-      throw new Error('User with this email already exists');
-    }
+  public async createUser(userData: CreateUserDto, context: AuditContext = {}): Promise<User> {
+    this.logger.debug('Creating user', { email: userData.email });
 
-    const newUser = await this.userRepository.create(userData);
-    this.logger.info(`User created successfully: ${newUser.email} (ID: ${newUser.id})`);
+    // Serializable so that two concurrent requests for the same email cannot
+    // both pass the check; the loser is retried and then sees the new user
+    const newUser = await this.unitOfWork(async () => {
+      // Check if user already exists
+      const existingUser = await this.userRepository.findByEmail(userData.email);
+      if (existingUser) {
+        this.logger.warn('Attempted to create duplicate user', { email: userData.email });
+        throw new ConflictError('User with this email already exists', 'USER_EMAIL_TAKEN');
+      }
+
+      const user = await this.userRepository.create(userData);
+      await this.auditService.record({
+        action: AuditAction.USER_CREATED,
+        entityType: USER_ENTITY,
+        entityId: user.id,
+        after: user,
+        context,
+      });
+      return user;
+    }, { isolationLevel: Transaction.ISOLATION_LEVELS.SERIALIZABLE });
+
+    this.metrics.usersCreated.inc({ source: 'admin' });
+    this.logger.info(`User created successfully (ID: ${newUser.id})`);
     return newUser;
   }
 
-  public async updateUser(id: number, userData: UpdateUserDto): Promise<User | undefined> {
-    this.logger.debug(`Updating user with ID: ${id}`);
-    
-    const updatedUser = await this.userRepository.update(id, userData);
-    
-    if (updatedUser) {
-      this.logger.info(`User updated successfully: ${updatedUser.email}`);
-    } else {
-      this.logger.warn(`Failed to update user with ID: ${id} - not found`);
-    }
-    
-    return updatedUser;
+  /**
+   * Replace every writable field of a user
+   * @param id - User ID
+   * @param data - New name and email
+   * @param context - Who is making the change
+   * @param ifMatch - Versions the caller expects, from If-Match; any version when undefined
+   */
+  public async replaceUser(
+    id: number,
+    data: ReplaceUserDto,
+    context: AuditContext = {},
+    ifMatch?: number[]
+  ): Promise<User> {
+    this.logger.debug(`Replacing user with ID: ${id}`);
+    return await this.writeUser(id, () => data, context, ifMatch);
+  }
+
+  /**
+   * Apply a patch to the writable fields of a user
+   * The patch runs against the user as read inside the transaction, so it
+   * sees the same version the If-Match check was made against.
+   * @param id - User ID
+   * @param patch - Computes the new fields from the current ones; throws when the patch cannot be applied
+   * @param context - Who is making the change
+   * @param ifMatch - Versions the caller expects, from If-Match; any version when undefined
+   */
+  public async patchUser(
+    id: number,
+    patch: (current: ReplaceUserDto) => ReplaceUserDto,
+    context: AuditContext = {},
+    ifMatch?: number[]
+  ): Promise<User> {
+    this.logger.debug(`Patching user with ID: ${id}`);
+    return await this.writeUser(id, patch, context, ifMatch);
   }
 
-  public async deleteUser(id: number): Promise<boolean> {
+  public async deleteUser(id: number, context: AuditContext = {}): Promise<void> {
     this.logger.debug(`Deleting user with ID: ${id}`);
-    
-    const deleted = await this.userRepository.delete(id);
-    
-    if (deleted) {
-      this.logger.info(`User deleted successfully (ID: ${id})`);
-    } else {
-      this.logger.warn(`Failed to delete user with ID: ${id} - not found`);
-    }
-    
-    return deleted;
+
+    await this.unitOfWork(async () => {
+      const before = await this.userRepository.findById(id);
+      const deleted = before ? await this.userRepository.delete(id) : false;
+
+      if (!before || !deleted) {
+        this.logger.warn(`Failed to delete user with ID: ${id} - not found`);
+        throw new NotFoundError(`User with ID ${id} not found`, 'USER_NOT_FOUND');
+      }
+
+      await this.auditService.record({
+        action: AuditAction.USER_DELETED,
+        entityType: USER_ENTITY,
+        entityId: id,
+        before,
+        context,
+      });
+    });
+
+    this.metrics.usersDeleted.inc();
+    this.logger.info(`User deleted successfully (ID: ${id})`);
+  }
+
+  public async restoreUser(id: number, context: AuditContext = {}): Promise<User> {
+    this.logger.debug(`Restoring user with ID: ${id}`);
+
+    const restoredUser = await this.unitOfWork(async () => {
+      const user = await this.userRepository.findById(id, { includeDeleted: true });
+      if (!user) {
+        throw new NotFoundError(`User with ID ${id} not found`, 'USER_NOT_FOUND');
+      }
+      if (!user.deletedAt) {
+        throw new ConflictError(`User with ID ${id} is not deleted`, 'USER_NOT_DELETED');
+      }
+
+      // The address may have been registered again while the user was deleted
+      const emailOwner = await this.userRepository.findByEmail(user.email);
+      if (emailOwner) {
+        this.logger.warn(`Cannot restore user ID: ${id} - email taken by user ID: ${emailOwner.id}`);
+        throw new ConflictError('Another user has registered this email', 'USER_EMAIL_TAKEN');
+      }
+
+      const restored = await this.userRepository.restore(id);
+      if (!restored) {
+        throw new NotFoundError(`User with ID ${id} not found`, 'USER_NOT_FOUND');
+      }
+
+      await this.auditService.record({
+        action: AuditAction.USER_RESTORED,
+        entityType: USER_ENTITY,
+        entityId: id,
+        before: user,
+        after: restored,
+        context,
+      });
+      return restored;
+    }, { isolationLevel: Transaction.ISOLATION_LEVELS.SERIALIZABLE });
+
+    this.metrics.usersRestored.inc();
+    this.logger.info(`User restored successfully (ID: ${restoredUser.id})`);
+    return restoredUser;
+  }
+
+  public async purgeUser(id: number, context: AuditContext = {}): Promise<void> {
+    this.logger.debug(`Purging user with ID: ${id}`);
+
+    await this.unitOfWork(async () => {
+      const before = await this.userRepository.findById(id, { includeDeleted: true });
+      const purged = before ? await this.userRepository.purge(id) : false;
+
+      if (!before || !purged) {
+        this.logger.warn(`Failed to purge user with ID: ${id} - not found`);
+        throw new NotFoundError(`User with ID ${id} not found`, 'USER_NOT_FOUND');
+      }
+
+      await this.auditService.record({
+        action: AuditAction.USER_PURGED,
+        entityType: USER_ENTITY,
+        entityId: id,
+        before,
+        context,
+      });
+    });
+
+    this.metrics.usersPurged.inc();
+    this.logger.info(`User purged permanently (ID: ${id})`);
+  }
+
+  public async getUserHistory(id: number, options: PageOptions<AuditEvent>): Promise<Page<AuditEvent>> {
+    this.logger.debug(`Fetching history of user with ID: ${id}`);
+    return await this.auditService.getHistory(USER_ENTITY, id, options);
   }
 
   public async getUserByEmail(email: string): Promise<User | undefined> {
-    this.logger.debug(`Fetching user by email: ${email}`);
+    this.logger.debug('Fetching user by email', { email });
     return await this.userRepository.findByEmail(email);
   }
 
   public async searchUsers(query: string): Promise<User[]> {
-    this.logger.debug(`Searching users with query: ${query}`);
+    this.logger.debug('Searching users', { search: query });
     const users = await this.userRepository.search(query);
-    this.logger.info(`Found ${users.length} users matching query: ${query}`);
+    this.logger.info(`Found ${users.length} users matching search`, { search: query });
     return users;
   }
+
+  public async suggestUsers(prefix: string, limit: number): Promise<User[]> {
+    this.logger.debug('Suggesting users', { search: prefix });
+    return await this.userRepository.suggest(prefix, limit);
+  }
+
+  /**
+   * Shared write path of PUT and PATCH
+   * Serializable so that the version check, the email check and the update
+   * see one snapshot; a concurrent write makes this one retry and then fail
+   * the If-Match check against the new version.
+   */
+  private async writeUser(
+    id: number,
+    build: (current: ReplaceUserDto) => ReplaceUserDto,
+    context: AuditContext,
+    ifMatch: number[] | undefined
+  ): Promise<User> {
+    const updatedUser = await this.unitOfWork(async () => {
+      const before = await this.userRepository.findById(id);
+      if (!before) {
+        this.logger.warn(`Failed to update user with ID: ${id} - not found`);
+        throw new NotFoundError(`User with ID ${id} not found`, 'USER_NOT_FOUND');
+      }
+
+      if (ifMatch && !ifMatch.includes(before.version)) {
+        this.logger.warn(`Rejected stale update of user ID: ${id} - current version is ${before.version}`);
+        throw new PreconditionFailedError(`User with ID ${id} has been modified`, 'USER_VERSION_MISMATCH');
+      }
+
+      const data = build({ name: before.name, email: before.email });
+
+      const emailOwner = await this.userRepository.findByEmail(data.email);
+      if (emailOwner && emailOwner.id !== id) {
+        this.logger.warn(`Cannot update user ID: ${id} - email taken by user ID: ${emailOwner.id}`);
+        throw new ConflictError('User with this email already exists', 'USER_EMAIL_TAKEN');
+      }
+
+      const user = await this.userRepository.update(id, { name: data.name, email: data.email });
+      if (!user) {
+        throw new NotFoundError(`User with ID ${id} not found`, 'USER_NOT_FOUND');
+      }
+
+      await this.auditService.record({
+        action: AuditAction.USER_UPDATED,
+        entityType: USER_ENTITY,
+        entityId: id,
+        before,
+        after: user,
+        context,
+      });
+      return user;
+    }, { isolationLevel: Transaction.ISOLATION_LEVELS.SERIALIZABLE });
+
+    this.logger.info(`User updated successfully (ID: ${id}, version ${updatedUser.version})`);
+    return updatedUser;
+  }
 }
@@ -0,0 +1,52 @@
+import { appendFile } from 'fs/promises';
+import { ExportResult, ExportResultCode, hrTimeToMicroseconds } from '@opentelemetry/core';
+import { ReadableSpan, SpanExporter } from '@opentelemetry/sdk-trace-base';
+
+/**
+ * Span exporter that appends one JSON object per span to a file
+ * Enough to inspect traces locally without running a collector.
+ */
+export class FileSpanExporter implements SpanExporter {
+  private path: string;
+  private pending = new Set<Promise<void>>();
+
+  /**
+   * @param path - File to append to; created when missing
+   */
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  public export(spans: ReadableSpan[], resultCallback: (result: ExportResult) => void): void {
+    const lines = spans.map(span => `${JSON.stringify(this.toJson(span))}\n`).join('');
+    const write = appendFile(this.path, lines)
+      .then(() => resultCallback({ code: ExportResultCode.SUCCESS }))
+      .catch((error: Error) => resultCallback({ code: ExportResultCode.FAILED, error }))
+      .finally(() => this.pending.delete(write));
+    this.pending.add(write);
+  }
+
+  public async forceFlush(): Promise<void> {
+    await Promise.all(this.pending);
+  }
+
+  public async shutdown(): Promise<void> {
+    await this.forceFlush();
+  }
+
+  private toJson(span: ReadableSpan): Record<string, unknown> {
+    const { traceId, spanId } = span.spanContext();
+    return {
+      traceId,
+      spanId,
+      parentSpanId: span.parentSpanContext?.spanId,
+      name: span.name,
+      kind: span.kind,
+      startTime: hrTimeToMicroseconds(span.startTime),
+      durationMicros: hrTimeToMicroseconds(span.duration),
+      status: span.status,
+      attributes: span.attributes,
+      events: span.events,
+    };
+  }
+}
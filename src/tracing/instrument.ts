@@ -0,0 +1,74 @@
+import { Span, SpanKind, SpanStatusCode, context } from '@opentelemetry/api';
+import { QueryOptions, Sequelize } from 'sequelize';
+import { ATTR_DB_OPERATION_NAME, ATTR_DB_SYSTEM_NAME } from '@opentelemetry/semantic-conventions';
+import { tracer, withSpan } from './tracing';
+
+/**
+ * Wrap an object so that each call to one of its methods runs in a span
+ * named `<name>.<method>`
+ * Calls the object makes to its own methods are not traced separately.
+ * @param target - Service or controller to trace
+ * @param name - Prefix of the span names, usually the class name
+ */
+export function traced<T extends object>(target: T, name: string): T {
+  const wrappers = new Map<string, Function>();
+
+  return new Proxy(target, {
+    get(object, key) {
+      const value: unknown = Reflect.get(object, key, object);
+      if (typeof value !== 'function' || typeof key !== 'string' || key === 'constructor') {
+        return value;
+      }
+
+      let wrapper = wrappers.get(key);
+      if (!wrapper) {
+        wrapper = (...args: unknown[]) => withSpan(`${name}.${key}`, () => value.apply(object, args));
+        wrappers.set(key, wrapper);
+      }
+      return wrapper;
+    },
+  });
+}
+
+/**
+ * The part of a Sequelize query object the hooks rely on
+ */
+interface TracedQuery {
+  run(...args: unknown[]): Promise<unknown>;
+}
+
+/**
+ * Give every query of a Sequelize instance a client span, child of the
+ * span active when the query was made
+ * afterQuery runs whether or not the query failed and is not told which, so
+ * the query's own run method is wrapped to record the error on the span.
+ * Call once per instance; the hooks stay on it for its lifetime.
+ */
+export function traceQueries(sequelize: Sequelize): void {
+  const spans = new WeakMap<object, Span>();
+
+  sequelize.addHook('beforeQuery', (options: QueryOptions, query: object) => {
+    const operation = options.type ?? 'RAW';
+    const span = tracer.startSpan(operation, {
+      kind: SpanKind.CLIENT,
+      attributes: { [ATTR_DB_SYSTEM_NAME]: 'postgresql', [ATTR_DB_OPERATION_NAME]: operation },
+    }, context.active());
+    spans.set(query, span);
+
+    const instance = query as TracedQuery;
+    const run = instance.run.bind(query);
+    instance.run = async (...args) => {
+      try {
+        return await run(...args);
+      } catch (error) {
+        span.recordException(error as Error);
+        span.setStatus({ code: SpanStatusCode.ERROR, message: (error as Error).message });
+        throw error;
+      }
+    };
+  });
+  sequelize.addHook('afterQuery', (_options: QueryOptions, query: object) => {
+    spans.get(query)?.end();
+    spans.delete(query);
+  });
+}
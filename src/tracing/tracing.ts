@@ -0,0 +1,96 @@
+import { Span, SpanStatusCode, isSpanContextValid, trace } from '@opentelemetry/api';
+import { NodeTracerProvider } from '@opentelemetry/sdk-trace-node';
+import {
+  BatchSpanProcessor,
+  ParentBasedSampler,
+  SpanProcessor,
+  TraceIdRatioBasedSampler,
+} from '@opentelemetry/sdk-trace-base';
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import { resourceFromAttributes } from '@opentelemetry/resources';
+import { ATTR_SERVICE_NAME } from '@opentelemetry/semantic-conventions';
+import { AppConfig } from '../config';
+import { FileSpanExporter } from './FileSpanExporter';
+
+export type TracingOptions = AppConfig['tracing'];
+
+/**
+ * Tracer of the app
+ * Spans are dropped until startTracing registers a provider.
+ */
+export const tracer = trace.getTracer('express-mvc');
+
+/**
+ * Register the global tracer provider, with W3C trace context propagation
+ * and an AsyncLocalStorage context manager
+ * Call once per process, before serving requests.
+ * @param options - Tracing settings
+ * @param processors - Where spans go; an exporter chosen by `options.exporter` by default
+ * @returns The provider, to shut down once the server has closed
+ */
+export function startTracing(
+  options: TracingOptions,
+  processors: SpanProcessor[] = createProcessors(options)
+): NodeTracerProvider {
+  const provider = new NodeTracerProvider({
+    resource: resourceFromAttributes({ [ATTR_SERVICE_NAME]: options.serviceName }),
+    sampler: new ParentBasedSampler({ root: new TraceIdRatioBasedSampler(options.sampleRatio) }),
+    spanProcessors: processors,
+  });
+  provider.register();
+  return provider;
+}
+
+function createProcessors(options: TracingOptions): SpanProcessor[] {
+  switch (options.exporter) {
+    case 'otlp':
+      return [new BatchSpanProcessor(new OTLPTraceExporter({ url: options.otlpUrl }))];
+    case 'file':
+      return [new BatchSpanProcessor(new FileSpanExporter(options.file))];
+    default:
+      return [];
+  }
+}
+
+/**
+ * IDs of the active span, or undefined outside of any trace
+ */
+export function activeTraceIds(): { traceId: string; spanId: string } | undefined {
+  const spanContext = trace.getActiveSpan()?.spanContext();
+  if (!spanContext || !isSpanContextValid(spanContext)) {
+    return undefined;
+  }
+  return { traceId: spanContext.traceId, spanId: spanContext.spanId };
+}
+
+/**
+ * Run a function in a new active span, ending it once the function returns
+ * or its promise settles
+ * Exceptions are recorded on the span and rethrown.
+ * @param name - Span name
+ * @param fn - Work to trace
+ */
+export function withSpan<T>(name: string, fn: (span: Span) => T): T {
+  return tracer.startActiveSpan(name, span => {
+    const fail = (error: unknown): never => {
+      span.recordException(error as Error);
+      span.setStatus({ code: SpanStatusCode.ERROR, message: (error as Error).message });
+      span.end();
+      throw error;
+    };
+
+    try {
+      const result = fn(span);
+      if (result instanceof Promise) {
+        return result.then(value => {
+          span.end();
+          return value;
+        }, fail) as T;
+      }
+      span.end();
+      return result;
+    } catch (error) {
+      return fail(error);
+    }
+  });
+}
@@ -0,0 +1,51 @@
+/**
+ * Actions recorded in the audit trail
+ */
+export enum AuditAction {
+  USER_CREATED = 'user.created',
+  USER_UPDATED = 'user.updated',
+  USER_DELETED = 'user.deleted',
+  USER_RESTORED = 'user.restored',
+  USER_PURGED = 'user.purged',
+}
+
+/**
+ * Who made a change and from where
+ * Built from the request by the controller and passed down to services
+ */
+export interface AuditContext {
+  actorId?: number;
+  requestId?: string;
+  ip?: string;
+}
+
+export interface AuditEvent {
+  id: number;
+  actorId: number | null;
+  action: string;
+  entityType: string;
+  entityId: string;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  requestId: string | null;
+  ip: string | null;
+  createdAt: Date;
+}
+
+export interface CreateAuditEventDto {
+  action: AuditAction;
+  entityType: string;
+  entityId: string | number;
+  before?: object | null;
+  after?: object | null;
+  context: AuditContext;
+}
+
+export interface AuditFilters {
+  actorId?: number;
+  action?: string;
+  entityType?: string;
+  entityId?: string;
+  from?: Date;
+  to?: Date;
+}
@@ -0,0 +1,53 @@
+import { User } from './User';
+
+export interface RegisterDto {
+  name: string;
+  email: string;
+  password: string;
+}
+
+export interface LoginDto {
+  email: string;
+  password: string;
+}
+
+/**
+ * The authenticated caller attached to the request by the auth middleware
+ */
+export interface AuthUser {
+  id: number;
+  email: string;
+}
+
+/**
+ * Claims carried by signed access tokens
+ */
+export interface AccessTokenPayload {
+  sub: string;
+  email: string;
+}
+
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+  tokenType: 'Bearer';
+  expiresIn: number;
+}
+
+export interface AuthResult {
+  user: User;
+  tokens: AuthTokens;
+}
+
+export interface UserCredentials {
+  user: User;
+  passwordHash: string | null;
+}
+
+export interface RefreshTokenRecord {
+  id: number;
+  userId: number;
+  expiresAt: Date;
+  revokedAt?: Date | null;
+  replacedById?: number | null;
+}
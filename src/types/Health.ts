@@ -0,0 +1,36 @@
+/**
+ * Outcome of a health check
+ * `warn` reports a problem without taking the instance out of rotation.
+ */
+export type HealthStatus = 'pass' | 'warn' | 'fail';
+
+export interface CheckResult {
+  status: HealthStatus;
+  /**
+   * How long the check took
+   */
+  latencyMs?: number;
+  details?: Record<string, unknown>;
+  error?: string;
+}
+
+/**
+ * A dependency the instance needs to serve requests
+ */
+export interface HealthCheck {
+  name: string;
+  /**
+   * Resolves with the outcome; a rejection counts as `fail`
+   */
+  run(): Promise<Omit<CheckResult, 'latencyMs'>>;
+}
+
+export interface HealthReport {
+  /**
+   * Worst status of all checks, or `fail` while shutting down
+   */
+  status: HealthStatus;
+  shuttingDown: boolean;
+  checks: Record<string, CheckResult>;
+  timestamp: string;
+}
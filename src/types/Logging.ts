@@ -0,0 +1,47 @@
+import { LogLevel } from '../config';
+
+export interface ModuleLogLevel {
+  /**
+   * `module` of the loggers, such as `UserService`
+   */
+  module: string;
+  level: LogLevel;
+  /**
+   * When the level set for the module reverts; null when none is set
+   */
+  expiresAt: string | null;
+}
+
+/**
+ * Log levels in force in the process
+ */
+export interface LogLevelReport {
+  /**
+   * Level of loggers without a level set for their module
+   */
+  level: LogLevel;
+  /**
+   * Level from the configuration, which levels set at runtime revert to
+   */
+  defaultLevel: LogLevel;
+  /**
+   * When `level` reverts to `defaultLevel`; null when it is not changed
+   */
+  expiresAt: string | null;
+  /**
+   * Every module that has a logger or a level set
+   */
+  modules: ModuleLogLevel[];
+}
+
+export interface SetLogLevelDto {
+  level: LogLevel;
+  /**
+   * Module to set; the global level when omitted
+   */
+  module?: string;
+  /**
+   * Seconds until the level reverts
+   */
+  ttlSeconds?: number;
+}
@@ -0,0 +1,41 @@
+export type SortDirection = 'ASC' | 'DESC';
+
+export interface SortField<T> {
+  field: keyof T & string;
+  direction: SortDirection;
+}
+
+/**
+ * Options accepted by IRepository.findPage
+ * Either `page` (offset pagination) or `after` (cursor pagination) is used;
+ * when both are given the cursor wins.
+ */
+export interface PageOptions<T, F = Record<string, unknown>> {
+  limit: number;
+  page?: number;
+  after?: string;
+  sort?: SortField<T>[];
+  filters?: F;
+}
+
+export interface PageMeta {
+  total: number;
+  limit: number;
+  page?: number;
+  totalPages?: number;
+  hasMore: boolean;
+  nextCursor?: string;
+}
+
+export interface Page<T> {
+  items: T[];
+  meta: PageMeta;
+}
+
+export interface UserFilters {
+  search?: string;
+  createdAfter?: Date;
+  createdBefore?: Date;
+  emailDomain?: string;
+  includeDeleted?: boolean;
+}
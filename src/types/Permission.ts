@@ -0,0 +1,31 @@
+/**
+ * Permissions checked by the authorize middleware
+ * `:own` variants only apply to resources owned by the caller
+ */
+export enum Permission {
+  USERS_CREATE = 'users:create',
+  USERS_UPDATE = 'users:update',
+  USERS_UPDATE_OWN = 'users:update:own',
+  USERS_DELETE = 'users:delete',
+  USERS_RESTORE = 'users:restore',
+  USERS_PURGE = 'users:purge',
+  USERS_READ_DELETED = 'users:read:deleted',
+  AUDIT_READ = 'audit:read',
+  AUDIT_READ_OWN = 'audit:read:own',
+  CACHE_READ = 'cache:read',
+  LOGS_MANAGE = 'logs:manage',
+}
+
+/**
+ * Built-in roles created by the roles seeder
+ */
+export enum RoleName {
+  ADMIN = 'admin',
+  USER = 'user',
+}
+
+export interface Role {
+  id: number;
+  name: string;
+  description?: string | null;
+}
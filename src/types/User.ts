@@ -2,8 +2,13 @@ export interface User {
   id: number;
   name: string;
   email: string;
+  /**
+   * Incremented on every update; the ETag of the user
+   */
+  version: number;
   createdAt?: Date;
   updatedAt?: Date;
+  deletedAt?: Date | null;
 }
 
 export interface CreateUserDto {
@@ -11,7 +16,26 @@ export interface CreateUserDto {
   email: string;
 }
 
-export interface UpdateUserDto {
-  name?: string;
-  email?: string;
+/**
+ * Every writable field of a user, as sent to PUT and produced by PATCH
+ */
+export interface ReplaceUserDto {
+  name: string;
+  email: string;
 }
+
+/**
+ * Fields of a user with the words a search matched wrapped in `<mark>`, the
+ * rest HTML-escaped; fields without a match are left out
+ */
+export type UserHighlights = Partial<Record<'name' | 'email', string>>;
+
+/**
+ * User found by a search, with what matched
+ */
+export type UserSearchHit = User & { highlights: UserHighlights };
+
+/**
+ * Autocomplete entry for a user
+ */
+export type UserSuggestion = Pick<User, 'id' | 'name' | 'email'> & { highlights: UserHighlights };
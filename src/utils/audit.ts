@@ -0,0 +1,23 @@
+import { Request } from 'express';
+import { AuditContext } from '../types/Audit';
+
+/**
+ * Collect the actor, request ID and client IP of a request for the audit trail
+ * @param req - Express request
+ */
+export function getAuditContext(req: Request): AuditContext {
+  const context: AuditContext = {};
+  const { requestId } = req;
+
+  if (req.user) {
+    context.actorId = req.user.id;
+  }
+  if (requestId) {
+    context.requestId = requestId;
+  }
+  if (req.ip) {
+    context.ip = req.ip;
+  }
+
+  return context;
+}
@@ -0,0 +1,48 @@
+/**
+ * Fields that change on every write and carry no audit value
+ */
+const IGNORED_FIELDS = new Set(['updatedAt', 'passwordHash']);
+
+export interface ObjectDiff {
+  before: Record<string, unknown>;
+  after: Record<string, unknown>;
+}
+
+function normalize(value: unknown): unknown {
+  return value instanceof Date ? value.toISOString() : value;
+}
+
+/**
+ * Compute the fields that differ between two versions of an entity
+ * Either side may be missing (creation or deletion), in which case every
+ * field of the other side is reported
+ * @param before - Entity before the change
+ * @param after - Entity after the change
+ */
+export function diffObjects(before?: object | null, after?: object | null): ObjectDiff {
+  const oldValues = (before ?? {}) as Record<string, unknown>;
+  const newValues = (after ?? {}) as Record<string, unknown>;
+  const diff: ObjectDiff = { before: {}, after: {} };
+
+  const keys = new Set([...Object.keys(oldValues), ...Object.keys(newValues)]);
+  for (const key of keys) {
+    if (IGNORED_FIELDS.has(key)) {
+      continue;
+    }
+
+    const oldValue = normalize(oldValues[key]);
+    const newValue = normalize(newValues[key]);
+    if (JSON.stringify(oldValue) === JSON.stringify(newValue)) {
+      continue;
+    }
+
+    if (before && key in oldValues) {
+      diff.before[key] = oldValue;
+    }
+    if (after && key in newValues) {
+      diff.after[key] = newValue;
+    }
+  }
+
+  return diff;
+}
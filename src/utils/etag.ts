@@ -0,0 +1,31 @@
+/**
+ * Strong entity tag of a version of a resource
+ * @param version - Version column of the resource
+ */
+export function versionTag(version: number): string {
+  return `"${version}"`;
+}
+
+/**
+ * Versions listed in an If-Match header
+ * Returns undefined when the header is absent or `*`, which every existing
+ * resource satisfies. Weak tags are skipped since If-Match uses the strong
+ * comparison, so a header listing only weak or foreign tags yields an empty
+ * list that no version matches.
+ * @param header - Value of the If-Match request header
+ */
+export function parseIfMatch(header: string | undefined): number[] | undefined {
+  if (header === undefined) {
+    return undefined;
+  }
+
+  const tags = header.split(',').map(tag => tag.trim());
+  if (tags.includes('*')) {
+    return undefined;
+  }
+
+  return tags.flatMap(tag => {
+    const match = /^"(\d+)"$/.exec(tag);
+    return match ? [Number(match[1])] : [];
+  });
+}
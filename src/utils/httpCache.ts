@@ -0,0 +1,98 @@
+import { createHash } from 'crypto';
+import { Response } from 'express';
+
+/**
+ * How clients and shared caches may store the responses of a route
+ */
+export interface CachePolicy {
+  /**
+   * `private` responses may only be stored by the client, not by proxies
+   */
+  scope?: 'public' | 'private';
+  /**
+   * Seconds a stored response stays fresh without revalidation
+   */
+  maxAge?: number;
+  /**
+   * Revalidate with the ETag before every reuse
+   */
+  noCache?: boolean;
+  /**
+   * Never store the response; no validators are sent either
+   */
+  noStore?: boolean;
+  /**
+   * Fields of `data` that change on every response without changing its
+   * meaning, such as generation timestamps; left out of the payload ETag
+   */
+  ignore?: string[];
+}
+
+const policies = new WeakMap<Response, CachePolicy>();
+
+/**
+ * Render a policy as a Cache-Control header value
+ */
+export function formatCacheControl(policy: CachePolicy): string {
+  if (policy.noStore) {
+    return 'no-store';
+  }
+
+  return [
+    policy.scope,
+    policy.maxAge !== undefined && `max-age=${policy.maxAge}`,
+    policy.noCache && 'no-cache',
+  ].filter(Boolean).join(', ');
+}
+
+/**
+ * Apply a cache policy to a response
+ * Sets Cache-Control and remembers the policy for HttpResponse, which adds
+ * the validators once the payload is known
+ */
+export function setCachePolicy(res: Response, policy: CachePolicy): void {
+  policies.set(res, policy);
+  res.setHeader('Cache-Control', formatCacheControl(policy));
+}
+
+export function getCachePolicy(res: Response): CachePolicy | undefined {
+  return policies.get(res);
+}
+
+function omit(value: unknown, fields: string[]): unknown {
+  if (Array.isArray(value)) {
+    return value.map(item => omit(item, fields));
+  }
+  if (typeof value === 'object' && value !== null && !(value instanceof Date)) {
+    return Object.fromEntries(Object.entries(value).filter(([key]) => !fields.includes(key)));
+  }
+  return value;
+}
+
+/**
+ * Weak entity tag of a response payload
+ * Weak because the envelope timestamp, and any ignored fields, differ
+ * between responses that share a tag
+ * @param payload - Response body without its timestamp
+ * @param ignore - Fields of `data` to leave out
+ */
+export function payloadTag(payload: { data?: unknown } & Record<string, unknown>, ignore: string[] = []): string {
+  const hash = createHash('sha1')
+    .update(JSON.stringify({ ...payload, data: omit(payload.data, ignore) }))
+    .digest('base64url');
+  return `W/"${hash}"`;
+}
+
+/**
+ * Last-Modified date of a single entity, taken from its updatedAt
+ * Lists have none: removing an item does not move any remaining updatedAt,
+ * so a date would wrongly let clients keep a stale page.
+ */
+export function lastModified(data: unknown): Date | undefined {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    return undefined;
+  }
+
+  const { updatedAt } = data as { updatedAt?: unknown };
+  return updatedAt instanceof Date ? updatedAt : undefined;
+}
@@ -1,4 +1,6 @@
-import { Response } from 'express';
+import { Request, Response } from 'express';
+import { Page, PageMeta } from '../types/Pagination';
+import { getCachePolicy, lastModified, payloadTag } from './httpCache';
 
 /**
  * HTTP Status Codes
@@ -17,7 +19,11 @@ export enum HttpStatus {
   NOT_FOUND = 404,
   METHOD_NOT_ALLOWED = 405,
   CONFLICT = 409,
+  PRECONDITION_FAILED = 412,
+  PAYLOAD_TOO_LARGE = 413,
+  UNSUPPORTED_MEDIA_TYPE = 415,
   UNPROCESSABLE_ENTITY = 422,
+  TOO_MANY_REQUESTS = 429,
 
   // Server Errors
   INTERNAL_SERVER_ERROR = 500,
@@ -34,9 +40,24 @@ export interface ApiResponse<T = any> {
   message?: string;
   data?: T;
   error?: string;
+  code?: string;
+  requestId?: string;
   errors?: any[];
   timestamp: string;
   path?: string;
+  meta?: PageMeta;
+  links?: PageLinks;
+}
+
+/**
+ * Navigation links included in paginated responses
+ */
+export interface PageLinks {
+  self: string;
+  first?: string;
+  prev?: string;
+  next?: string;
+  last?: string;
 }
 
 /**
@@ -59,9 +80,27 @@ export class HttpResponse {
       data,
       timestamp: new Date().toISOString()
     };
+    setValidators(res, response, statusCode);
     return res.status(statusCode).json(response);
   }
 
+  /**
+   * Send a paginated success response
+   * Items go in `data`, pagination metadata in `meta` and navigation links in `links`
+   */
+  static paginated<T>(res: Response, page: Page<T>, message?: string): Response {
+    const response: ApiResponse<T[]> = {
+      success: true,
+      message: message || 'Success',
+      data: page.items,
+      meta: page.meta,
+      links: buildPageLinks(res.req, page.meta),
+      timestamp: new Date().toISOString()
+    };
+    setValidators(res, response, HttpStatus.OK);
+    return res.status(HttpStatus.OK).json(response);
+  }
+
   /**
    * Send a created response (201)
    */
@@ -78,17 +117,23 @@ export class HttpResponse {
 
   /**
    * Send an error response
+   * `code` defaults to the status name (e.g. NOT_FOUND); the request ID is
+   * included when the request logger has assigned one
    */
   static error(
     res: Response,
     message: string,
     statusCode: HttpStatus = HttpStatus.INTERNAL_SERVER_ERROR,
-    errors?: any[]
+    errors?: any[],
+    code?: string
   ): Response {
+    const requestId: string | undefined = res.req?.requestId;
     const response: ApiResponse = {
       success: false,
       message,
       error: message,
+      code: code || getStatusName(statusCode),
+      ...(requestId && { requestId }),
       ...(errors && { errors }),
       timestamp: new Date().toISOString()
     };
@@ -137,6 +182,13 @@ export class HttpResponse {
     return HttpResponse.error(res, message, HttpStatus.UNPROCESSABLE_ENTITY, errors);
   }
 
+  /**
+   * Send a too many requests response (429)
+   */
+  static tooManyRequests(res: Response, message: string = 'Too Many Requests'): Response {
+    return HttpResponse.error(res, message, HttpStatus.TOO_MANY_REQUESTS);
+  }
+
   /**
    * Send an internal server error response (500)
    */
@@ -152,6 +204,68 @@ export class HttpResponse {
   }
 }
 
+/**
+ * Add ETag and Last-Modified to successful reads of routes with a cache policy
+ * Express compares them with If-None-Match and If-Modified-Since when the
+ * body is sent and answers 304 Not Modified on a match. An ETag set by the
+ * controller, such as the strong version tag of a user, is kept.
+ */
+function setValidators(res: Response, response: ApiResponse, statusCode: HttpStatus): void {
+  const policy = getCachePolicy(res);
+  if (!policy || policy.noStore || statusCode !== HttpStatus.OK || !['GET', 'HEAD'].includes(res.req.method)) {
+    return;
+  }
+
+  if (!res.get('ETag')) {
+    const { timestamp: _timestamp, ...payload } = response;
+    res.setHeader('ETag', payloadTag(payload, policy.ignore));
+  }
+
+  const modified = lastModified(response.data);
+  if (modified) {
+    res.setHeader('Last-Modified', modified.toUTCString());
+  }
+}
+
+/**
+ * Build pagination links by rewriting the paging parameters of the current request URL
+ */
+function buildPageLinks(req: Request, meta: PageMeta): PageLinks {
+  const url = new URL(req.originalUrl, 'http://localhost');
+  const linkTo = (params: Record<string, string | undefined>): string => {
+    const target = new URL(url.toString());
+    for (const [key, value] of Object.entries(params)) {
+      if (value === undefined) {
+        target.searchParams.delete(key);
+      } else {
+        target.searchParams.set(key, value);
+      }
+    }
+    return `${target.pathname}${target.search}`;
+  };
+
+  const links: PageLinks = { self: linkTo({}) };
+
+  if (meta.page !== undefined) {
+    const lastPage = Math.max(meta.totalPages ?? 1, 1);
+    links.first = linkTo({ page: '1', after: undefined });
+    links.last = linkTo({ page: String(lastPage), after: undefined });
+    if (meta.page > 1) {
+      links.prev = linkTo({ page: String(meta.page - 1), after: undefined });
+    }
+    if (meta.hasMore) {
+      links.next = linkTo({ page: String(meta.page + 1), after: undefined });
+    }
+  } else {
+    links.first = linkTo({ after: undefined, page: undefined });
+    if (meta.nextCursor) {
+      links.next = linkTo({ after: meta.nextCursor, page: undefined });
+    }
+  }
+
+  return links;
+}
+
 /**
  * Get HTTP status code name
  */
@@ -1,68 +1,269 @@
+import path from 'path';
 import pino from 'pino';
+import { AppConfig, config } from '../config';
+import { activeTraceIds } from '../tracing/tracing';
+import { getRequestContext } from './requestContext';
+import { LogLevelReport } from '../types/Logging';
+
+export type LogOptions = AppConfig['log'];
+
+type Level = LogOptions['level'];
 
 /**
- * Logger configuration based on environment
+ * Paths censored in every log object
+ * `*` matches one level, so both `{ email }` and `{ user: { email } }` are covered.
  */
-const isDevelopment = process.env.NODE_ENV !== 'production';
+export const DEFAULT_REDACT_PATHS = [
+  'email',
+  '*.email',
+  'password',
+  '*.password',
+  'token',
+  '*.token',
+  'accessToken',
+  '*.accessToken',
+  'refreshToken',
+  '*.refreshToken',
+  'headers.authorization',
+  'headers.cookie',
+  '*.headers.authorization',
+  '*.headers.cookie',
+  // Free text searches, which are often email addresses
+  'search',
+  '*.search',
+];
 
 /**
- * Create and configure Pino logger
+ * Pino options for the given settings
+ * Output goes to stdout, pretty-printed in development, and also to a
+ * rotating file when one is configured. Both run in a transport worker;
+ * plain stdout does not, so that tests never start one. Targets accept every
+ * level, so that levels raised at runtime reach them.
+ * @param options - Log settings
  */
-const loggerOptions: any = {
-  level: process.env.LOG_LEVEL || (isDevelopment ? 'debug' : 'info'),
-
-  // Base configuration
-  base: {
-    env: process.env.NODE_ENV || 'development',
-  },
-
-  // Timestamp format
-  timestamp: () => `,"time":"${new Date().toISOString()}"`,
-
-  // Serializers for different types of objects
-  serializers: {
-    req: (req: any) => ({
-      id: req.id,
-      method: req.method,
-      url: req.url,
-      query: req.query,
-      params: req.params,
-      headers: {
-        host: req.headers.host,
-        'user-agent': req.headers['user-agent'],
-        'content-type': req.headers['content-type'],
-      },
-    }),
-    res: (res: any) => ({
-      statusCode: res.statusCode,
-      headers: res.getHeaders(),
-    }),
-    err: pino.stdSerializers.err,
-  },
-};
-
-// Use pino-pretty in development for human-readable logs
-if (isDevelopment) {
-  loggerOptions.transport = {
-    target: 'pino-pretty',
-    options: {
-      colorize: true,
-      translateTime: 'SYS:standard',
-      ignore: 'pid,hostname',
-      singleLine: false,
-      messageFormat: '{levelLabel} - {msg}',
+export function createLoggerOptions(options: LogOptions): pino.LoggerOptions {
+  const loggerOptions: pino.LoggerOptions = {
+    level: options.level,
+
+    // Base configuration
+    base: {
+      env: config.env,
+    },
+
+    // Timestamp format
+    timestamp: () => `,"time":"${new Date().toISOString()}"`,
+
+    // Trace and span of the active span, so that lines can be joined to traces,
+    // and the request being served: its ID, caller and route
+    mixin: () => ({ ...activeTraceIds(), ...getRequestContext() }),
+
+    redact: {
+      paths: [...DEFAULT_REDACT_PATHS, ...options.redactPaths],
+      censor: '[REDACTED]',
+    },
+
+    // Serializers for different types of objects
+    serializers: {
+      req: (req: any) => ({
+        id: req.id,
+        method: req.method,
+        url: req.url,
+        query: req.query,
+        params: req.params,
+        headers: {
+          host: req.headers.host,
+          'user-agent': req.headers['user-agent'],
+          'content-type': req.headers['content-type'],
+        },
+      }),
+      res: (res: any) => ({
+        statusCode: res.statusCode,
+        headers: res.getHeaders(),
+      }),
+      err: pino.stdSerializers.err,
     },
   };
+
+  if (!options.pretty && !options.file) {
+    return loggerOptions;
+  }
+
+  const targets: pino.TransportTargetOptions[] = [
+    // Use pino-pretty in development for human-readable logs
+    options.pretty
+      ? {
+        target: 'pino-pretty',
+        level: 'trace',
+        options: {
+          colorize: true,
+          translateTime: 'SYS:standard',
+          ignore: 'pid,hostname',
+          singleLine: false,
+          messageFormat: '{levelLabel} - {msg}',
+        },
+      }
+      : { target: 'pino/file', level: 'trace', options: { destination: 1 } },
+  ];
+
+  if (options.file) {
+    // app.log is written as app.1.log, app.2.log, ...
+    const { dir, name, ext } = path.parse(options.file.path);
+    targets.push({
+      target: 'pino-roll',
+      level: 'trace',
+      options: {
+        file: path.join(dir, name),
+        extension: ext,
+        frequency: options.file.frequency,
+        size: options.file.size,
+        limit: { count: options.file.count },
+        mkdir: true,
+      },
+    });
+  }
+
+  return { ...loggerOptions, transport: { targets } };
+}
+
+const logger = pino(createLoggerOptions(config.log));
+
+interface LevelOverride {
+  level: Level;
+  expiresAt: Date;
+  timer: NodeJS.Timeout;
 }
 
-const logger = pino(loggerOptions);
+/**
+ * Log levels of the process, changeable at runtime
+ * Every Logger of a module descends from one pino child per module, so a
+ * level set for `UserService` applies to all of its loggers, including those
+ * created later. Levels set here revert to the configured one after their TTL.
+ */
+export class LogLevels {
+  private modules = new Map<string, pino.Logger>();
+  private global: LevelOverride | undefined;
+  private overrides = new Map<string, LevelOverride>();
+
+  constructor(private readonly root: pino.Logger, private readonly defaultLevel: Level) {}
+
+  /**
+   * Shared pino logger of a module
+   */
+  public forModule(module: string): pino.Logger {
+    let moduleLogger = this.modules.get(module);
+    if (!moduleLogger) {
+      moduleLogger = this.root.child({ module });
+      moduleLogger.level = this.overrides.get(module)?.level ?? this.root.level;
+      this.modules.set(module, moduleLogger);
+    }
+    return moduleLogger;
+  }
+
+  /**
+   * Build a pino child of `parent` with the given context
+   * A `module` starts from the module's shared logger, so that its level
+   * follows the one set for the module, and takes over what the parent bound
+   * on top of the root, such as the request being served.
+   */
+  public childOf(parent: pino.Logger, { module, ...context }: Record<string, any>): pino.Logger {
+    if (typeof module !== 'string') {
+      return Object.keys(context).length > 0 ? parent.child(context) : parent;
+    }
+
+    const root = this.root.bindings();
+    const { module: _parentModule, ...inherited } = parent.bindings();
+    const bindings = {
+      ...Object.fromEntries(Object.entries(inherited).filter(([key]) => !(key in root))),
+      ...context,
+    };
+    const moduleLogger = this.forModule(module);
+    return Object.keys(bindings).length > 0 ? moduleLogger.child(bindings) : moduleLogger;
+  }
+
+  /**
+   * Set the level of one module, or the global one of loggers without a
+   * module level, until the TTL runs out
+   */
+  public set(level: Level, ttlSeconds: number, module?: string): LogLevelReport {
+    this.clear(module);
+
+    const override: LevelOverride = {
+      level,
+      expiresAt: new Date(Date.now() + ttlSeconds * 1000),
+      // Unref'd, so that a pending revert never keeps the process alive
+      timer: setTimeout(() => this.reset(module), ttlSeconds * 1000).unref(),
+    };
+    if (module === undefined) {
+      this.global = override;
+    } else {
+      this.overrides.set(module, override);
+    }
+
+    this.apply();
+    return this.report();
+  }
+
+  /**
+   * Revert one module, or the global level, to the configured level now
+   */
+  public reset(module?: string): LogLevelReport {
+    this.clear(module);
+    this.apply();
+    return this.report();
+  }
+
+  public report(): LogLevelReport {
+    const names = [...new Set([...this.modules.keys(), ...this.overrides.keys()])].sort();
+
+    return {
+      level: this.global?.level ?? this.defaultLevel,
+      defaultLevel: this.defaultLevel,
+      expiresAt: this.global?.expiresAt.toISOString() ?? null,
+      modules: names.map(module => {
+        const override = this.overrides.get(module);
+        return {
+          module,
+          level: override?.level ?? this.global?.level ?? this.defaultLevel,
+          expiresAt: override?.expiresAt.toISOString() ?? null,
+        };
+      }),
+    };
+  }
+
+  private clear(module?: string): void {
+    const override = module === undefined ? this.global : this.overrides.get(module);
+    clearTimeout(override?.timer);
+
+    if (module === undefined) {
+      this.global = undefined;
+    } else {
+      this.overrides.delete(module);
+    }
+  }
+
+  /**
+   * Module loggers keep a level of their own once one is set, so every
+   * module without an override is set to the global level again
+   */
+  private apply(): void {
+    this.root.level = this.global?.level ?? this.defaultLevel;
+    for (const [module, moduleLogger] of this.modules) {
+      moduleLogger.level = this.overrides.get(module)?.level ?? this.root.level;
+    }
+  }
+}
+
+/**
+ * Log levels of this process
+ */
+export const logLevels = new LogLevels(logger, config.log.level);
 
 /**
  * Create child logger with additional context
  * @param context - Additional context to include in logs
  */
 export function createLogger(context: Record<string, any>) {
-  return logger.child(context);
+  return logLevels.childOf(logger, context);
 }
 
 /**
@@ -84,7 +285,7 @@ export class Logger {
   private logger: pino.Logger;
 
   constructor(context?: Record<string, any>) {
-    this.logger = context ? logger.child(context) : logger;
+    this.logger = context ? logLevels.childOf(logger, context) : logger;
   }
 
   /**
@@ -142,7 +343,7 @@ export class Logger {
    */
   child(context: Record<string, any>): Logger {
     const childLogger = new Logger();
-    childLogger.logger = this.logger.child(context);
+    childLogger.logger = logLevels.childOf(this.logger, context);
     return childLogger;
   }
 }
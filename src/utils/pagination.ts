@@ -0,0 +1,126 @@
+import { Op, WhereOptions } from 'sequelize';
+import { PageOptions, SortField } from '../types/Pagination';
+import { FieldError } from './validation';
+
+/**
+ * Pagination defaults shared by all list endpoints
+ */
+export const DEFAULT_PAGE_LIMIT = 20;
+export const MAX_PAGE_LIMIT = 100;
+
+/**
+ * Read `limit`, `page` and `after` from an already validated query string
+ * A cursor takes precedence over a page number
+ */
+export function pageOptionsFromQuery<T>(query: Record<string, unknown>): PageOptions<T, never> {
+  const { page, limit, after } = query;
+  const options: PageOptions<T, never> = {
+    limit: limit ? Number(limit) : DEFAULT_PAGE_LIMIT,
+  };
+
+  if (typeof after === 'string' && after) {
+    options.after = after;
+  } else if (page) {
+    options.page = Number(page);
+  }
+
+  return options;
+}
+
+/**
+ * Encode the sort key values of the last row of a page into an opaque cursor
+ */
+export function encodeCursor(values: unknown[]): string {
+  return Buffer.from(JSON.stringify(values)).toString('base64url');
+}
+
+/**
+ * Decode a cursor produced by encodeCursor
+ * Returns undefined when the cursor is malformed
+ */
+export function decodeCursor(cursor: string): unknown[] | undefined {
+  try {
+    const values = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    return Array.isArray(values) ? values : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Rows ordered by relevance have no sort key values to continue from, so
+ * their pages are only reachable by number
+ */
+export const RELEVANCE_CURSOR_ERROR: FieldError = {
+  field: 'after',
+  location: 'query',
+  rule: 'cursor',
+  message: 'after cannot be used on results ordered by relevance; give a sort or use page',
+};
+
+/**
+ * Parse a sort expression such as `name,-createdAt`
+ * A leading `-` means descending order. Returns undefined if any field
+ * is not in the allowed list.
+ * @param expression - Comma separated list of fields
+ * @param allowed - Fields that may be sorted on
+ */
+export function parseSort<T>(
+  expression: string,
+  allowed: ReadonlyArray<keyof T & string>
+): SortField<T>[] | undefined {
+  const fields: SortField<T>[] = [];
+
+  for (const part of expression.split(',').map(p => p.trim()).filter(Boolean)) {
+    const descending = part.startsWith('-');
+    const name = descending ? part.slice(1) : part;
+    const field = allowed.find(f => f === name);
+
+    if (!field) {
+      return undefined;
+    }
+    fields.push({ field, direction: descending ? 'DESC' : 'ASC' });
+  }
+
+  return fields;
+}
+
+/**
+ * Append the primary key to a sort order so that rows are totally ordered,
+ * which keyset (cursor) pagination relies on
+ */
+export function withTieBreaker<T>(
+  sort: SortField<T>[] | undefined,
+  key: keyof T & string
+): SortField<T>[] {
+  const fields = sort ? [...sort] : [];
+  if (!fields.some(s => s.field === key)) {
+    fields.push({ field: key, direction: 'ASC' });
+  }
+  return fields;
+}
+
+/**
+ * Build a keyset condition selecting the rows that come strictly after
+ * the given cursor values in the given sort order:
+ * (a > x) OR (a = x AND b > y) OR ...
+ */
+export function buildKeysetWhere<T>(sort: SortField<T>[], values: unknown[]): WhereOptions {
+  const clauses = sort.map((s, i) => {
+    const clause: Record<string, unknown> = {};
+    sort.slice(0, i).forEach((prev, j) => {
+      clause[prev.field] = values[j];
+    });
+    clause[s.field] = { [s.direction === 'ASC' ? Op.gt : Op.lt]: values[i] };
+    return clause;
+  });
+
+  return { [Op.or]: clauses };
+}
+
+/**
+ * Escape LIKE wildcards in user supplied input
+ */
+export function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, match => `\\${match}`);
+}
@@ -0,0 +1,39 @@
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+const SALT_LENGTH = 16;
+
+/**
+ * Hash of a random password nobody knows, checked when a login has no hash to
+ * check against, so that it takes as long as a wrong password
+ */
+export const DUMMY_PASSWORD_HASH = 'scrypt$dQFwPCqLmBp3x6FyYstq7A==$'
+  + '0p5C+E1YKTBibVZ11oY8xXHQYFDs8ISSRo1hnplUxgdktlg2lVugLqO2DbLqQRKfRu2pV95kJPuFaysMYBAYvg==';
+
+/**
+ * Hash a password with scrypt and a random salt
+ * The result has the form `scrypt$<salt>$<hash>` (both base64)
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_LENGTH);
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString('base64')}$${hash.toString('base64')}`;
+}
+
+/**
+ * Check a password against a hash produced by hashPassword
+ * Uses a constant-time comparison
+ */
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [algorithm, salt, hash] = stored.split('$');
+  if (algorithm !== 'scrypt' || !salt || !hash) {
+    return false;
+  }
+
+  const expected = Buffer.from(hash, 'base64');
+  const actual = await scryptAsync(password, Buffer.from(salt, 'base64'), expected.length);
+  return timingSafeEqual(expected, actual);
+}
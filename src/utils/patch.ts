@@ -0,0 +1,238 @@
+import { isDeepStrictEqual } from 'util';
+import { ConflictError, ValidationError } from '../errors/AppError';
+
+/**
+ * RFC 7396 JSON Merge Patch
+ */
+export const MERGE_PATCH = 'application/merge-patch+json';
+
+/**
+ * RFC 6902 JSON Patch
+ */
+export const JSON_PATCH = 'application/json-patch+json';
+
+export type PatchMediaType = typeof MERGE_PATCH | typeof JSON_PATCH;
+
+const OPERATIONS = ['add', 'remove', 'replace', 'move', 'copy', 'test'] as const;
+
+interface PatchOperation {
+  op: typeof OPERATIONS[number];
+  path: string[];
+  from?: string[];
+  value?: unknown;
+}
+
+/**
+ * Raised while resolving a JSON Pointer; turned into a ValidationError
+ * naming the operation member that holds the pointer
+ */
+class PointerError extends Error {}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Define an own property, so that keys such as `__proto__` are stored as
+ * data instead of replacing the prototype
+ */
+function setProperty(target: Record<string, unknown>, key: string, value: unknown): void {
+  Object.defineProperty(target, key, { value, writable: true, enumerable: true, configurable: true });
+}
+
+/**
+ * Apply a JSON Merge Patch (RFC 7396)
+ * Members set to null are removed, objects are merged recursively and
+ * anything else replaces the target value.
+ * @param target - Document to patch; left unchanged
+ * @param patch - Merge patch document
+ */
+export function applyMergePatch(target: unknown, patch: unknown): unknown {
+  if (!isObject(patch)) {
+    return patch;
+  }
+
+  const result: Record<string, unknown> = isObject(target) ? { ...target } : {};
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === null) {
+      delete result[key];
+    } else {
+      setProperty(result, key, applyMergePatch(result[key], value));
+    }
+  }
+  return result;
+}
+
+/**
+ * Apply a JSON Patch (RFC 6902)
+ * Operations are applied in order to a copy of the target. A malformed
+ * document or a pointer that does not resolve fails with a ValidationError;
+ * a failed `test` operation fails with a ConflictError.
+ * @param target - Document to patch; left unchanged
+ * @param operations - JSON Patch document
+ */
+export function applyJsonPatch(target: unknown, operations: unknown): unknown {
+  if (!Array.isArray(operations)) {
+    throw new ValidationError([{
+      field: 'body',
+      location: 'body',
+      rule: 'type',
+      message: 'A JSON Patch document must be an array of operations',
+    }]);
+  }
+
+  return operations.reduce<unknown>(
+    (document, operation, index) => applyOperation(document, parseOperation(operation, index), index),
+    JSON.parse(JSON.stringify(target ?? null))
+  );
+}
+
+/**
+ * Apply a patch in either supported media type
+ * @param target - Document to patch; left unchanged
+ * @param mediaType - Content-Type the patch was sent as
+ * @param patch - Parsed request body
+ */
+export function applyPatch(target: unknown, mediaType: PatchMediaType, patch: unknown): unknown {
+  return mediaType === JSON_PATCH ? applyJsonPatch(target, patch) : applyMergePatch(target, patch);
+}
+
+function invalidOperation(index: number, member: string, rule: string, message: string): ValidationError {
+  return new ValidationError([{ field: `/${index}/${member}`, location: 'body', rule, message }]);
+}
+
+/**
+ * Parse an RFC 6901 JSON Pointer into its reference tokens
+ */
+function parsePointer(pointer: unknown, index: number, member: string): string[] {
+  if (typeof pointer !== 'string' || (pointer !== '' && !pointer.startsWith('/'))) {
+    throw invalidOperation(index, member, 'pointer', `${member} must be a JSON Pointer`);
+  }
+  return pointer === ''
+    ? []
+    : pointer.slice(1).split('/').map(token => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+function parseOperation(operation: unknown, index: number): PatchOperation {
+  if (!isObject(operation)) {
+    throw invalidOperation(index, 'op', 'type', 'Each operation must be an object');
+  }
+
+  const { op } = operation;
+  if (!OPERATIONS.includes(op as PatchOperation['op'])) {
+    throw invalidOperation(index, 'op', 'enum', `op must be one of: ${OPERATIONS.join(', ')}`);
+  }
+
+  const parsed: PatchOperation = {
+    op: op as PatchOperation['op'],
+    path: parsePointer(operation.path, index, 'path'),
+  };
+  if (op === 'move' || op === 'copy') {
+    parsed.from = parsePointer(operation.from, index, 'from');
+  }
+  if (op === 'add' || op === 'replace' || op === 'test') {
+    if (!('value' in operation)) {
+      throw invalidOperation(index, 'value', 'required', `value is required for ${op}`);
+    }
+    parsed.value = operation.value;
+  }
+  return parsed;
+}
+
+function applyOperation(document: unknown, operation: PatchOperation, index: number): unknown {
+  const { path, from = [] } = operation;
+  let member = 'path';
+
+  try {
+    switch (operation.op) {
+      case 'add':
+        return add(document, path, operation.value);
+      case 'remove':
+        return remove(document, path);
+      case 'replace':
+        return path.length === 0 ? operation.value : add(remove(document, path), path, operation.value);
+      case 'move': {
+        member = 'from';
+        if (path.length > from.length && from.every((token, i) => token === path[i])) {
+          throw new PointerError('a value cannot be moved into one of its children');
+        }
+        const value = resolve(document, from);
+        const removed = remove(document, from);
+        member = 'path';
+        return add(removed, path, value);
+      }
+      case 'copy': {
+        member = 'from';
+        const value = JSON.parse(JSON.stringify(resolve(document, from)));
+        member = 'path';
+        return add(document, path, value);
+      }
+      case 'test':
+        if (!isDeepStrictEqual(resolve(document, path), operation.value)) {
+          throw new ConflictError(`Test operation ${index} failed`, 'PATCH_TEST_FAILED');
+        }
+        return document;
+    }
+  } catch (err) {
+    if (err instanceof PointerError) {
+      throw invalidOperation(index, member, 'pointer', `${member} ${err.message}`);
+    }
+    throw err;
+  }
+}
+
+function arrayIndex(token: string, length: number): number {
+  if (!/^(0|[1-9]\d*)$/.test(token) || Number(token) > length) {
+    throw new PointerError(`has an array index out of range: ${token}`);
+  }
+  return Number(token);
+}
+
+function resolve(document: unknown, tokens: string[]): unknown {
+  let value = document;
+  for (const token of tokens) {
+    if (Array.isArray(value)) {
+      const i = arrayIndex(token, value.length - 1);
+      value = value[i];
+    } else if (isObject(value) && Object.prototype.hasOwnProperty.call(value, token)) {
+      value = value[token];
+    } else {
+      throw new PointerError(`does not exist: /${tokens.join('/')}`);
+    }
+  }
+  return value;
+}
+
+function add(document: unknown, tokens: string[], value: unknown): unknown {
+  const key = tokens[tokens.length - 1];
+  if (key === undefined) {
+    return value;
+  }
+
+  const parent = resolve(document, tokens.slice(0, -1));
+  if (Array.isArray(parent)) {
+    parent.splice(key === '-' ? parent.length : arrayIndex(key, parent.length), 0, value);
+  } else if (isObject(parent)) {
+    setProperty(parent, key, value);
+  } else {
+    throw new PointerError(`does not point into an object or array: /${tokens.join('/')}`);
+  }
+  return document;
+}
+
+function remove(document: unknown, tokens: string[]): unknown {
+  const key = tokens[tokens.length - 1];
+  if (key === undefined) {
+    throw new PointerError('cannot remove the whole document');
+  }
+
+  const parent = resolve(document, tokens.slice(0, -1));
+  if (Array.isArray(parent)) {
+    parent.splice(arrayIndex(key, parent.length - 1), 1);
+  } else if (isObject(parent) && Object.prototype.hasOwnProperty.call(parent, key)) {
+    delete parent[key];
+  } else {
+    throw new PointerError(`does not exist: /${tokens.join('/')}`);
+  }
+  return document;
+}
@@ -0,0 +1,27 @@
+import { Sequelize } from 'sequelize';
+
+/**
+ * Counters of the sequelize-pool connection pool
+ */
+export interface PoolStats {
+  size: number;
+  available: number;
+  using: number;
+  waiting: number;
+  maxSize: number;
+}
+
+/**
+ * Current state of a Sequelize instance's connection pool
+ * Sequelize does not type its pool, so it is read from the connection manager.
+ * @returns undefined until the pool has been created
+ */
+export function poolStats(sequelize: Sequelize): PoolStats | undefined {
+  const pool = (sequelize.connectionManager as unknown as { pool?: PoolStats }).pool;
+  if (!pool) {
+    return undefined;
+  }
+
+  const { size, available, using, waiting, maxSize } = pool;
+  return { size, available, using, waiting, maxSize };
+}
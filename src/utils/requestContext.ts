@@ -0,0 +1,45 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * What is known about the request being served
+ * Fields fill in as the request moves through the middleware.
+ */
+export interface RequestContext {
+  requestId: string;
+  /**
+   * Authenticated caller, once `authenticate` has run
+   */
+  userId?: number;
+  /**
+   * Template of the matched route, such as `/api/users/:id`
+   */
+  route?: string;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Run a function, and everything it starts asynchronously, within a request context
+ * @param context - Context of the request; updates made later are shared with it
+ * @param fn - Rest of the request handling
+ */
+export function runWithRequestContext<T>(context: RequestContext, fn: () => T): T {
+  return storage.run(context, fn);
+}
+
+/**
+ * Context of the request being served, or undefined outside of a request
+ */
+export function getRequestContext(): RequestContext | undefined {
+  return storage.getStore();
+}
+
+/**
+ * Add to the context of the request being served; does nothing outside of a request
+ */
+export function updateRequestContext(values: Partial<Omit<RequestContext, 'requestId'>>): void {
+  const context = storage.getStore();
+  if (context) {
+    Object.assign(context, values);
+  }
+}
@@ -0,0 +1,50 @@
+import { RequestHandler } from 'express';
+import { Permission } from '../types/Permission';
+import { RequestSchema } from './validation';
+
+/**
+ * What a middleware tells the route registry about the routes it guards
+ * The OpenAPI document is built from these, so documented parameters,
+ * security and permissions always match what the route enforces.
+ */
+export interface RouteAnnotation {
+  schema?: RequestSchema;
+  authenticated?: boolean;
+  permission?: Permission;
+  ownPermission?: Permission;
+  /**
+   * Media types accepted for the request body; JSON when not given
+   */
+  consumes?: string[];
+  /**
+   * Cache-Control header of the responses; set on routes that answer 304
+   */
+  cacheControl?: string;
+  /**
+   * Quota of the route group; set on routes that answer 429
+   */
+  rateLimit?: string;
+}
+
+const annotations = new WeakMap<RequestHandler, RouteAnnotation>();
+
+/**
+ * Attach route metadata to a middleware
+ * @param handler - Middleware to describe
+ * @param annotation - What the middleware enforces
+ */
+export function annotate<H extends RequestHandler>(handler: H, annotation: RouteAnnotation): H {
+  annotations.set(handler, annotation);
+  return handler;
+}
+
+/**
+ * Merge the metadata of every middleware in a route's handler chain
+ * @param handlers - Handlers in the order they are mounted
+ */
+export function collectAnnotations(handlers: RequestHandler[]): RouteAnnotation {
+  return handlers.reduce<RouteAnnotation>(
+    (merged, handler) => ({ ...merged, ...annotations.get(handler) }),
+    {}
+  );
+}
@@ -0,0 +1,108 @@
+/**
+ * Share of a term's trigrams a word must contain for the term to match it
+ * despite typos, as pg_trgm's word_similarity measures it. Database
+ * connections set pg_trgm.word_similarity_threshold to the same value.
+ */
+export const WORD_SIMILARITY_THRESHOLD = 0.3;
+
+/**
+ * Shorter queries only match as prefixes; fuzzy matches of two or three
+ * letters are mostly noise
+ */
+export const MIN_FUZZY_LENGTH = 4;
+
+const MAX_TERMS = 8;
+const WORD = /[\p{L}\p{N}]+/gu;
+
+/**
+ * Lowercase words of a search query, without punctuation
+ * @param query - Search as typed
+ */
+export function searchTerms(query: string): string[] {
+  const words = query.toLowerCase().match(WORD) ?? [];
+  return [...new Set(words)].slice(0, MAX_TERMS);
+}
+
+/**
+ * tsquery matching documents with a word starting with every term, such as
+ * `jo:* & sm:*`; terms hold letters and digits only, so need no quoting
+ */
+export function prefixTsQuery(terms: string[]): string {
+  return terms.map(term => `${term}:*`).join(' & ');
+}
+
+/**
+ * Query to match fuzzily, or undefined when the terms are too short
+ */
+export function fuzzyQuery(terms: string[]): string | undefined {
+  const query = terms.join(' ');
+  return query.length >= MIN_FUZZY_LENGTH ? query : undefined;
+}
+
+/**
+ * Whether every term starts some word of the text
+ */
+export function matchesPrefixes(terms: string[], text: string): boolean {
+  const words = text.toLowerCase().match(WORD) ?? [];
+  return terms.length > 0 && terms.every(term => words.some(word => word.startsWith(term)));
+}
+
+/**
+ * Trigrams of every word, padded the way pg_trgm pads them
+ */
+function trigrams(text: string): Set<string> {
+  const result = new Set<string>();
+  for (const word of text.toLowerCase().match(WORD) ?? []) {
+    const padded = `  ${word} `;
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      result.add(padded.slice(i, i + 3));
+    }
+  }
+  return result;
+}
+
+/**
+ * Share of the query's trigrams found in the text, from 0 to 1
+ * Close to pg_trgm's word_similarity, which only counts trigrams of one
+ * stretch of the text.
+ */
+export function wordSimilarity(query: string, text: string): number {
+  const wanted = trigrams(query);
+  if (wanted.size === 0) {
+    return 0;
+  }
+
+  const found = trigrams(text);
+  return [...wanted].filter(trigram => found.has(trigram)).length / wanted.size;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+/**
+ * Wrap the words of a text that the terms match in `<mark>`
+ * A prefix match marks the prefix, a fuzzy match the whole word. Everything
+ * else is HTML-escaped, so the result can be rendered as HTML.
+ * @returns The marked text, or undefined when nothing matched
+ */
+export function highlight(text: string, terms: string[]): string | undefined {
+  let matched = false;
+
+  const html = text.replace(/[\p{L}\p{N}]+|[^\p{L}\p{N}]+/gu, part => {
+    const word = part.toLowerCase();
+    const prefix = terms.filter(term => word.startsWith(term)).sort((a, b) => b.length - a.length)[0];
+
+    if (prefix) {
+      matched = true;
+      return `<mark>${escapeHtml(part.slice(0, prefix.length))}</mark>${escapeHtml(part.slice(prefix.length))}`;
+    }
+    if (terms.some(term => term.length >= MIN_FUZZY_LENGTH && wordSimilarity(term, word) >= WORD_SIMILARITY_THRESHOLD)) {
+      matched = true;
+      return `<mark>${escapeHtml(part)}</mark>`;
+    }
+    return escapeHtml(part);
+  });
+
+  return matched ? html : undefined;
+}
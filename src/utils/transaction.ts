@@ -0,0 +1,113 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { Transaction } from 'sequelize';
+import sequelize from '../config/database';
+import { Logger } from './logger';
+
+const logger = new Logger({ module: 'Transaction' });
+
+const storage = new AsyncLocalStorage<Transaction>();
+
+/**
+ * PostgreSQL error codes worth retrying: serialization_failure and deadlock_detected
+ */
+const RETRYABLE_CODES = new Set(['40001', '40P01']);
+
+const DEFAULT_MAX_RETRIES = 3;
+const BASE_RETRY_DELAY_MS = 20;
+
+export interface TransactionOptions {
+  isolationLevel?: Transaction.ISOLATION_LEVELS;
+  /**
+   * Attempts after the first one on serialization failures and deadlocks
+   */
+  maxRetries?: number;
+}
+
+/**
+ * Runs work atomically
+ * Services depend on this rather than on withTransaction so that storage
+ * backends without transactions can supply their own implementation
+ */
+export type UnitOfWork = <T>(work: () => Promise<T>, options?: TransactionOptions) => Promise<T>;
+
+/**
+ * Get the transaction of the unit of work the caller runs in, if any
+ */
+export function currentTransaction(): Transaction | undefined {
+  return storage.getStore();
+}
+
+/**
+ * Add the ambient transaction to query options unless one is given explicitly
+ * Repositories call this so they join the current unit of work automatically
+ * @param options - Query options
+ */
+export function joinTransaction<T extends { transaction?: Transaction }>(options: T): T {
+  const transaction = options.transaction ?? currentTransaction();
+  return transaction ? { ...options, transaction } : options;
+}
+
+function isRetryable(error: unknown): boolean {
+  const code = (error as { parent?: { code?: string } })?.parent?.code;
+  return code !== undefined && RETRYABLE_CODES.has(code);
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Run work as one atomic unit
+ * Every repository call made inside `work`, however deep, uses the same
+ * transaction without it being passed around. Nested calls join the outer
+ * unit of work. The outermost call commits on success, rolls back on error
+ * and retries the whole unit on serialization failures and deadlocks.
+ * @param work - Operations to run atomically
+ * @param options - Isolation level and retry limit for the outermost transaction
+ */
+export async function withTransaction<T>(
+  work: (transaction: Transaction) => Promise<T>,
+  options: TransactionOptions = {}
+): Promise<T> {
+  const existing = currentTransaction();
+  if (existing) {
+    return await work(existing);
+  }
+
+  const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await sequelize.transaction(
+        options.isolationLevel ? { isolationLevel: options.isolationLevel } : {},
+        transaction => storage.run(transaction, () => work(transaction))
+      );
+    } catch (error) {
+      if (!isRetryable(error) || attempt >= maxRetries) {
+        throw error;
+      }
+
+      const wait = BASE_RETRY_DELAY_MS * 2 ** attempt + Math.floor(Math.random() * BASE_RETRY_DELAY_MS);
+      logger.warn(`Transaction conflict, retrying in ${wait}ms (attempt ${attempt + 1} of ${maxRetries})`, {
+        code: (error as { parent?: { code?: string } }).parent?.code,
+      });
+      await delay(wait);
+    }
+  }
+}
+
+/**
+ * Run a side effect once the ambient transaction has committed
+ * Outside a unit of work it runs right away. Effects that would be wrong
+ * after a rollback, such as dropping cache entries that another request
+ * could refill with the old row before the commit, belong here.
+ * @param effect - Work to run after the commit
+ */
+export async function afterCommit(effect: () => Promise<void>): Promise<void> {
+  const transaction = currentTransaction();
+  if (transaction) {
+    transaction.afterCommit(effect);
+    return;
+  }
+  await effect();
+}
@@ -0,0 +1,188 @@
+import { ValidationError as SequelizeValidationError } from 'sequelize';
+
+/**
+ * Primitive types a field can be checked against.
+ * Values coming from the URL (params and query) are always strings,
+ * so numeric, boolean and date types are parsed from their string form there.
+ */
+export type FieldType = 'string' | 'integer' | 'number' | 'boolean' | 'date';
+
+/**
+ * Custom rule for checks the built-in rules cannot express
+ */
+export interface CustomRule {
+  rule: string;
+  message: string;
+  test: (value: unknown) => boolean;
+}
+
+/**
+ * Declarative rules for a single field
+ */
+export interface FieldSchema {
+  type?: FieldType;
+  required?: boolean;
+  min?: number;
+  max?: number;
+  minLength?: number;
+  maxLength?: number;
+  email?: boolean;
+  pattern?: RegExp;
+  enum?: readonly string[];
+  custom?: CustomRule[];
+}
+
+export type ObjectSchema = Record<string, FieldSchema>;
+
+export type RequestLocation = 'body' | 'params' | 'query';
+
+/**
+ * Where a validated value comes from; environment variables are strings
+ * like URL values, so they are parsed the same way
+ */
+export type FieldLocation = RequestLocation | 'env';
+
+/**
+ * Schemas for the parts of a request validated by the validate middleware
+ */
+export type RequestSchema = Partial<Record<RequestLocation, ObjectSchema>>;
+
+/**
+ * Field-level validation error returned in the `errors` array of 422 responses
+ */
+export interface FieldError {
+  field: string;
+  location?: FieldLocation;
+  rule: string;
+  message: string;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Convert a raw value to the declared type
+ * Returns undefined when the value cannot be represented as that type
+ */
+function coerce(value: unknown, type: FieldType, fromUrl: boolean): unknown {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string' ? value : undefined;
+    case 'integer':
+    case 'number': {
+      const parsed = fromUrl && typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+      if (typeof parsed !== 'number' || !Number.isFinite(parsed)) {
+        return undefined;
+      }
+      return type === 'integer' && !Number.isInteger(parsed) ? undefined : parsed;
+    }
+    case 'boolean':
+      if (typeof value === 'boolean') {
+        return value;
+      }
+      if (fromUrl && (value === 'true' || value === 'false')) {
+        return value === 'true';
+      }
+      return undefined;
+    case 'date': {
+      if (typeof value !== 'string' && !(value instanceof Date)) {
+        return undefined;
+      }
+      const date = new Date(value);
+      return isNaN(date.getTime()) ? undefined : date;
+    }
+  }
+}
+
+/**
+ * Validate a single field against its schema
+ */
+function validateField(
+  field: string,
+  raw: unknown,
+  schema: FieldSchema,
+  location: FieldLocation
+): FieldError[] {
+  const error = (rule: string, message: string): FieldError[] => [{ field, location, rule, message }];
+
+  if (raw === undefined || raw === null || raw === '') {
+    return schema.required ? error('required', `${field} is required`) : [];
+  }
+
+  let value: unknown = raw;
+  if (schema.type) {
+    value = coerce(raw, schema.type, location !== 'body');
+    if (value === undefined) {
+      return error('type', `${field} must be a valid ${schema.type}`);
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.min !== undefined && value < schema.min) {
+      return error('min', `${field} must be at least ${schema.min}`);
+    }
+    if (schema.max !== undefined && value > schema.max) {
+      return error('max', `${field} must be at most ${schema.max}`);
+    }
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.trim().length < schema.minLength) {
+      return error('minLength', `${field} must be at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      return error('maxLength', `${field} must be at most ${schema.maxLength} characters`);
+    }
+    if (schema.email && !EMAIL_PATTERN.test(value)) {
+      return error('email', `${field} must be a valid email address`);
+    }
+    if (schema.pattern && !schema.pattern.test(value)) {
+      return error('pattern', `${field} has an invalid format`);
+    }
+    if (schema.enum && !schema.enum.includes(value)) {
+      return error('enum', `${field} must be one of: ${schema.enum.join(', ')}`);
+    }
+  }
+
+  for (const custom of schema.custom ?? []) {
+    if (!custom.test(value)) {
+      return error(custom.rule, custom.message);
+    }
+  }
+
+  return [];
+}
+
+/**
+ * Validate an object against a schema
+ * Reports at most one error per field
+ * @param source - Object to validate (req.body, req.params, req.query or the environment)
+ * @param schema - Field schemas keyed by field name
+ * @param location - Part of the request being validated, or `env`
+ */
+export function validateObject(
+  source: unknown,
+  schema: ObjectSchema,
+  location: FieldLocation
+): FieldError[] {
+  if (location === 'body' && (typeof source !== 'object' || source === null || Array.isArray(source))) {
+    return [{ field: 'body', location, rule: 'type', message: 'Request body must be a JSON object' }];
+  }
+
+  const values = (source ?? {}) as Record<string, unknown>;
+  return Object.entries(schema).flatMap(([field, fieldSchema]) =>
+    validateField(field, values[field], fieldSchema, location)
+  );
+}
+
+/**
+ * Map a Sequelize validation error (including UniqueConstraintError)
+ * to the field error shape used by the validation middleware
+ */
+export function fromSequelizeError(error: SequelizeValidationError): FieldError[] {
+  return error.errors.map(item => ({
+    field: item.path ?? 'unknown',
+    location: 'body',
+    rule: item.validatorKey ?? item.type ?? 'invalid',
+    message: item.message,
+  }));
+}
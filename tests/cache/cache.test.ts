@@ -0,0 +1,143 @@
+import { LruCache } from '../../src/cache/LruCache';
+import { NoCache } from '../../src/cache/NoCache';
+import { RedisCache } from '../../src/cache/RedisCache';
+import { CachedUserRepository } from '../../src/repositories/CachedUserRepository';
+import { InMemoryUserRepository } from '../../src/repositories/InMemoryUserRepository';
+import { Logger } from '../../src/utils/logger';
+import { FakeRedisClient } from '../support/fakes';
+
+describe('LruCache', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('evicts the least recently used entry', async () => {
+    const cache = new LruCache(2);
+    await cache.set('a', 1, 60);
+    await cache.set('b', 2, 60);
+    await cache.get('a');
+    await cache.set('c', 3, 60);
+
+    expect(await cache.get('a')).toBe(1);
+    expect(await cache.get('b')).toBeUndefined();
+    expect(await cache.get('c')).toBe(3);
+    expect(cache.stats()).toMatchObject({ hits: 3, misses: 1, evictions: 1, size: 2 });
+  });
+
+  it('expires entries after their TTL', async () => {
+    jest.useFakeTimers();
+    const cache = new LruCache(10);
+    await cache.set('a', 1, 5);
+
+    jest.advanceTimersByTime(4999);
+    expect(await cache.get('a')).toBe(1);
+    jest.advanceTimersByTime(1);
+    expect(await cache.get('a')).toBeUndefined();
+  });
+
+  it('hands out copies', async () => {
+    const cache = new LruCache(10);
+    await cache.set('user', { name: 'Ann', createdAt: new Date(0) }, 60);
+
+    const first = await cache.get<{ name: string; createdAt: Date }>('user');
+    first!.name = 'Changed';
+
+    expect(await cache.get('user')).toEqual({ name: 'Ann', createdAt: new Date(0) });
+  });
+});
+
+describe('NoCache', () => {
+  it('keeps nothing and reports no backend', async () => {
+    const cache = new NoCache();
+    await cache.set('a', 1, 60);
+
+    expect(await cache.get('a')).toBeUndefined();
+    expect(cache.stats()).toEqual({ backend: 'none', hits: 0, misses: 0, hitRate: 0, sets: 0, deletes: 0 });
+    await expect(cache.ping()).resolves.toBeUndefined();
+  });
+});
+
+describe('RedisCache', () => {
+  const logger = new Logger();
+
+  it('round-trips values with their dates under the key prefix', async () => {
+    const client = new FakeRedisClient();
+    const cache = new RedisCache(client, 'test:', logger);
+    await cache.set('user:1', { id: 1, createdAt: new Date(0), deletedAt: null }, 60);
+
+    expect(client.keys()).toEqual(['test:user:1']);
+    expect(await cache.get('user:1')).toEqual({ id: 1, createdAt: new Date(0), deletedAt: null });
+    expect(cache.stats()).toMatchObject({ backend: 'redis', hits: 1, misses: 0, sets: 1 });
+  });
+
+  it('treats an unreachable server as a miss', async () => {
+    const client = new FakeRedisClient();
+    const cache = new RedisCache(client, 'test:', logger);
+    await cache.set('a', 1, 60);
+    client.down = true;
+
+    expect(await cache.get('a')).toBeUndefined();
+    await expect(cache.set('b', 2, 60)).resolves.toBeUndefined();
+    expect(cache.stats()).toMatchObject({ misses: 1, errors: 2 });
+  });
+});
+
+describe('CachedUserRepository', () => {
+  const setup = async () => {
+    const store = new InMemoryUserRepository();
+    const cache = new LruCache(100);
+    const users = new CachedUserRepository(store, cache, 60);
+    const user = await users.create({ name: 'Ann', email: 'ann@cache.test' });
+    const findById = jest.spyOn(store, 'findById');
+    const findByEmail = jest.spyOn(store, 'findByEmail');
+    return { store, users, cache, user, findById, findByEmail };
+  };
+
+  it('reads users through the cache', async () => {
+    const { users, user, findById, findByEmail } = await setup();
+
+    await users.findById(user.id);
+    await users.findById(user.id);
+    await users.findByEmail('ANN@cache.test');
+    await users.findByEmail('ann@cache.test');
+
+    expect(findById).toHaveBeenCalledTimes(1);
+    expect(findByEmail).toHaveBeenCalledTimes(1);
+  });
+
+  it('drops cached users when they change', async () => {
+    const { users, user } = await setup();
+    await users.findByEmail('ann@cache.test');
+
+    await users.update(user.id, { email: 'anne@cache.test' });
+
+    expect((await users.findById(user.id))?.email).toBe('anne@cache.test');
+    expect(await users.findByEmail('ann@cache.test')).toBeUndefined();
+
+    await users.delete(user.id);
+    expect(await users.findById(user.id)).toBeUndefined();
+    expect(await users.findByEmail('anne@cache.test')).toBeUndefined();
+  });
+
+  it('does not keep a user read before a concurrent update committed', async () => {
+    const { store, users, user, findById } = await setup();
+    findById.mockImplementationOnce(async id => {
+      const before = await InMemoryUserRepository.prototype.findById.call(store, id);
+      await users.update(user.id, { name: 'Annie' });
+      return before;
+    });
+
+    expect((await users.findById(user.id))?.name).toBe('Ann');
+    expect((await users.findById(user.id))?.name).toBe('Annie');
+  });
+
+  it('does not cache misses or soft-deleted lookups', async () => {
+    const { users, user, findById } = await setup();
+
+    await users.findById(999);
+    await users.findById(999);
+    await users.findById(user.id, { includeDeleted: true });
+
+    expect(findById).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,45 @@
+import { Sequelize } from 'sequelize';
+import { connectionPoolCheck, migrationsCheck } from '../../src/health/checks';
+
+/**
+ * Just enough of Sequelize for the checks
+ */
+function fakeSequelize(applied: string[], pool?: Record<string, number>): Sequelize {
+  return {
+    query: jest.fn(async () => applied.map(name => ({ name }))),
+    connectionManager: { pool },
+  } as unknown as Sequelize;
+}
+
+describe('migrationsCheck', () => {
+  it('lists migrations that have not been applied', async () => {
+    const check = migrationsCheck(fakeSequelize(['20240101000000-create-users-table.ts']));
+
+    const result = await check.run();
+
+    expect(result.status).toBe('fail');
+    expect(result.details?.pending).toContain('20240601000000-add-version-to-users');
+    expect(result.details?.pending).not.toContain('20240101000000-create-users-table');
+  });
+
+  it('stops querying once everything is applied', async () => {
+    const { readdirSync } = jest.requireActual('fs');
+    const files: string[] = readdirSync(`${__dirname}/../../src/migrations`);
+    const sequelize = fakeSequelize(files.map(file => file.replace('.ts', '.js')));
+    const check = migrationsCheck(sequelize);
+
+    expect((await check.run()).status).toBe('pass');
+    expect((await check.run()).status).toBe('pass');
+    expect(sequelize.query).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('connectionPoolCheck', () => {
+  it('warns when requests wait for a connection', async () => {
+    const busy = fakeSequelize([], { size: 5, available: 0, using: 5, waiting: 3, maxSize: 5 });
+    const idle = fakeSequelize([], { size: 2, available: 2, using: 0, waiting: 0, maxSize: 5 });
+
+    expect(await connectionPoolCheck(busy).run()).toMatchObject({ status: 'warn', details: { waiting: 3, max: 5 } });
+    expect((await connectionPoolCheck(idle).run()).status).toBe('pass');
+  });
+});
@@ -0,0 +1,36 @@
+import request from 'supertest';
+import { ADMIN_EMAIL, USER_EMAIL, createHarness, TestHarness } from '../support/harness';
+
+describe('/api/cache', () => {
+  let harness: TestHarness;
+
+  beforeAll(async () => {
+    harness = await createHarness();
+  });
+
+  afterAll(async () => {
+    await harness.close();
+  });
+
+  describe('GET /api/cache/stats', () => {
+    it('counts hits and misses of user lookups', async () => {
+      const admin = await harness.authAs(ADMIN_EMAIL);
+      const before = (await request(harness.app).get('/api/cache/stats').set('Authorization', admin)).body.data;
+
+      await request(harness.app).get('/api/users/2');
+      await request(harness.app).get('/api/users/2');
+
+      const res = await request(harness.app).get('/api/cache/stats').set('Authorization', admin);
+      expect(res.status).toBe(200);
+      expect(res.body.data.backend).toBe('memory');
+      expect(res.body.data.hits).toBeGreaterThan(before.hits);
+      expect(res.body.data.hitRate).toBeGreaterThan(0);
+    });
+
+    it('requires the cache:read permission', async () => {
+      const res = await request(harness.app).get('/api/cache/stats').set('Authorization', await harness.authAs(USER_EMAIL));
+
+      expect(res.status).toBe(403);
+    });
+  });
+});
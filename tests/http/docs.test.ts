@@ -0,0 +1,93 @@
+import request from 'supertest';
+import { createHarness, TestHarness } from '../support/harness';
+
+describe('API documentation', () => {
+  let harness: TestHarness;
+
+  beforeAll(async () => {
+    harness = await createHarness();
+  });
+
+  afterAll(async () => {
+    await harness.close();
+  });
+
+  describe('GET /api/openapi.json', () => {
+    it('documents every registered route', async () => {
+      const res = await request(harness.app).get('/api/openapi.json');
+      const routes = harness.container.resolve('routeRegistry').list();
+
+      expect(res.status).toBe(200);
+      expect(res.body.openapi).toBe('3.1.0');
+      for (const route of routes) {
+        const path = route.path.replace(/:(\w+)/g, '{$1}');
+        expect(res.body.paths[path]?.[route.method]?.operationId).toBe(route.operationId);
+      }
+    });
+
+    it('derives parameters, security and errors from the route middleware', async () => {
+      const res = await request(harness.app).get('/api/openapi.json');
+      const update = res.body.paths['/api/users/{id}'].put;
+
+      expect(update.parameters).toContainEqual(expect.objectContaining({ name: 'id', in: 'path', required: true }));
+      expect(update.requestBody.content['application/json'].schema).toEqual({ $ref: '#/components/schemas/ReplaceUserDto' });
+      expect(update.security).toEqual([{ bearerAuth: [] }]);
+      expect(Object.keys(update.responses)).toEqual(expect.arrayContaining(['200', '401', '403', '404', '412', '422']));
+      expect(update.description).toContain('users:update:own');
+    });
+
+    it('documents each media type a route consumes', async () => {
+      const res = await request(harness.app).get('/api/openapi.json');
+      const patch = res.body.paths['/api/users/{id}'].patch;
+
+      expect(patch.requestBody.content).toEqual({
+        'application/merge-patch+json': { schema: { $ref: '#/components/schemas/UserMergePatch' } },
+        'application/json-patch+json': { schema: { $ref: '#/components/schemas/JsonPatch' } },
+      });
+      expect(patch.parameters).toContainEqual(expect.objectContaining({ name: 'If-Match', in: 'header' }));
+      expect(patch.responses['415']).toBeDefined();
+    });
+
+    it('documents the rate limit of limited routes', async () => {
+      const res = await request(harness.app).get('/api/openapi.json');
+      const hello = res.body.paths['/api/hello'].get;
+
+      expect(hello.responses['429'].headers['Retry-After']).toBeDefined();
+      expect(hello.responses['429'].description).toContain('per 60 seconds');
+    });
+
+    it('describes the shared types as components', async () => {
+      const res = await request(harness.app).get('/api/openapi.json');
+
+      expect(Object.keys(res.body.components.schemas)).toEqual(
+        expect.arrayContaining(['User', 'CreateUserDto', 'ReplaceUserDto', 'HelloMessage', 'ApiResponse'])
+      );
+      expect(res.body.components.schemas.CreateUserDto.required).toEqual(['name', 'email']);
+    });
+  });
+
+  describe('GET /api/docs', () => {
+    it('serves the documentation page and its assets', async () => {
+      const page = await request(harness.app).get('/api/docs');
+      const bundle = await request(harness.app).get('/api/docs/assets/swagger-ui-bundle.js');
+
+      expect(page.status).toBe(200);
+      expect(page.type).toBe('text/html');
+      expect(bundle.status).toBe(200);
+    });
+  });
+
+  describe('GET /', () => {
+    it('lists the endpoints from the route registry', async () => {
+      const res = await request(harness.app).get('/');
+
+      expect(res.status).toBe(200);
+      expect(res.body.endpoints).toMatchObject({
+        listUsers: 'GET /api/users',
+        getCurrentUser: 'GET /api/users/me',
+        hello: 'GET /api/hello',
+        getOpenApiDocument: 'GET /api/openapi.json',
+      });
+    });
+  });
+});
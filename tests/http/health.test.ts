@@ -0,0 +1,78 @@
+import request from 'supertest';
+import { createHarness, TestHarness } from '../support/harness';
+import { HealthService } from '../../src/services/HealthService';
+import { HealthCheck } from '../../src/types/Health';
+
+describe('health probes', () => {
+  let harness: TestHarness;
+
+  beforeAll(async () => {
+    harness = await createHarness();
+  });
+
+  afterAll(async () => {
+    await harness.close();
+  });
+
+  it('reports the process as live', async () => {
+    const res = await request(harness.app).get('/health/live');
+
+    expect(res.status).toBe(200);
+    expect(res.body.status).toBe('OK');
+  });
+
+  it('reports ready with the result of every check', async () => {
+    const res = await request(harness.app).get('/health/ready');
+
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({ status: 'pass', shuttingDown: false });
+    expect(res.body.checks.cache).toMatchObject({ status: 'pass', details: { backend: 'memory' } });
+    expect(res.body.checks.cache.latencyMs).toEqual(expect.any(Number));
+  });
+
+  describe('with failing dependencies', () => {
+    const check = (name: string, run: HealthCheck['run']): HealthCheck => ({ name, run });
+    const probe = (checks: HealthCheck[]) => createHarness(container => container
+      .register('healthService', c => new HealthService(checks, 50, c.resolve('logger'))));
+
+    it('stays ready when a check only warns', async () => {
+      const failing = await probe([check('cache', async () => ({ status: 'warn', error: 'Connection is closed.' }))]);
+
+      const res = await request(failing.app).get('/health/ready');
+
+      expect(res.status).toBe(200);
+      expect(res.body.status).toBe('warn');
+      await failing.close();
+    });
+
+    it('answers 503 when a check fails, throws or times out', async () => {
+      const failing = await probe([
+        check('migrations', async () => ({ status: 'fail', details: { pending: ['20990101000000-next'] } })),
+        check('database', () => Promise.reject(new Error('connect ECONNREFUSED'))),
+        check('slow', () => new Promise(() => {})),
+      ]);
+
+      const res = await request(failing.app).get('/health/ready');
+
+      expect(res.status).toBe(503);
+      expect(res.body.status).toBe('fail');
+      expect(res.body.checks.migrations.details.pending).toEqual(['20990101000000-next']);
+      expect(res.body.checks.database).toMatchObject({ status: 'fail', error: 'connect ECONNREFUSED' });
+      expect(res.body.checks.slow).toMatchObject({ status: 'fail', error: 'Timed out after 50ms' });
+      await failing.close();
+    });
+  });
+
+  it('stops reporting ready once shutdown begins, while staying live', async () => {
+    const draining = await createHarness();
+    draining.container.resolve('healthService').beginShutdown();
+
+    const ready = await request(draining.app).get('/health/ready');
+    const live = await request(draining.app).get('/health/live');
+
+    expect(ready.status).toBe(503);
+    expect(ready.body).toMatchObject({ status: 'fail', shuttingDown: true });
+    expect(live.status).toBe(200);
+    await draining.close();
+  });
+});
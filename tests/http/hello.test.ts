@@ -0,0 +1,114 @@
+import request from 'supertest';
+import { createHarness, TestHarness } from '../support/harness';
+
+describe('/api/hello', () => {
+  let harness: TestHarness;
+
+  beforeAll(async () => {
+    harness = await createHarness();
+  });
+
+  afterAll(async () => {
+    await harness.close();
+  });
+
+  describe('GET /api/hello', () => {
+    it('greets in English by default', async () => {
+      const res = await request(harness.app).get('/api/hello');
+
+      expect(res.status).toBe(200);
+      expect(res.body.success).toBe(true);
+      expect(res.body.data).toMatchObject({ message: 'Hello World!', language: 'en' });
+    });
+
+    it('greets in the requested language', async () => {
+      const res = await request(harness.app).get('/api/hello?lang=ES');
+
+      expect(res.status).toBe(200);
+      expect(res.body.data).toMatchObject({ message: '¡Hola Mundo!', language: 'es' });
+    });
+
+    it('falls back to English for unknown languages', async () => {
+      const res = await request(harness.app).get('/api/hello?lang=xx');
+
+      expect(res.status).toBe(200);
+      expect(res.body.data).toMatchObject({ message: 'Hello World!', language: 'xx' });
+    });
+
+    it('rejects a malformed language code', async () => {
+      const res = await request(harness.app).get('/api/hello?lang=english');
+
+      expect(res.status).toBe(422);
+      expect(res.body.code).toBe('VALIDATION_FAILED');
+      expect(res.body.errors[0]).toMatchObject({ field: 'lang', location: 'query' });
+    });
+  });
+
+  describe('caching', () => {
+    it('revalidates greetings whose only change is their timestamp', async () => {
+      const first = await request(harness.app).get('/api/hello?lang=fr');
+      const res = await request(harness.app).get('/api/hello?lang=fr').set('If-None-Match', first.headers.etag as string);
+
+      expect(first.headers['cache-control']).toBe('public, max-age=60');
+      expect(first.headers.etag).toMatch(/^W\/"/);
+      expect(res.status).toBe(304);
+    });
+
+    it('sends the full greeting when it has changed', async () => {
+      const first = await request(harness.app).get('/api/hello?lang=fr');
+      const res = await request(harness.app).get('/api/hello?lang=de').set('If-None-Match', first.headers.etag as string);
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.language).toBe('de');
+    });
+  });
+
+  describe('GET /api/hello/personalized/:name', () => {
+    it('greets the given name', async () => {
+      const res = await request(harness.app).get('/api/hello/personalized/Ada');
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.message).toBe('Hello Ada!');
+    });
+
+    it('greets the given name in the requested language', async () => {
+      const res = await request(harness.app).get('/api/hello/personalized/Ada?lang=de');
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.message).toBe('Hallo Ada!');
+    });
+
+    it('rejects names longer than 100 characters', async () => {
+      const res = await request(harness.app).get(`/api/hello/personalized/${'a'.repeat(101)}`);
+
+      expect(res.status).toBe(422);
+      expect(res.body.errors[0]).toMatchObject({ field: 'name', location: 'params' });
+    });
+  });
+
+  describe('GET /api/hello/random', () => {
+    it('greets in one of the supported languages', async () => {
+      const languages = (await request(harness.app).get('/api/hello/languages')).body.data.languages;
+      const res = await request(harness.app).get('/api/hello/random');
+
+      expect(res.status).toBe(200);
+      expect(languages).toContain(res.body.data.language);
+    });
+  });
+
+  describe('GET /api/hello/languages', () => {
+    it('lists the supported languages', async () => {
+      const res = await request(harness.app).get('/api/hello/languages');
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.languages).toEqual(expect.arrayContaining(['en', 'es', 'fr', 'de']));
+      expect(res.body.data.count).toBe(res.body.data.languages.length);
+    });
+
+    it('may be cached for a day', async () => {
+      const res = await request(harness.app).get('/api/hello/languages');
+
+      expect(res.headers['cache-control']).toBe('public, max-age=86400');
+    });
+  });
+});
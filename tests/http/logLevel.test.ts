@@ -0,0 +1,87 @@
+import request from 'supertest';
+import { ADMIN_EMAIL, USER_EMAIL, createHarness, TestHarness } from '../support/harness';
+import { logLevels } from '../../src/utils/logger';
+
+describe('/admin/log-level', () => {
+  let harness: TestHarness;
+  let admin: string;
+
+  beforeAll(async () => {
+    harness = await createHarness();
+    admin = await harness.authAs(ADMIN_EMAIL);
+  });
+
+  afterEach(() => {
+    logLevels.reset();
+    logLevels.reset('UserService');
+  });
+
+  afterAll(async () => {
+    await harness.close();
+  });
+
+  const moduleLevel = (body: any, module: string) =>
+    body.data.modules.find((entry: { module: string }) => entry.module === module);
+
+  it('lists the global level and the level of every module', async () => {
+    const res = await request(harness.app).get('/admin/log-level').set('Authorization', admin);
+
+    expect(res.status).toBe(200);
+    expect(res.body.data).toMatchObject({ level: 'silent', defaultLevel: 'silent', expiresAt: null });
+    expect(moduleLevel(res.body, 'UserService')).toEqual({ module: 'UserService', level: 'silent', expiresAt: null });
+  });
+
+  it('sets the level of one module until the TTL runs out', async () => {
+    const before = Date.now();
+    const res = await request(harness.app)
+      .put('/admin/log-level')
+      .set('Authorization', admin)
+      .send({ level: 'debug', module: 'UserService', ttlSeconds: 60 });
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.level).toBe('silent');
+    expect(moduleLevel(res.body, 'UserService').level).toBe('debug');
+    expect(moduleLevel(res.body, 'AuthService').level).toBe('silent');
+    expect(Date.parse(moduleLevel(res.body, 'UserService').expiresAt)).toBeGreaterThanOrEqual(before + 60_000);
+  });
+
+  it('sets the global level for the configured TTL by default and resets it', async () => {
+    const set = await request(harness.app).put('/admin/log-level').set('Authorization', admin).send({ level: 'warn' });
+
+    expect(set.body.data.level).toBe('warn');
+    expect(Date.parse(set.body.data.expiresAt)).toBeGreaterThan(Date.now() + 800_000);
+    expect(moduleLevel(set.body, 'UserService').level).toBe('warn');
+
+    const reset = await request(harness.app).delete('/admin/log-level').set('Authorization', admin);
+
+    expect(reset.body.data).toMatchObject({ level: 'silent', expiresAt: null });
+  });
+
+  it('rejects unknown levels and TTLs over a day', async () => {
+    const res = await request(harness.app)
+      .put('/admin/log-level')
+      .set('Authorization', admin)
+      .send({ level: 'verbose', ttlSeconds: 86401 });
+
+    expect(res.status).toBe(422);
+    expect(res.body.errors.map((error: { field: string }) => error.field).sort()).toEqual(['level', 'ttlSeconds']);
+  });
+
+  it('requires JSON', async () => {
+    const res = await request(harness.app)
+      .put('/admin/log-level')
+      .set('Authorization', admin)
+      .type('form')
+      .send({ level: 'debug' });
+
+    expect(res.status).toBe(415);
+    expect(res.body.code).toBe('UNSUPPORTED_MEDIA_TYPE');
+  });
+
+  it('requires the logs:manage permission', async () => {
+    const user = await harness.authAs(USER_EMAIL);
+
+    expect((await request(harness.app).get('/admin/log-level')).status).toBe(401);
+    expect((await request(harness.app).get('/admin/log-level').set('Authorization', user)).status).toBe(403);
+  });
+});
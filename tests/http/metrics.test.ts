@@ -0,0 +1,71 @@
+import request from 'supertest';
+import { ADMIN_EMAIL, createHarness, TestHarness } from '../support/harness';
+
+describe('GET /metrics', () => {
+  let harness: TestHarness;
+
+  beforeEach(async () => {
+    harness = await createHarness();
+  });
+
+  afterEach(async () => {
+    await harness.close();
+  });
+
+  const series = async (name: string) => {
+    const metric = harness.container.resolve('metrics').registry.getSingleMetric(name);
+    return metric ? (await metric.get()).values : [];
+  };
+
+  it('serves process metrics in the Prometheus text format', async () => {
+    const res = await request(harness.app).get('/metrics');
+
+    expect(res.status).toBe(200);
+    expect(res.headers['content-type']).toMatch(/^text\/plain;.*version=0\.0\.4/);
+    expect(res.text).toContain('# TYPE nodejs_eventloop_lag_seconds gauge');
+    expect(res.text).toContain('# TYPE http_request_duration_seconds histogram');
+  });
+
+  it('labels requests with their route template, including failed ones', async () => {
+    await request(harness.app).get('/api/users/1');
+    await request(harness.app).get('/api/users/999');
+    await request(harness.app).get('/api/users/abc');
+
+    const requests = await series('http_requests_total');
+
+    expect(requests).toEqual(expect.arrayContaining([
+      expect.objectContaining({ labels: { method: 'GET', route: '/api/users/:id', status: '200' }, value: 1 }),
+      expect.objectContaining({ labels: { method: 'GET', route: '/api/users/:id', status: '404' }, value: 1 }),
+      expect.objectContaining({ labels: { method: 'GET', route: '/api/users/:id', status: '422' }, value: 1 }),
+    ]));
+  });
+
+  it('groups requests no route matched under one label', async () => {
+    await request(harness.app).get('/wp-admin/setup.php');
+    await request(harness.app).get('/api/nothing-here');
+
+    const requests = await series('http_requests_total');
+
+    expect(requests).toEqual([
+      expect.objectContaining({ labels: { method: 'GET', route: 'unmatched', status: '404' }, value: 2 }),
+    ]);
+  });
+
+  it('counts users created and deleted', async () => {
+    const admin = await harness.authAs(ADMIN_EMAIL);
+    const created = await request(harness.app)
+      .post('/api/users')
+      .set('Authorization', admin)
+      .send({ name: 'Metric Person', email: 'metric@example.com' });
+    await request(harness.app).delete(`/api/users/${created.body.data.id}`).set('Authorization', admin);
+    await request(harness.app)
+      .post('/api/auth/register')
+      .send({ name: 'Self Made', email: 'self@example.com', password: 'correct horse battery' });
+
+    const res = await request(harness.app).get('/metrics');
+
+    expect(res.text).toContain('users_created_total{source="admin"} 1');
+    expect(res.text).toContain('users_created_total{source="registration"} 1');
+    expect(res.text).toContain('users_deleted_total 1');
+  });
+});
@@ -0,0 +1,83 @@
+import request from 'supertest';
+import { ADMIN_EMAIL, USER_EMAIL, createHarness, TestHarness } from '../support/harness';
+import { createRateLimit } from '../../src/middleware/rateLimit';
+import { rateLimitPolicies } from '../../src/config/rateLimit';
+import { RateLimitStore } from '../../src/rateLimit/RateLimitStore';
+
+describe('rate limiting', () => {
+  let harness: TestHarness;
+
+  beforeAll(async () => {
+    harness = await createHarness(container => container.register('rateLimit', c => createRateLimit(
+      c.resolve('rateLimitStore'),
+      c.resolve('logger'),
+      {
+        ...rateLimitPolicies,
+        hello: { limit: 2, windowSeconds: 3600, keyBy: 'ip' },
+        userWrites: { limit: 1, windowSeconds: 3600, keyBy: 'user' },
+      }
+    )));
+  });
+
+  afterAll(async () => {
+    await harness.close();
+  });
+
+  it('sends the remaining quota of the route group', async () => {
+    const res = await request(harness.app).get('/api/hello/languages');
+
+    expect(res.status).toBe(200);
+    expect(res.headers['ratelimit-limit']).toBe('2');
+    expect(res.headers['ratelimit-remaining']).toBe('1');
+    expect(res.headers['ratelimit-policy']).toBe('2;w=3600');
+  });
+
+  it('responds 429 with Retry-After once the group quota is used up', async () => {
+    await request(harness.app).get('/api/hello');
+    const res = await request(harness.app).get('/api/hello/random');
+
+    expect(res.status).toBe(429);
+    expect(res.body.code).toBe('RATE_LIMITED');
+    expect(Number(res.headers['retry-after'])).toBeGreaterThan(0);
+    expect(res.headers['retry-after']).toBe(res.headers['ratelimit-reset']);
+  });
+
+  it('counts writes per authenticated user', async () => {
+    const admin = await harness.authAs(ADMIN_EMAIL);
+    const user = await harness.authAs(USER_EMAIL);
+
+    const first = await request(harness.app).delete('/api/users/999').set('Authorization', admin);
+    const second = await request(harness.app).delete('/api/users/999').set('Authorization', admin);
+    const other = await request(harness.app).delete('/api/users/999').set('Authorization', user);
+
+    expect(first.status).toBe(404);
+    expect(second.status).toBe(429);
+    expect(other.status).toBe(403);
+  });
+
+  it('limits the audit trail, cache statistics and logout', async () => {
+    const admin = await harness.authAs(ADMIN_EMAIL);
+
+    const audit = await request(harness.app).get('/api/audit').set('Authorization', admin);
+    const cache = await request(harness.app).get('/api/cache/stats').set('Authorization', admin);
+    const logout = await request(harness.app).post('/api/auth/logout').send({ refreshToken: 'unknown' });
+
+    expect(audit.headers['ratelimit-policy']).toBe(`${rateLimitPolicies.admin.limit};w=${rateLimitPolicies.admin.windowSeconds}`);
+    expect(Number(cache.headers['ratelimit-remaining'])).toBe(Number(audit.headers['ratelimit-remaining']) - 1);
+    expect(logout.headers['ratelimit-policy']).toBe(`${rateLimitPolicies.auth.limit};w=${rateLimitPolicies.auth.windowSeconds}`);
+  });
+
+  it('lets requests through when the store fails', async () => {
+    const broken: RateLimitStore = {
+      increment: () => Promise.reject(new Error('Connection is closed.')),
+      close: () => Promise.resolve(),
+    };
+    const failing = await createHarness(container => container.instance('rateLimitStore', broken));
+
+    const res = await request(failing.app).get('/api/hello');
+
+    expect(res.status).toBe(200);
+    expect(res.headers['ratelimit-limit']).toBeUndefined();
+    await failing.close();
+  });
+});
@@ -0,0 +1,92 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import request from 'supertest';
+import { ADMIN_EMAIL, createHarness, TestHarness } from '../support/harness';
+import { RequestContext, getRequestContext, runWithRequestContext, updateRequestContext } from '../../src/utils/requestContext';
+
+describe('request context', () => {
+  let harness: TestHarness;
+  // Contexts the user store was written in
+  let contexts: Array<RequestContext | undefined>;
+
+  beforeAll(async () => {
+    harness = await createHarness();
+    const store = harness.container.resolve('userStore');
+    const create = store.create.bind(store);
+    jest.spyOn(store, 'create').mockImplementation(async data => {
+      const context = getRequestContext();
+      contexts.push(context && { ...context });
+      return await create(data);
+    });
+  });
+
+  beforeEach(() => {
+    contexts = [];
+  });
+
+  afterAll(async () => {
+    await harness.close();
+  });
+
+  it('reaches the repositories with the request ID, caller and route', async () => {
+    const admin = await harness.authAs(ADMIN_EMAIL);
+    const adminId = (await harness.container.resolve('userRepository').findByEmail(ADMIN_EMAIL))!.id;
+
+    const res = await request(harness.app)
+      .post('/api/users')
+      .set('Authorization', admin)
+      .set('X-Request-Id', 'ctx-test-1')
+      .send({ name: 'Context Person', email: 'context@example.com' });
+
+    expect(res.status).toBe(201);
+    expect(res.headers['x-request-id']).toBe('ctx-test-1');
+    expect(contexts).toEqual([{ requestId: 'ctx-test-1', userId: adminId, route: '/api/users' }]);
+  });
+
+  it('survives a body that arrives after the headers', async () => {
+    const admin = await harness.authAs(ADMIN_EMAIL);
+    const server = harness.app.listen(0);
+    const { port } = server.address() as AddressInfo;
+    const body = JSON.stringify({ name: 'Slow Person', email: 'slow@example.com' });
+
+    const status = await new Promise<number | undefined>((resolve, reject) => {
+      const req = http.request({
+        port,
+        method: 'POST',
+        path: '/api/users',
+        headers: { 'Authorization': admin, 'Content-Type': 'application/json', 'X-Request-Id': 'slow-body' },
+      }, res => resolve(res.resume().statusCode));
+      req.on('error', reject);
+      req.flushHeaders();
+      setTimeout(() => req.end(body), 50);
+    });
+    server.close();
+
+    expect(status).toBe(201);
+    expect(contexts).toEqual([expect.objectContaining({ requestId: 'slow-body', route: '/api/users' })]);
+  });
+
+  it('keeps concurrent requests apart', async () => {
+    const admin = await harness.authAs(ADMIN_EMAIL);
+
+    await Promise.all(['a', 'b', 'c'].map(id => request(harness.app)
+      .post('/api/users')
+      .set('Authorization', admin)
+      .set('X-Request-Id', `parallel-${id}`)
+      .send({ name: `Parallel ${id}`, email: `parallel-${id}@example.com` })));
+
+    // Serialization failures retry a create in the context of its own request
+    const requestIds = new Set(contexts.map(context => context?.requestId));
+    expect([...requestIds].sort()).toEqual(['parallel-a', 'parallel-b', 'parallel-c']);
+  });
+
+  it('is absent outside of a request', () => {
+    updateRequestContext({ userId: 1 });
+
+    expect(getRequestContext()).toBeUndefined();
+    expect(runWithRequestContext({ requestId: 'job' }, () => {
+      updateRequestContext({ route: 'cleanup' });
+      return getRequestContext();
+    })).toEqual({ requestId: 'job', route: 'cleanup' });
+  });
+});
@@ -0,0 +1,120 @@
+import request from 'supertest';
+import { ADMIN_EMAIL, ADMIN_PASSWORD, createHarness, TestHarness } from '../support/harness';
+import * as password from '../../src/utils/password';
+
+describe('security middleware', () => {
+  let harness: TestHarness;
+
+  beforeAll(async () => {
+    harness = await createHarness();
+  });
+
+  afterAll(async () => {
+    await harness.close();
+  });
+
+  describe('headers', () => {
+    it('locks API responses down', async () => {
+      const res = await request(harness.app).get('/api/hello');
+
+      expect(res.headers['content-security-policy']).toContain("default-src 'none'");
+      expect(res.headers['x-content-type-options']).toBe('nosniff');
+      expect(res.headers['x-frame-options']).toBe('DENY');
+      expect(res.headers['x-powered-by']).toBeUndefined();
+      expect(res.headers['strict-transport-security']).toBeUndefined();
+    });
+
+    it('lets the documentation page load its own scripts and styles', async () => {
+      const res = await request(harness.app).get('/api/docs');
+
+      expect(res.headers['content-security-policy']).toContain("script-src 'self'");
+      expect(res.headers['content-security-policy']).toContain("style-src 'self'");
+    });
+  });
+
+  describe('CORS', () => {
+    const origin = 'https://app.example.com';
+
+    it('answers preflight requests from allowed origins', async () => {
+      const res = await request(harness.app)
+        .options('/api/users/1')
+        .set('Origin', origin)
+        .set('Access-Control-Request-Method', 'PATCH')
+        .set('Access-Control-Request-Headers', 'authorization, content-type');
+
+      expect(res.status).toBe(204);
+      expect(res.headers['access-control-allow-origin']).toBe(origin);
+      expect(res.headers['access-control-allow-methods']).toContain('PATCH');
+      expect(res.headers['access-control-allow-headers']).toContain('Authorization');
+      expect(res.headers['access-control-max-age']).toBe('600');
+    });
+
+    it('exposes the caching and rate limit headers to allowed origins', async () => {
+      const res = await request(harness.app).get('/api/hello').set('Origin', origin);
+
+      expect(res.status).toBe(200);
+      expect(res.headers['access-control-allow-origin']).toBe(origin);
+      expect(res.headers['access-control-expose-headers']).toContain('ETag');
+      expect(res.headers['access-control-expose-headers']).toContain('RateLimit-Remaining');
+      expect(res.headers.vary).toContain('Origin');
+    });
+
+    it('rejects other origins', async () => {
+      const res = await request(harness.app).get('/api/hello').set('Origin', 'https://evil.example.com');
+
+      expect(res.status).toBe(403);
+      expect(res.body).toMatchObject({ success: false, code: 'CORS_ORIGIN_DENIED' });
+      expect(res.headers['access-control-allow-origin']).toBeUndefined();
+    });
+  });
+
+  describe('login', () => {
+    it('lets the seeded admin log in and use their permissions', async () => {
+      const login = await request(harness.app)
+        .post('/api/auth/login')
+        .send({ email: ADMIN_EMAIL, password: ADMIN_PASSWORD });
+
+      expect(login.status).toBe(200);
+      const created = await request(harness.app)
+        .post('/api/users')
+        .set('Authorization', `Bearer ${login.body.data.tokens.accessToken}`)
+        .send({ name: 'Seeded Admin Made', email: 'seeded-admin@example.com' });
+      expect(created.status).toBe(201);
+    });
+
+    it('checks a password hash for unknown emails too', async () => {
+      const verify = jest.spyOn(password, 'verifyPassword');
+
+      const res = await request(harness.app)
+        .post('/api/auth/login')
+        .send({ email: 'nobody@example.com', password: 'password123' });
+
+      expect(res.status).toBe(401);
+      expect(verify).toHaveBeenCalledWith('password123', password.DUMMY_PASSWORD_HASH);
+      await expect(verify.mock.results[0]?.value).resolves.toBe(false);
+      verify.mockRestore();
+    });
+  });
+
+  describe('request bodies', () => {
+    it('rejects bodies over the size limit', async () => {
+      const res = await request(harness.app)
+        .post('/api/auth/login')
+        .send({ email: 'a@example.com', password: 'x'.repeat(200 * 1024) });
+
+      expect(res.status).toBe(413);
+      expect(res.body).toMatchObject({ success: false, code: 'PAYLOAD_TOO_LARGE' });
+    });
+
+    it('requires JSON on write routes', async () => {
+      const res = await request(harness.app)
+        .post('/api/users')
+        .set('Authorization', await harness.authAs(ADMIN_EMAIL))
+        .type('form')
+        .send({ name: 'Form User', email: 'form@example.com' });
+
+      expect(res.status).toBe(415);
+      expect(res.body.code).toBe('UNSUPPORTED_MEDIA_TYPE');
+    });
+  });
+});
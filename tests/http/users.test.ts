@@ -0,0 +1,593 @@
+import request from 'supertest';
+import { ADMIN_EMAIL, USER_EMAIL, createHarness, TestHarness } from '../support/harness';
+
+describe('/api/users', () => {
+  let harness: TestHarness;
+  let admin: string;
+  let user: string;
+
+  beforeAll(async () => {
+    harness = await createHarness();
+    admin = await harness.authAs(ADMIN_EMAIL);
+    user = await harness.authAs(USER_EMAIL);
+  });
+
+  afterAll(async () => {
+    await harness.close();
+  });
+
+  const createUser = async (name: string, email: string) => {
+    const res = await request(harness.app)
+      .post('/api/users')
+      .set('Authorization', admin)
+      .send({ name, email });
+    expect(res.status).toBe(201);
+    return res.body.data as { id: number; name: string; email: string };
+  };
+
+  describe('GET /api/users', () => {
+    beforeAll(async () => {
+      await createUser('Carol', 'carol@list.test');
+      await createUser('Alice', 'alice@list.test');
+      await createUser('Bob', 'bob@list.test');
+    });
+
+    it('returns a page of users with meta and links', async () => {
+      const res = await request(harness.app).get('/api/users?emailDomain=list.test&limit=2');
+
+      expect(res.status).toBe(200);
+      expect(res.body.data).toHaveLength(2);
+      expect(res.body.meta).toMatchObject({ total: 3, limit: 2, page: 1, totalPages: 2, hasMore: true });
+      expect(res.body.links.next).toContain('page=2');
+    });
+
+    it('sorts by the requested fields', async () => {
+      const res = await request(harness.app).get('/api/users?emailDomain=list.test&sort=-name');
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.map((u: { name: string }) => u.name)).toEqual(['Carol', 'Bob', 'Alice']);
+    });
+
+    it('follows cursors to the next page', async () => {
+      const first = await request(harness.app).get('/api/users?emailDomain=list.test&sort=name&limit=2');
+      const second = await request(harness.app)
+        .get(`/api/users?emailDomain=list.test&sort=name&limit=2&after=${first.body.meta.nextCursor}`);
+
+      expect(second.status).toBe(200);
+      expect(second.body.data.map((u: { name: string }) => u.name)).toEqual(['Carol']);
+      expect(second.body.meta.hasMore).toBe(false);
+    });
+
+    it('filters by search term', async () => {
+      const res = await request(harness.app).get('/api/users?search=ALI');
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.map((u: { email: string }) => u.email)).toEqual(['alice@list.test']);
+    });
+
+    it('rejects unknown sort fields', async () => {
+      const res = await request(harness.app).get('/api/users?sort=password');
+
+      expect(res.status).toBe(422);
+      expect(res.body.errors[0]).toMatchObject({ field: 'sort', rule: 'sort' });
+    });
+
+    it('revalidates a page with its weak ETag', async () => {
+      const first = await request(harness.app).get('/api/users?emailDomain=list.test');
+      const res = await request(harness.app)
+        .get('/api/users?emailDomain=list.test')
+        .set('If-None-Match', first.headers.etag as string);
+
+      expect(first.headers.etag).toMatch(/^W\/"/);
+      expect(first.headers['last-modified']).toBeUndefined();
+      expect(res.status).toBe(304);
+    });
+
+    it('rejects a cursor that does not match the sort order', async () => {
+      const first = await request(harness.app).get('/api/users?emailDomain=list.test&sort=name&limit=1');
+      const res = await request(harness.app).get(`/api/users?after=${first.body.meta.nextCursor}`);
+
+      expect(res.status).toBe(422);
+      expect(res.body.errors[0]).toMatchObject({ field: 'after', rule: 'cursor' });
+    });
+
+    it('requires authentication to include deleted users', async () => {
+      const res = await request(harness.app).get('/api/users?includeDeleted=true');
+
+      expect(res.status).toBe(401);
+      expect(res.body.code).toBe('MISSING_TOKEN');
+    });
+
+    it('requires permission to include deleted users', async () => {
+      const res = await request(harness.app).get('/api/users?includeDeleted=true').set('Authorization', user);
+
+      expect(res.status).toBe(403);
+      expect(res.body.code).toBe('MISSING_PERMISSION');
+    });
+  });
+
+  describe('searching users', () => {
+    beforeAll(async () => {
+      await createUser('Danny Ocean', 'danny@search.test');
+      await createUser('Marina Blue', 'marina@ocean.test');
+      await createUser('Dana Whitfield', 'dana@search.test');
+    });
+
+    const names = (res: request.Response) => res.body.data.map((u: { name: string }) => u.name);
+
+    it('ranks name matches above email matches and highlights them', async () => {
+      const res = await request(harness.app).get('/api/users?search=ocean');
+
+      expect(res.status).toBe(200);
+      expect(res.body.data).toEqual([
+        expect.objectContaining({ name: 'Danny Ocean', highlights: { name: 'Danny <mark>Ocean</mark>' } }),
+        expect.objectContaining({ name: 'Marina Blue', highlights: { email: 'marina@<mark>ocean</mark>.test' } }),
+      ]);
+    });
+
+    it('matches despite typos', async () => {
+      const res = await request(harness.app).get('/api/users?search=whitfeild');
+
+      expect(names(res)).toEqual(['Dana Whitfield']);
+      expect(res.body.data[0].highlights).toEqual({ name: 'Dana <mark>Whitfield</mark>' });
+    });
+
+    it('pages results ordered by relevance by number only', async () => {
+      const second = await request(harness.app).get('/api/users?search=ocean&limit=1&page=2');
+      const cursor = await request(harness.app).get('/api/users?search=ocean&limit=1&after=WzFd');
+
+      expect(names(second)).toEqual(['Marina Blue']);
+      expect(second.body.meta).toMatchObject({ total: 2, page: 2, hasMore: false });
+      expect(cursor.status).toBe(422);
+      expect(cursor.body.errors[0]).toMatchObject({ field: 'after', rule: 'cursor' });
+    });
+
+    it('keeps cursors when a sort is given', async () => {
+      const res = await request(harness.app).get('/api/users?search=ocean&sort=-name&limit=1');
+
+      expect(names(res)).toEqual(['Marina Blue']);
+      expect(res.body.meta.nextCursor).toEqual(expect.any(String));
+    });
+
+    describe('GET /api/users/suggest', () => {
+      it('completes word prefixes, name matches first', async () => {
+        const res = await request(harness.app).get('/api/users/suggest?q=oce');
+
+        expect(res.status).toBe(200);
+        expect(res.body.data).toEqual([
+          { id: expect.any(Number), name: 'Danny Ocean', email: 'danny@search.test', highlights: { name: 'Danny <mark>Oce</mark>an' } },
+          { id: expect.any(Number), name: 'Marina Blue', email: 'marina@ocean.test', highlights: { email: 'marina@<mark>oce</mark>an.test' } },
+        ]);
+      });
+
+      it('requires every word to match and honours the limit', async () => {
+        const both = await request(harness.app).get('/api/users/suggest?q=dan%20o');
+        const limited = await request(harness.app).get('/api/users/suggest?q=dan&limit=1');
+
+        expect(names(both)).toEqual(['Danny Ocean']);
+        expect(names(limited)).toEqual(['Dana Whitfield']);
+      });
+
+      it('requires q', async () => {
+        const res = await request(harness.app).get('/api/users/suggest');
+
+        expect(res.status).toBe(422);
+        expect(res.body.errors[0]).toMatchObject({ field: 'q', rule: 'required' });
+      });
+    });
+  });
+
+  describe('GET /api/users/me', () => {
+    it('returns the caller with roles and permissions', async () => {
+      const res = await request(harness.app).get('/api/users/me').set('Authorization', user);
+
+      expect(res.status).toBe(200);
+      expect(res.body.data).toMatchObject({ email: USER_EMAIL, roles: ['user'] });
+      expect(res.body.data.permissions).toContain('users:update:own');
+      expect(res.body.data.permissions).not.toContain('users:delete');
+    });
+
+    it('rejects requests without a token', async () => {
+      const res = await request(harness.app).get('/api/users/me');
+
+      expect(res.status).toBe(401);
+    });
+
+    it('rejects invalid tokens', async () => {
+      const res = await request(harness.app).get('/api/users/me').set('Authorization', 'Bearer nope');
+
+      expect(res.status).toBe(401);
+      expect(res.body.code).toBe('INVALID_TOKEN');
+    });
+  });
+
+  describe('GET /api/users/:id', () => {
+    it('returns the user', async () => {
+      const created = await createUser('Dave', 'dave@get.test');
+      const res = await request(harness.app).get(`/api/users/${created.id}`);
+
+      expect(res.status).toBe(200);
+      expect(res.body.data).toMatchObject({ id: created.id, name: 'Dave', email: 'dave@get.test' });
+      expect(res.body.data).not.toHaveProperty('passwordHash');
+    });
+
+    it('answers 304 while the user is unchanged', async () => {
+      const created = await createUser('Edna', 'edna@get.test');
+      const first = await request(harness.app).get(`/api/users/${created.id}`);
+      const revalidate = () => request(harness.app)
+        .get(`/api/users/${created.id}`)
+        .set('If-None-Match', first.headers.etag as string);
+
+      expect(first.headers['cache-control']).toBe('private, no-cache');
+      expect(first.headers.etag).toBe('"0"');
+      expect(first.headers['last-modified']).toBeDefined();
+      expect((await revalidate()).status).toBe(304);
+
+      await request(harness.app)
+        .put(`/api/users/${created.id}`)
+        .set('Authorization', admin)
+        .send({ name: 'Edna M.', email: 'edna@get.test' });
+      expect((await revalidate()).status).toBe(200);
+    });
+
+    it('honours If-Modified-Since', async () => {
+      const created = await createUser('Fay', 'fay@get.test');
+      const first = await request(harness.app).get(`/api/users/${created.id}`);
+      const res = await request(harness.app)
+        .get(`/api/users/${created.id}`)
+        .set('If-Modified-Since', first.headers['last-modified'] as string);
+
+      expect(res.status).toBe(304);
+    });
+
+    it('responds 404 for unknown users', async () => {
+      const res = await request(harness.app).get('/api/users/999999');
+
+      expect(res.status).toBe(404);
+      expect(res.body.code).toBe('USER_NOT_FOUND');
+    });
+
+    it('rejects non-numeric IDs', async () => {
+      const res = await request(harness.app).get('/api/users/abc');
+
+      expect(res.status).toBe(422);
+      expect(res.body.errors[0]).toMatchObject({ field: 'id', location: 'params' });
+    });
+  });
+
+  describe('POST /api/users', () => {
+    it('creates a user', async () => {
+      const res = await request(harness.app)
+        .post('/api/users')
+        .set('Authorization', admin)
+        .send({ name: 'Erin', email: 'erin@create.test' });
+
+      expect(res.status).toBe(201);
+      expect(res.body.data).toMatchObject({ name: 'Erin', email: 'erin@create.test' });
+      expect(res.body.data.id).toEqual(expect.any(Number));
+    });
+
+    it('rejects duplicate emails regardless of case', async () => {
+      await createUser('Frank', 'frank@create.test');
+      const res = await request(harness.app)
+        .post('/api/users')
+        .set('Authorization', admin)
+        .send({ name: 'Frank Again', email: 'FRANK@create.test' });
+
+      expect(res.status).toBe(409);
+      expect(res.body.code).toBe('USER_EMAIL_TAKEN');
+    });
+
+    it('keeps emails unique whatever their case when a write skips the check', async () => {
+      const store = harness.container.resolve('userStore');
+      await store.create({ name: 'Olga', email: 'olga@create.test' });
+
+      await expect(store.create({ name: 'Olga Again', email: 'OLGA@create.test' }))
+        .rejects.toMatchObject({ statusCode: 409, code: 'USER_EMAIL_TAKEN' });
+    });
+
+    it('treats % and _ in emails literally', async () => {
+      await createUser('Grace', 'grace@create.test');
+
+      const underscore = await createUser('Gr_ce', 'gr_ce@create.test');
+      const percent = await createUser('Percent', '%@create.test');
+      const login = await request(harness.app).post('/api/auth/login').send({ email: '%', password: 'password123' });
+
+      expect(underscore.email).toBe('gr_ce@create.test');
+      expect(percent.email).toBe('%@create.test');
+      expect(login.status).toBe(422);
+      expect(login.body.errors[0]).toMatchObject({ field: 'email', rule: 'email' });
+    });
+
+    it('validates the body', async () => {
+      const res = await request(harness.app)
+        .post('/api/users')
+        .set('Authorization', admin)
+        .send({ name: '', email: 'not-an-email' });
+
+      expect(res.status).toBe(422);
+      expect(res.body.errors.map((e: { field: string }) => e.field).sort()).toEqual(['email', 'name']);
+    });
+
+    it('requires the users:create permission', async () => {
+      const res = await request(harness.app)
+        .post('/api/users')
+        .set('Authorization', user)
+        .send({ name: 'Gina', email: 'gina@create.test' });
+
+      expect(res.status).toBe(403);
+      expect(res.body.message).toBe('Missing permission: users:create');
+    });
+
+    it('requires authentication', async () => {
+      const res = await request(harness.app).post('/api/users').send({ name: 'Gina', email: 'gina@create.test' });
+
+      expect(res.status).toBe(401);
+    });
+  });
+
+  describe('PUT /api/users/:id', () => {
+    it('lets admins replace any user', async () => {
+      const created = await createUser('Hank', 'hank@update.test');
+      const res = await request(harness.app)
+        .put(`/api/users/${created.id}`)
+        .set('Authorization', admin)
+        .send({ name: 'Henry', email: 'henry@update.test' });
+
+      expect(res.status).toBe(200);
+      expect(res.body.data).toMatchObject({ id: created.id, name: 'Henry', email: 'henry@update.test', version: 1 });
+      expect(res.headers.etag).toBe('"1"');
+    });
+
+    it('lets users replace their own account', async () => {
+      const me = (await request(harness.app).get('/api/users/me').set('Authorization', user)).body.data;
+      const res = await request(harness.app)
+        .put(`/api/users/${me.id}`)
+        .set('Authorization', user)
+        .send({ name: 'Jane Q. Smith', email: me.email });
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.name).toBe('Jane Q. Smith');
+    });
+
+    it('requires every writable field', async () => {
+      const created = await createUser('Gus', 'gus@update.test');
+      const res = await request(harness.app)
+        .put(`/api/users/${created.id}`)
+        .set('Authorization', admin)
+        .send({ name: 'Gustav' });
+
+      expect(res.status).toBe(422);
+      expect(res.body.errors).toEqual([expect.objectContaining({ field: 'email', rule: 'required' })]);
+    });
+
+    it('rejects an email that belongs to another user', async () => {
+      const created = await createUser('Ida', 'ida@update.test');
+      const res = await request(harness.app)
+        .put(`/api/users/${created.id}`)
+        .set('Authorization', admin)
+        .send({ name: 'Ida', email: ADMIN_EMAIL.toUpperCase() });
+
+      expect(res.status).toBe(409);
+      expect(res.body.code).toBe('USER_EMAIL_TAKEN');
+    });
+
+    it('applies the update only while If-Match names the current version', async () => {
+      const created = await createUser('Jill', 'jill@update.test');
+      const { headers } = await request(harness.app).get(`/api/users/${created.id}`);
+      const write = (name: string) => request(harness.app)
+        .put(`/api/users/${created.id}`)
+        .set('Authorization', admin)
+        .set('If-Match', headers.etag as string)
+        .send({ name, email: 'jill@update.test' });
+
+      expect((await write('Jillian')).status).toBe(200);
+
+      const stale = await write('Gillian');
+      expect(stale.status).toBe(412);
+      expect(stale.body.code).toBe('USER_VERSION_MISMATCH');
+    });
+
+    it('forbids users from updating other accounts', async () => {
+      const created = await createUser('Ivy', 'ivy@update.test');
+      const res = await request(harness.app)
+        .put(`/api/users/${created.id}`)
+        .set('Authorization', user)
+        .send({ name: 'Hacked', email: 'ivy@update.test' });
+
+      expect(res.status).toBe(403);
+    });
+
+    it('checks the permission before the body, as on create', async () => {
+      const created = await createUser('Ike', 'ike@update.test');
+      const res = await request(harness.app)
+        .put(`/api/users/${created.id}`)
+        .set('Authorization', user)
+        .send({ name: '' });
+
+      expect(res.status).toBe(403);
+    });
+
+    it('responds 404 for unknown users', async () => {
+      const res = await request(harness.app)
+        .put('/api/users/999999')
+        .set('Authorization', admin)
+        .send({ name: 'Nobody', email: 'nobody@update.test' });
+
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe('PATCH /api/users/:id', () => {
+    const patch = (id: number) => request(harness.app).patch(`/api/users/${id}`).set('Authorization', admin);
+
+    it('applies a JSON Merge Patch', async () => {
+      const created = await createUser('Kim', 'kim@patch.test');
+      const res = await patch(created.id)
+        .set('Content-Type', 'application/merge-patch+json')
+        .send(JSON.stringify({ name: 'Kimberly' }));
+
+      expect(res.status).toBe(200);
+      expect(res.body.data).toMatchObject({ name: 'Kimberly', email: 'kim@patch.test', version: 1 });
+      expect(res.headers.etag).toBe('"1"');
+    });
+
+    it('applies a JSON Patch', async () => {
+      const created = await createUser('Lou', 'lou@patch.test');
+      const res = await patch(created.id)
+        .set('Content-Type', 'application/json-patch+json')
+        .send(JSON.stringify([
+          { op: 'test', path: '/name', value: 'Lou' },
+          { op: 'replace', path: '/email', value: 'louis@patch.test' },
+        ]));
+
+      expect(res.status).toBe(200);
+      expect(res.body.data).toMatchObject({ name: 'Lou', email: 'louis@patch.test' });
+    });
+
+    it('responds 409 when a test operation fails', async () => {
+      const created = await createUser('Max', 'max@patch.test');
+      const res = await patch(created.id)
+        .set('Content-Type', 'application/json-patch+json')
+        .send(JSON.stringify([{ op: 'test', path: '/name', value: 'Maxine' }]));
+
+      expect(res.status).toBe(409);
+      expect(res.body.code).toBe('PATCH_TEST_FAILED');
+    });
+
+    it('validates the patched user', async () => {
+      const created = await createUser('Ned', 'ned@patch.test');
+      const res = await patch(created.id)
+        .set('Content-Type', 'application/merge-patch+json')
+        .send(JSON.stringify({ name: null, id: 1 }));
+
+      expect(res.status).toBe(422);
+      expect(res.body.errors).toEqual(expect.arrayContaining([
+        expect.objectContaining({ field: 'name', rule: 'required' }),
+        expect.objectContaining({ field: 'id', rule: 'readOnly' }),
+      ]));
+    });
+
+    it('rejects malformed JSON Patch documents', async () => {
+      const created = await createUser('Olga', 'olga@patch.test');
+      const res = await patch(created.id)
+        .set('Content-Type', 'application/json-patch+json')
+        .send(JSON.stringify([{ op: 'remove', path: '/nickname' }]));
+
+      expect(res.status).toBe(422);
+      expect(res.body.errors[0]).toMatchObject({ field: '/0/path', rule: 'pointer' });
+    });
+
+    it('responds 415 with Accept-Patch for other media types', async () => {
+      const created = await createUser('Pia', 'pia@patch.test');
+      const res = await patch(created.id).send({ name: 'Pia' });
+
+      expect(res.status).toBe(415);
+      expect(res.headers['accept-patch']).toBe('application/merge-patch+json, application/json-patch+json');
+    });
+  });
+
+  describe('DELETE /api/users/:id, restore and purge', () => {
+    it('soft-deletes, restores and purges a user', async () => {
+      const created = await createUser('Jack', 'jack@delete.test');
+
+      const deleted = await request(harness.app).delete(`/api/users/${created.id}`).set('Authorization', admin);
+      expect(deleted.status).toBe(200);
+      expect((await request(harness.app).get(`/api/users/${created.id}`)).status).toBe(404);
+
+      const withDeleted = await request(harness.app)
+        .get(`/api/users/${created.id}?includeDeleted=true`)
+        .set('Authorization', admin);
+      expect(withDeleted.status).toBe(200);
+      expect(withDeleted.body.data.deletedAt).not.toBeNull();
+
+      const restored = await request(harness.app)
+        .post(`/api/users/${created.id}/restore`)
+        .set('Authorization', admin);
+      expect(restored.status).toBe(200);
+      expect(restored.body.data.deletedAt).toBeNull();
+
+      const purged = await request(harness.app)
+        .delete(`/api/users/${created.id}/purge`)
+        .set('Authorization', admin);
+      expect(purged.status).toBe(200);
+
+      const gone = await request(harness.app)
+        .get(`/api/users/${created.id}?includeDeleted=true`)
+        .set('Authorization', admin);
+      expect(gone.status).toBe(404);
+    });
+
+    it('lets a deleted user\'s email be registered again', async () => {
+      const created = await createUser('Kim', 'kim@delete.test');
+      await request(harness.app).delete(`/api/users/${created.id}`).set('Authorization', admin);
+
+      const replacement = await createUser('Kim Two', 'kim@delete.test');
+      const restore = await request(harness.app)
+        .post(`/api/users/${created.id}/restore`)
+        .set('Authorization', admin);
+
+      expect(replacement.id).not.toBe(created.id);
+      expect(restore.status).toBe(409);
+      expect(restore.body.code).toBe('USER_EMAIL_TAKEN');
+    });
+
+    it('refuses to restore a user that is not deleted', async () => {
+      const created = await createUser('Liam', 'liam@delete.test');
+      const res = await request(harness.app)
+        .post(`/api/users/${created.id}/restore`)
+        .set('Authorization', admin);
+
+      expect(res.status).toBe(409);
+      expect(res.body.code).toBe('USER_NOT_DELETED');
+    });
+
+    it('requires the delete, restore and purge permissions', async () => {
+      const created = await createUser('Mia', 'mia@delete.test');
+
+      const deleted = await request(harness.app).delete(`/api/users/${created.id}`).set('Authorization', user);
+      const restored = await request(harness.app).post(`/api/users/${created.id}/restore`).set('Authorization', user);
+      const purged = await request(harness.app).delete(`/api/users/${created.id}/purge`).set('Authorization', user);
+
+      expect([deleted.status, restored.status, purged.status]).toEqual([403, 403, 403]);
+    });
+
+    it('responds 404 when deleting unknown users', async () => {
+      const res = await request(harness.app).delete('/api/users/999999').set('Authorization', admin);
+
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe('GET /api/users/:id/history', () => {
+    it('lists the audit trail of a user, newest first', async () => {
+      const created = await createUser('Nora', 'nora@history.test');
+      await request(harness.app)
+        .put(`/api/users/${created.id}`)
+        .set('Authorization', admin)
+        .send({ name: 'Nora B.', email: 'nora@history.test' });
+
+      const res = await request(harness.app)
+        .get(`/api/users/${created.id}/history`)
+        .set('Authorization', admin);
+
+      expect(res.status).toBe(200);
+      expect(res.body.data.map((e: { action: string }) => e.action)).toEqual(['user.updated', 'user.created']);
+      expect(res.body.data[0]).toMatchObject({
+        before: { name: 'Nora' },
+        after: { name: 'Nora B.' },
+      });
+    });
+
+    it('lets users read their own history only', async () => {
+      const me = (await request(harness.app).get('/api/users/me').set('Authorization', user)).body.data;
+      const created = await createUser('Omar', 'omar@history.test');
+
+      const own = await request(harness.app).get(`/api/users/${me.id}/history`).set('Authorization', user);
+      const other = await request(harness.app).get(`/api/users/${created.id}/history`).set('Authorization', user);
+
+      expect(own.status).toBe(200);
+      expect(other.status).toBe(403);
+    });
+  });
+});
@@ -0,0 +1,185 @@
+import express from 'express';
+import pino from 'pino';
+import request from 'supertest';
+import { config } from '../../src/config';
+import { LogLevels, LogOptions, Logger, createLoggerOptions } from '../../src/utils/logger';
+import { requestLogger } from '../../src/middleware/logger';
+import { requestContext } from '../../src/middleware/requestContext';
+
+const options = (overrides: Partial<LogOptions> = {}): LogOptions => ({ ...config.log, level: 'info', ...overrides });
+
+describe('createLoggerOptions', () => {
+  const capture = (logOptions: LogOptions) => {
+    const lines: Array<Record<string, any>> = [];
+    const logger = pino(createLoggerOptions(logOptions), { write: (line: string) => lines.push(JSON.parse(line)) });
+    return { logger, lines };
+  };
+
+  it('censors emails, auth headers, tokens and configured paths', () => {
+    const { logger, lines } = capture(options({ redactPaths: ['card.number'] }));
+
+    logger.info({
+      email: 'jane@example.com',
+      user: { id: 2, email: 'jane@example.com' },
+      headers: { authorization: 'Bearer abc', host: 'api.example.com' },
+      tokens: { accessToken: 'a', refreshToken: 'r' },
+      query: { search: 'jane@', page: '2' },
+      card: { number: '4111111111111111', brand: 'visa' },
+    }, 'Lookup');
+
+    expect(lines[0]).toMatchObject({
+      email: '[REDACTED]',
+      user: { id: 2, email: '[REDACTED]' },
+      headers: { authorization: '[REDACTED]', host: 'api.example.com' },
+      tokens: { accessToken: '[REDACTED]', refreshToken: '[REDACTED]' },
+      query: { search: '[REDACTED]', page: '2' },
+      card: { number: '[REDACTED]', brand: 'visa' },
+    });
+  });
+
+  it('writes to stdout in process unless a file or pretty output is wanted', () => {
+    expect(createLoggerOptions(options({ pretty: false })).transport).toBeUndefined();
+  });
+
+  it('adds a rotating file next to stdout', () => {
+    const file = { path: 'logs/app.log', frequency: 'daily' as const, size: '10m', count: 7 };
+
+    const { transport } = createLoggerOptions(options({ pretty: false, file }));
+
+    expect(transport).toEqual({
+      targets: [
+        { target: 'pino/file', level: 'trace', options: { destination: 1 } },
+        {
+          target: 'pino-roll',
+          level: 'trace',
+          options: {
+            file: 'logs/app',
+            extension: '.log',
+            frequency: 'daily',
+            size: '10m',
+            limit: { count: 7 },
+            mkdir: true,
+          },
+        },
+      ],
+    });
+  });
+});
+
+describe('requestLogger', () => {
+  let info: jest.SpyInstance;
+  let warn: jest.SpyInstance;
+
+  beforeEach(() => {
+    info = jest.spyOn(Logger.prototype, 'info').mockImplementation(() => {});
+    warn = jest.spyOn(Logger.prototype, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const app = (sampleRate: number, slowRequestMs: number) => express()
+    .use(requestContext, requestLogger({ sampleRate, slowRequestMs }))
+    .get('/fast', (req, res) => { res.send('ok'); })
+    .get('/slow', async (req, res) => {
+      await new Promise(resolve => setTimeout(resolve, 30));
+      res.send('ok');
+    });
+  const messages = (spy: jest.SpyInstance): string[] => spy.mock.calls.map(call => call[0]);
+
+  it('logs every request by default', async () => {
+    await request(app(1, 0)).get('/fast');
+
+    expect(messages(info)).toEqual(['Incoming request', 'Outgoing response']);
+  });
+
+  it('drops successful requests left out of the sample but keeps failures', async () => {
+    await request(app(0, 0)).get('/fast');
+    await request(app(0, 0)).get('/missing?email=jane@example.com');
+
+    expect(messages(info)).toEqual(['Outgoing response']);
+    expect(info.mock.calls[0][1]).toMatchObject({ path: '/missing', statusCode: 404 });
+    expect(JSON.stringify(info.mock.calls)).not.toContain('jane@example.com');
+  });
+
+  it('warns about slow requests with their timing, whatever the sample', async () => {
+    await request(app(0, 20)).get('/slow');
+    await request(app(0, 20)).get('/fast');
+
+    expect(messages(warn)).toEqual(['Slow request']);
+    expect(warn.mock.calls[0][1]).toMatchObject({ path: '/slow', statusCode: 200, thresholdMs: 20 });
+    expect(warn.mock.calls[0][1].durationMs).toBeGreaterThanOrEqual(20);
+    expect(messages(info)).toEqual([]);
+  });
+});
+
+describe('LogLevels', () => {
+  let root: pino.Logger;
+  let levels: LogLevels;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    root = pino({ level: 'info' });
+    levels = new LogLevels(root, 'info');
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('applies a module level to the loggers of the module, including later ones', () => {
+    const early = levels.forModule('UserService').child({ requestId: 'a' });
+
+    levels.set('debug', 60, 'UserService');
+    const late = levels.forModule('UserService').child({ requestId: 'b' });
+
+    expect(early.isLevelEnabled('debug')).toBe(true);
+    expect(late.isLevelEnabled('debug')).toBe(true);
+    expect(levels.forModule('AuthService').isLevelEnabled('debug')).toBe(false);
+  });
+
+  it('keeps module levels when the global level changes', () => {
+    levels.set('error', 60, 'UserService');
+    levels.set('debug', 60);
+
+    expect(levels.forModule('UserService').level).toBe('error');
+    expect(levels.forModule('AuthService').level).toBe('debug');
+  });
+
+  it('reverts to the configured level when the TTL runs out', () => {
+    const userService = levels.forModule('UserService');
+    levels.set('debug', 60);
+    levels.set('trace', 120, 'UserService');
+
+    jest.advanceTimersByTime(60_000);
+    expect(root.level).toBe('info');
+    expect(userService.level).toBe('trace');
+
+    jest.advanceTimersByTime(60_000);
+    expect(userService.level).toBe('info');
+    expect(levels.report().modules).toEqual([{ module: 'UserService', level: 'info', expiresAt: null }]);
+  });
+
+  it('restarts the TTL when a level is set again', () => {
+    levels.set('debug', 60);
+    jest.advanceTimersByTime(30_000);
+    levels.set('debug', 60);
+    jest.advanceTimersByTime(45_000);
+
+    expect(root.level).toBe('debug');
+  });
+
+  it('keeps what the parent bound when a module child is built from it', () => {
+    const lines: Array<Record<string, any>> = [];
+    root = pino({ level: 'info', base: { env: 'test' } }, { write: (line: string) => lines.push(JSON.parse(line)) });
+    levels = new LogLevels(root, 'info');
+
+    const request = levels.childOf(root, { requestId: 'r1' });
+    levels.childOf(request, { module: 'UserService', userId: 2 }).info('Loaded');
+
+    expect(lines[0]).toMatchObject({ env: 'test', requestId: 'r1', module: 'UserService', userId: 2, msg: 'Loaded' });
+    levels.set('warn', 60, 'UserService');
+    expect(levels.childOf(request, { module: 'UserService' }).isLevelEnabled('info')).toBe(false);
+  });
+});
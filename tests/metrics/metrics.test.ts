@@ -0,0 +1,69 @@
+import { Sequelize } from 'sequelize';
+import { Metrics } from '../../src/metrics/Metrics';
+
+type Hook = (options: object, query: object) => void;
+
+/**
+ * Sequelize stand-in that exposes the hooks registered on it
+ */
+function fakeSequelize(pool: Record<string, number>) {
+  const hooks: Record<string, Hook> = {};
+  const sequelize = {
+    addHook: (name: string, hook: Hook) => { hooks[name] = hook; },
+    connectionManager: { pool },
+  } as unknown as Sequelize;
+  return { sequelize, hooks };
+}
+
+describe('Metrics.observeDatabase', () => {
+  it('times queries by type', async () => {
+    const metrics = new Metrics();
+    const { sequelize, hooks } = fakeSequelize({});
+    metrics.observeDatabase(sequelize);
+
+    const select = {};
+    const raw = {};
+    hooks.beforeQuery!({ type: 'SELECT' }, select);
+    hooks.beforeQuery!({}, raw);
+    hooks.afterQuery!({ type: 'SELECT' }, select);
+    hooks.afterQuery!({}, raw);
+
+    const { values } = await metrics.dbQueryDuration.get();
+    const counts = values.filter(value => value.metricName === 'db_query_duration_seconds_count');
+    expect(counts).toEqual([
+      expect.objectContaining({ labels: { operation: 'SELECT' }, value: 1 }),
+      expect.objectContaining({ labels: { operation: 'RAW' }, value: 1 }),
+    ]);
+  });
+
+  it('hooks into a Sequelize instance once however many metrics observe it', async () => {
+    const first = new Metrics();
+    const second = new Metrics();
+    const { sequelize, hooks } = fakeSequelize({});
+    const addHook = jest.spyOn(sequelize, 'addHook');
+    first.observeDatabase(sequelize);
+    second.observeDatabase(sequelize);
+
+    const query = {};
+    hooks.beforeQuery!({ type: 'SELECT' }, query);
+    hooks.afterQuery!({ type: 'SELECT' }, query);
+
+    expect(addHook).toHaveBeenCalledTimes(2);
+    expect((await first.dbQueryDuration.get()).values.some(value => value.value > 0)).toBe(false);
+    expect((await second.dbQueryDuration.get()).values).toContainEqual(
+      expect.objectContaining({ metricName: 'db_query_duration_seconds_count', labels: { operation: 'SELECT' }, value: 1 }),
+    );
+  });
+
+  it('reports the connection pool when scraped', async () => {
+    const metrics = new Metrics();
+    metrics.observeDatabase(fakeSequelize({ size: 4, available: 1, using: 3, waiting: 2, maxSize: 5 }).sequelize);
+
+    const text = await metrics.render();
+
+    expect(text).toContain('db_pool_connections{state="using"} 3');
+    expect(text).toContain('db_pool_connections{state="available"} 1');
+    expect(text).toContain('db_pool_connections{state="waiting"} 2');
+    expect(text).toContain('db_pool_max_connections 5');
+  });
+});
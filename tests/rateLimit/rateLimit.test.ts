@@ -0,0 +1,63 @@
+import { MemoryRateLimitStore } from '../../src/rateLimit/MemoryRateLimitStore';
+import { RedisRateLimitStore } from '../../src/rateLimit/RedisRateLimitStore';
+import { decide } from '../../src/rateLimit/slidingWindow';
+import { FakeRedisClient } from '../support/fakes';
+
+describe('decide', () => {
+  const policy = { limit: 10, windowSeconds: 60, keyBy: 'ip' as const };
+
+  it('allows requests up to the limit', () => {
+    expect(decide(policy, { current: 10, previous: 0 }, 15_000)).toEqual({
+      allowed: true,
+      remaining: 0,
+      resetSeconds: 45,
+    });
+  });
+
+  it('counts the part of the previous window that still overlaps', () => {
+    // Three quarters of the previous window's 8 requests still count
+    expect(decide(policy, { current: 4, previous: 8 }, 15_000)).toMatchObject({ allowed: true, remaining: 0 });
+    expect(decide(policy, { current: 5, previous: 8 }, 15_000)).toMatchObject({ allowed: false, remaining: 0 });
+  });
+
+  it('waits for the previous window to slide out far enough', () => {
+    // 8 * overlap drops below the 5 requests left once 22.5s of the window have passed
+    expect(decide(policy, { current: 5, previous: 8 }, 15_000).resetSeconds).toBe(8);
+  });
+
+  it('waits into the next window once the current one is full', () => {
+    // 45s until the window ends, then 11 * overlap fits 10 after 1/11 of a window
+    expect(decide(policy, { current: 11, previous: 0 }, 15_000).resetSeconds).toBe(51);
+  });
+});
+
+describe('MemoryRateLimitStore', () => {
+  it('moves the count to the previous window when a new one starts', async () => {
+    const store = new MemoryRateLimitStore();
+    await store.increment('hello:ip:1', 1, 60_000);
+    await store.increment('hello:ip:1', 1, 60_000);
+
+    expect(await store.increment('hello:ip:1', 2, 60_000)).toEqual({ current: 1, previous: 2 });
+    expect(await store.increment('hello:ip:1', 4, 60_000)).toEqual({ current: 1, previous: 0 });
+    expect(await store.increment('hello:ip:2', 4, 60_000)).toEqual({ current: 1, previous: 0 });
+  });
+});
+
+describe('RedisRateLimitStore', () => {
+  it('keeps a counter per window that expires after the next one', async () => {
+    const client = new FakeRedisClient();
+    const store = new RedisRateLimitStore(client, 'test:');
+    await store.increment('hello:ip:1', 1, 60_000);
+    await store.increment('hello:ip:1', 2, 60_000);
+
+    expect(await store.increment('hello:ip:1', 2, 60_000)).toEqual({ current: 2, previous: 1 });
+    expect(client.keys()).toEqual(['test:hello:ip:1:1', 'test:hello:ip:1:2']);
+  });
+
+  it('fails when Redis is down', async () => {
+    const client = new FakeRedisClient();
+    client.down = true;
+
+    await expect(new RedisRateLimitStore(client, 'test:').increment('hello:ip:1', 1, 60_000)).rejects.toThrow();
+  });
+});
@@ -0,0 +1,43 @@
+import { fuzzyQuery, highlight, matchesPrefixes, prefixTsQuery, searchTerms, wordSimilarity } from '../../src/utils/search';
+
+describe('search helpers', () => {
+  it('splits queries into lowercase words without punctuation', () => {
+    expect(searchTerms('  John O\'Brien, john@EXAMPLE.com ')).toEqual(['john', 'o', 'brien', 'example', 'com']);
+    expect(searchTerms('@%_')).toEqual([]);
+  });
+
+  it('builds a prefix tsquery requiring every term', () => {
+    expect(prefixTsQuery(['jo', 'sm'])).toBe('jo:* & sm:*');
+  });
+
+  it('only matches fuzzily from four characters', () => {
+    expect(fuzzyQuery(['jo'])).toBeUndefined();
+    expect(fuzzyQuery(['jo', 'sm'])).toBe('jo sm');
+  });
+
+  it('matches terms as prefixes of words', () => {
+    expect(matchesPrefixes(['ja', 'smi'], 'Jane Smith')).toBe(true);
+    expect(matchesPrefixes(['ane'], 'Jane Smith')).toBe(false);
+    expect(matchesPrefixes([], 'Jane Smith')).toBe(false);
+  });
+
+  it('measures word similarity like pg_trgm', () => {
+    expect(wordSimilarity('word', 'two words')).toBeCloseTo(0.8);
+    expect(wordSimilarity('smiht', 'Jane Smith')).toBeCloseTo(0.5);
+    expect(wordSimilarity('zzz', 'Jane Smith')).toBe(0);
+  });
+
+  describe('highlight', () => {
+    it('marks matched prefixes and misspelt words', () => {
+      expect(highlight('Jane Smith', ['ja', 'smiht'])).toBe('<mark>Ja</mark>ne <mark>Smith</mark>');
+    });
+
+    it('escapes the text around the marks', () => {
+      expect(highlight('<Jane> & "Co"', ['jane'])).toBe('&#60;<mark>Jane</mark>&#62; &#38; &#34;Co&#34;');
+    });
+
+    it('returns undefined when nothing matched', () => {
+      expect(highlight('Jane Smith', ['bob'])).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,4 @@
+// Runs before each test file, ahead of any application module
+process.env.LOG_LEVEL = process.env.LOG_LEVEL || 'silent';
+process.env.JWT_SECRET = process.env.JWT_SECRET || 'test-secret';
+process.env.CORS_ORIGINS = process.env.CORS_ORIGINS || 'https://app.example.com';
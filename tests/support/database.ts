@@ -0,0 +1,89 @@
+import { readdirSync } from 'fs';
+import path from 'path';
+import { DataTypes, Options, Sequelize } from 'sequelize';
+
+interface Step {
+  up(queryInterface: ReturnType<Sequelize['getQueryInterface']>): Promise<void>;
+}
+
+interface TestSchema {
+  sequelize: Sequelize;
+  schema: string;
+}
+
+const SRC = path.resolve(__dirname, '../../src');
+
+/**
+ * Jest loads the application, and so the shared sequelize instance, once per
+ * test file: the schema lives as long as the file, whatever number of
+ * harnesses it builds
+ */
+let current: Promise<TestSchema> | undefined;
+
+/**
+ * Create, migrate and seed the schema of this test file on first use
+ */
+export function useTestSchema(sequelize: Sequelize): Promise<string> {
+  current ??= (async () => {
+    const schema = await createTestSchema(sequelize);
+    await migrateAndSeed(sequelize);
+    return { sequelize, schema };
+  })();
+  return current.then(({ schema }) => schema);
+}
+
+/**
+ * Drop the schema of this test file, if one was created, and close the pool
+ */
+export async function releaseTestSchema(): Promise<void> {
+  if (!current) {
+    return;
+  }
+
+  const { sequelize, schema } = await current;
+  current = undefined;
+  await sequelize.query(`DROP SCHEMA "${schema}" CASCADE`);
+  await sequelize.close();
+}
+
+/**
+ * Point every pooled connection at a new, empty schema
+ * Must run before the first query so no connection escapes the hook. The
+ * query interface qualifies the tables of migrations with the schema option
+ * rather than following the search path.
+ */
+async function createTestSchema(sequelize: Sequelize): Promise<string> {
+  const schema = `test_${process.pid}_${Date.now()}`;
+
+  sequelize.addHook('afterConnect', async connection => {
+    // public stays on the path for extensions installed there, such as pg_trgm
+    await (connection as { query(sql: string): Promise<unknown> }).query(`SET search_path TO "${schema}", public`);
+  });
+  await sequelize.query(`CREATE SCHEMA "${schema}"`);
+  (sequelize as unknown as { options: Options }).options.schema = schema;
+
+  return schema;
+}
+
+/**
+ * Run every migration, then every seeder, in file name order
+ * Applied migrations are recorded in SequelizeMeta, as sequelize-cli does,
+ * so the readiness probe finds nothing pending.
+ */
+async function migrateAndSeed(sequelize: Sequelize): Promise<void> {
+  const queryInterface = sequelize.getQueryInterface();
+  await queryInterface.createTable('SequelizeMeta', {
+    name: { type: DataTypes.STRING(255), allowNull: false, primaryKey: true },
+  });
+
+  for (const dir of ['migrations', 'seeders']) {
+    const files = readdirSync(path.join(SRC, dir)).filter(file => file.endsWith('.ts')).sort();
+    for (const file of files) {
+      const step: Step = (await import(path.join(SRC, dir, file))).default;
+      await step.up(queryInterface);
+      if (dir === 'migrations') {
+        await queryInterface.bulkInsert('SequelizeMeta', [{ name: file }]);
+      }
+    }
+  }
+}
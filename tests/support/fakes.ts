@@ -0,0 +1,194 @@
+import { RoleRepository } from '../../src/repositories/RoleRepository';
+import { RefreshTokenRepository } from '../../src/repositories/RefreshTokenRepository';
+import { InMemoryRepository } from '../../src/repositories/InMemoryRepository';
+import { AuditEvent, AuditFilters } from '../../src/types/Audit';
+import { RefreshTokenRecord } from '../../src/types/Auth';
+import { Role, RoleName } from '../../src/types/Permission';
+import { SortField } from '../../src/types/Pagination';
+import { RedisClient } from '../../src/cache/RedisCache';
+import { RedisCounterClient } from '../../src/rateLimit/RedisRateLimitStore';
+
+/**
+ * Role permissions as granted by the seeders
+ */
+export const ROLE_PERMISSIONS: Record<RoleName, string[]> = {
+  [RoleName.ADMIN]: [
+    'users:create',
+    'users:update',
+    'users:update:own',
+    'users:delete',
+    'users:restore',
+    'users:purge',
+    'users:read:deleted',
+    'audit:read',
+    'audit:read:own',
+    'cache:read',
+    'logs:manage',
+  ],
+  [RoleName.USER]: ['users:update:own', 'audit:read:own'],
+};
+
+/**
+ * Roles and role assignments kept in memory
+ */
+export class InMemoryRoleRepository implements RoleRepository {
+  private roles: Role[] = Object.values(RoleName).map((name, i) => ({ id: i + 1, name }));
+  private assignments = new Map<number, Set<number>>();
+
+  public async findByName(name: string): Promise<Role | undefined> {
+    return this.roles.find(role => role.name === name);
+  }
+
+  public async findRolesForUser(userId: number): Promise<Role[]> {
+    const roleIds = this.assignments.get(userId) ?? new Set<number>();
+    return this.roles.filter(role => roleIds.has(role.id));
+  }
+
+  public async findPermissionNamesForUser(userId: number): Promise<string[]> {
+    const roles = await this.findRolesForUser(userId);
+    return [...new Set(roles.flatMap(role => ROLE_PERMISSIONS[role.name as RoleName]))];
+  }
+
+  public async assignRole(userId: number, roleId: number): Promise<void> {
+    const roleIds = this.assignments.get(userId) ?? new Set<number>();
+    this.assignments.set(userId, roleIds.add(roleId));
+  }
+}
+
+/**
+ * Refresh tokens kept in memory
+ */
+export class InMemoryRefreshTokenRepository implements RefreshTokenRepository {
+  private tokens: Array<RefreshTokenRecord & { tokenHash: string }> = [];
+
+  public async create(userId: number, tokenHash: string, expiresAt: Date): Promise<RefreshTokenRecord> {
+    const token = { id: this.tokens.length + 1, userId, tokenHash, expiresAt, revokedAt: null, replacedById: null };
+    this.tokens.push(token);
+    return this.toRecord(token);
+  }
+
+  public async findByHash(tokenHash: string): Promise<RefreshTokenRecord | undefined> {
+    const token = this.tokens.find(t => t.tokenHash === tokenHash);
+    return token ? this.toRecord(token) : undefined;
+  }
+
+  public async revoke(id: number, replacedById?: number): Promise<boolean> {
+    const token = this.tokens.find(t => t.id === id && !t.revokedAt);
+    if (!token) {
+      return false;
+    }
+    token.revokedAt = new Date();
+    token.replacedById = replacedById ?? null;
+    return true;
+  }
+
+  public async revokeAllForUser(userId: number): Promise<number> {
+    const active = this.tokens.filter(t => t.userId === userId && !t.revokedAt);
+    active.forEach(t => { t.revokedAt = new Date(); });
+    return active.length;
+  }
+
+  private toRecord({ tokenHash: _tokenHash, ...record }: RefreshTokenRecord & { tokenHash: string }): RefreshTokenRecord {
+    return { ...record };
+  }
+}
+
+/**
+ * Audit events kept in memory, newest first
+ */
+export class InMemoryAuditRepository extends InMemoryRepository<AuditEvent, AuditFilters> {
+  protected override defaultSort: SortField<AuditEvent>[] = [
+    { field: 'createdAt', direction: 'DESC' },
+    { field: 'id', direction: 'DESC' },
+  ];
+
+  protected override build(id: number, data: Partial<AuditEvent>): AuditEvent {
+    return {
+      id,
+      actorId: data.actorId ?? null,
+      action: data.action ?? '',
+      entityType: data.entityType ?? '',
+      entityId: data.entityId ?? '',
+      before: data.before ?? null,
+      after: data.after ?? null,
+      requestId: data.requestId ?? null,
+      ip: data.ip ?? null,
+      createdAt: new Date(),
+    };
+  }
+
+  protected override matches(event: AuditEvent, filters: AuditFilters = {}): boolean {
+    return (filters.actorId === undefined || event.actorId === filters.actorId)
+      && (filters.action === undefined || event.action === filters.action)
+      && (filters.entityType === undefined || event.entityType === filters.entityType)
+      && (filters.entityId === undefined || event.entityId === filters.entityId)
+      && (filters.from === undefined || event.createdAt >= filters.from)
+      && (filters.to === undefined || event.createdAt <= filters.to);
+  }
+}
+
+/**
+ * Local stand-in for a Redis server with the commands RedisCache and
+ * RedisRateLimitStore use
+ * Set `down` to make every command fail like a lost connection.
+ */
+export class FakeRedisClient implements RedisClient, RedisCounterClient {
+  public down = false;
+  private entries = new Map<string, { value: string; expiresAt: number }>();
+
+  public async get(key: string): Promise<string | null> {
+    this.check();
+    const entry = this.entries.get(key);
+    return entry && entry.expiresAt > Date.now() ? entry.value : null;
+  }
+
+  public async set(key: string, value: string, _mode: 'PX', milliseconds: number): Promise<'OK'> {
+    this.check();
+    this.entries.set(key, { value, expiresAt: Date.now() + milliseconds });
+    return 'OK';
+  }
+
+  public async del(...keys: string[]): Promise<number> {
+    this.check();
+    return keys.filter(key => this.entries.delete(key)).length;
+  }
+
+  public async incr(key: string): Promise<number> {
+    const value = Number((await this.get(key)) ?? 0) + 1;
+    const entry = this.entries.get(key);
+    this.entries.set(key, {
+      value: String(value),
+      expiresAt: entry && entry.expiresAt > Date.now() ? entry.expiresAt : Infinity,
+    });
+    return value;
+  }
+
+  public async pexpire(key: string, milliseconds: number): Promise<number> {
+    this.check();
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return 0;
+    }
+    entry.expiresAt = Date.now() + milliseconds;
+    return 1;
+  }
+
+  public async ping(): Promise<'PONG'> {
+    this.check();
+    return 'PONG';
+  }
+
+  public async quit(): Promise<'OK'> {
+    return 'OK';
+  }
+
+  public keys(): string[] {
+    return [...this.entries.keys()];
+  }
+
+  private check(): void {
+    if (this.down) {
+      throw new Error('Connection is closed.');
+    }
+  }
+}
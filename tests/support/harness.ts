@@ -0,0 +1,96 @@
+import { Application } from 'express';
+import { createApp } from '../../src/app';
+import { Container, createContainer } from '../../src/container';
+import { InMemoryUserRepository } from '../../src/repositories/InMemoryUserRepository';
+import { RoleName } from '../../src/types/Permission';
+import { cacheCheck } from '../../src/health/checks';
+import { Metrics } from '../../src/metrics/Metrics';
+import { InMemoryAuditRepository, InMemoryRefreshTokenRepository, InMemoryRoleRepository } from './fakes';
+import { useTestSchema } from './database';
+import { DEMO_ADMIN_PASSWORD_HASH } from '../../src/seeders/20240101000000-demo-users';
+
+/**
+ * Users created by the demo seeders, with the role the roles seeder gives them
+ */
+export const ADMIN_EMAIL = 'john@example.com';
+export const USER_EMAIL = 'jane@example.com';
+/**
+ * Password of the seeded admin, as documented in the README
+ */
+export const ADMIN_PASSWORD = 'admin-password';
+
+const SEED_USERS = [
+  { name: 'John Doe', email: ADMIN_EMAIL, role: RoleName.ADMIN, passwordHash: DEMO_ADMIN_PASSWORD_HASH },
+  { name: 'Jane Smith', email: USER_EMAIL, role: RoleName.USER },
+];
+
+/**
+ * Set TEST_DATABASE=true to run the suites against a throwaway Postgres
+ * schema instead of the in-memory repositories
+ */
+export const usesDatabase = process.env.TEST_DATABASE === 'true';
+
+export interface TestHarness {
+  app: Application;
+  container: Container;
+  /**
+   * Authorization header value for a seeded or created user
+   */
+  authAs(email: string): Promise<string>;
+  /**
+   * Nothing to release yet: the database schema outlives the harness
+   */
+  close(): Promise<void>;
+}
+
+/**
+ * Build an app whose storage is either in memory or a migrated and seeded
+ * Postgres schema, depending on TEST_DATABASE
+ * The harnesses of a test file share its schema, dropped after the file's
+ * last test.
+ * @param configure - Replaces bindings before the routes are built
+ */
+export async function createHarness(configure: (container: Container) => void = () => {}): Promise<TestHarness> {
+  const container = createContainer();
+
+  if (usesDatabase) {
+    await useTestSchema(container.resolve('sequelize'));
+  } else {
+    container
+      .instance('userStore', new InMemoryUserRepository())
+      .instance('roleRepository', new InMemoryRoleRepository())
+      .instance('refreshTokenRepository', new InMemoryRefreshTokenRepository())
+      .instance('auditRepository', new InMemoryAuditRepository())
+      .instance('unitOfWork', work => work())
+      .register('metrics', () => new Metrics())
+      .register('healthChecks', c => [cacheCheck(c.resolve('cache'))]);
+    await seedInMemory(container);
+  }
+  configure(container);
+
+  return {
+    app: createApp(container),
+    container,
+    authAs: async (email: string) => {
+      const user = await container.resolve('userRepository').findByEmail(email);
+      if (!user) {
+        throw new Error(`No user with email ${email}`);
+      }
+      const tokens = await container.resolve('tokenService').issueTokens(user);
+      return `Bearer ${tokens.accessToken}`;
+    },
+    close: async () => {},
+  };
+}
+
+async function seedInMemory(container: Container): Promise<void> {
+  const users = container.resolve('userRepository');
+  const permissions = container.resolve('permissionService');
+
+  for (const { name, email, role, passwordHash } of SEED_USERS) {
+    const user = passwordHash
+      ? await users.createWithPassword({ name, email }, passwordHash)
+      : await users.create({ name, email });
+    await permissions.assignRole(user.id, role);
+  }
+}
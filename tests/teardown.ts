@@ -0,0 +1,4 @@
+import { releaseTestSchema } from './support/database';
+
+// Runs after each test file; integration runs drop the schema its harnesses shared
+afterAll(() => releaseTestSchema());
@@ -0,0 +1,165 @@
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import request from 'supertest';
+import { SpanStatusCode, context, propagation, trace } from '@opentelemetry/api';
+import { ExportResultCode } from '@opentelemetry/core';
+import { InMemorySpanExporter, ReadableSpan, SimpleSpanProcessor } from '@opentelemetry/sdk-trace-base';
+import { NodeTracerProvider } from '@opentelemetry/sdk-trace-node';
+import { Sequelize } from 'sequelize';
+import { config } from '../../src/config';
+import { activeTraceIds, startTracing, withSpan } from '../../src/tracing/tracing';
+import { traceQueries, traced } from '../../src/tracing/instrument';
+import { FileSpanExporter } from '../../src/tracing/FileSpanExporter';
+import { createHarness, TestHarness } from '../support/harness';
+
+const TRACE_ID = '4bf92f3577b34da6a3ce929d0e0e4736';
+const PARENT_ID = '00f067aa0ba902b7';
+
+describe('tracing', () => {
+  const exporter = new InMemorySpanExporter();
+  let provider: NodeTracerProvider;
+  let harness: TestHarness;
+
+  beforeAll(async () => {
+    provider = startTracing(config.tracing, [new SimpleSpanProcessor(exporter)]);
+    harness = await createHarness();
+  });
+
+  afterEach(() => {
+    exporter.reset();
+  });
+
+  afterAll(async () => {
+    await harness.close();
+    await provider.shutdown();
+    trace.disable();
+    context.disable();
+    propagation.disable();
+  });
+
+  const spanNamed = (name: string): ReadableSpan => {
+    const span = exporter.getFinishedSpans().find(s => s.name === name);
+    if (!span) {
+      throw new Error(`No span named ${name} in ${exporter.getFinishedSpans().map(s => s.name).join(', ')}`);
+    }
+    return span;
+  };
+
+  describe('HTTP requests', () => {
+    it('continue the caller trace through controllers and services', async () => {
+      const res = await request(harness.app)
+        .get('/api/users/1')
+        .set('traceparent', `00-${TRACE_ID}-${PARENT_ID}-01`);
+
+      const server = spanNamed('GET /api/users/:id');
+      const controller = spanNamed('UserController.getUserById');
+      const service = spanNamed('UserService.getUserById');
+
+      expect(res.status).toBe(200);
+      expect(server.spanContext().traceId).toBe(TRACE_ID);
+      expect(server.parentSpanContext?.spanId).toBe(PARENT_ID);
+      expect(server.attributes).toMatchObject({ 'http.route': '/api/users/:id', 'http.response.status_code': 200 });
+      expect(controller.parentSpanContext?.spanId).toBe(server.spanContext().spanId);
+      expect(service.parentSpanContext?.spanId).toBe(controller.spanContext().spanId);
+      expect(res.headers['x-request-id']).toBe(TRACE_ID);
+      expect(res.headers.traceresponse).toBe(`00-${TRACE_ID}-${server.spanContext().spanId}-01`);
+    });
+
+    it('keep the span active through body parsing', async () => {
+      const admin = await harness.authAs('john@example.com');
+      await request(harness.app)
+        .post('/api/users')
+        .set('Authorization', admin)
+        .send({ name: 'Traced Person', email: 'traced@example.com' });
+
+      const server = spanNamed('POST /api/users');
+      expect(spanNamed('UserService.createUser').spanContext().traceId).toBe(server.spanContext().traceId);
+    });
+
+    it('start a new trace without a traceparent header', async () => {
+      const res = await request(harness.app).get('/api/hello');
+
+      const server = spanNamed('GET /api/hello');
+      expect(server.parentSpanContext).toBeUndefined();
+      expect(res.headers['x-request-id']).toBe(server.spanContext().traceId);
+    });
+
+    it('echo a well-formed X-Request-Id and replace any other', async () => {
+      const given = await request(harness.app).get('/api/hello').set('X-Request-Id', 'checkout-42.retry:1');
+      const forged = await request(harness.app).get('/api/hello').set('X-Request-Id', 'a b"} {"level":60');
+
+      expect(given.headers['x-request-id']).toBe('checkout-42.retry:1');
+      expect(forged.headers['x-request-id']).toMatch(/^[0-9a-f]{32}$/);
+    });
+  });
+
+  it('exposes the active span IDs for log lines', () => {
+    const ids = withSpan('work', span => ({ expected: span.spanContext(), actual: activeTraceIds() }));
+
+    expect(ids.actual).toEqual({ traceId: ids.expected.traceId, spanId: ids.expected.spanId });
+    expect(activeTraceIds()).toBeUndefined();
+  });
+
+  it('records errors thrown by traced methods', async () => {
+    const service = traced({ fail: async () => { throw new Error('boom'); } }, 'FlakyService');
+
+    await expect(service.fail()).rejects.toThrow('boom');
+
+    const span = spanNamed('FlakyService.fail');
+    expect(span.status).toEqual({ code: SpanStatusCode.ERROR, message: 'boom' });
+    expect(span.events[0]?.name).toBe('exception');
+  });
+
+  it('gives Sequelize queries client spans under the active span', () => {
+    const hooks: Record<string, (options: object, query: object) => void> = {};
+    const sequelize = { addHook: (name: string, hook: () => void) => { hooks[name] = hook; } } as unknown as Sequelize;
+    traceQueries(sequelize);
+
+    withSpan('parent', () => {
+      const query = { run: async () => [] };
+      hooks.beforeQuery!({ type: 'SELECT' }, query);
+      hooks.afterQuery!({ type: 'SELECT' }, query);
+    });
+
+    expect(spanNamed('SELECT').parentSpanContext?.spanId).toBe(spanNamed('parent').spanContext().spanId);
+    expect(spanNamed('SELECT').attributes).toMatchObject({ 'db.system.name': 'postgresql', 'db.operation.name': 'SELECT' });
+  });
+
+  it('marks the spans of failed queries as errors', async () => {
+    const hooks: Record<string, (options: object, query: object) => void> = {};
+    const sequelize = { addHook: (name: string, hook: () => void) => { hooks[name] = hook; } } as unknown as Sequelize;
+    traceQueries(sequelize);
+
+    const query = { run: () => Promise.reject(new Error('deadlock detected')) };
+    hooks.beforeQuery!({ type: 'UPDATE' }, query);
+    await expect(query.run()).rejects.toThrow('deadlock detected');
+    hooks.afterQuery!({ type: 'UPDATE' }, query);
+
+    const span = spanNamed('UPDATE');
+    expect(span.status).toEqual({ code: SpanStatusCode.ERROR, message: 'deadlock detected' });
+    expect(span.events[0]?.name).toBe('exception');
+  });
+});
+
+describe('FileSpanExporter', () => {
+  it('appends one JSON line per span', async () => {
+    const dir = mkdtempSync(path.join(tmpdir(), 'traces-'));
+    const file = path.join(dir, 'traces.jsonl');
+    const memory = new InMemorySpanExporter();
+    const provider = new NodeTracerProvider({ spanProcessors: [new SimpleSpanProcessor(memory)] });
+    const tracer = provider.getTracer('test');
+    tracer.startSpan('first').end();
+    tracer.startSpan('second').end();
+
+    const exporter = new FileSpanExporter(file);
+    const result = await new Promise(resolve => exporter.export(memory.getFinishedSpans(), resolve));
+    await exporter.shutdown();
+
+    const lines = readFileSync(file, 'utf8').trim().split('\n').map(line => JSON.parse(line));
+    expect(result).toEqual({ code: ExportResultCode.SUCCESS });
+    expect(lines.map(line => line.name)).toEqual(['first', 'second']);
+    expect(lines[0].traceId).toMatch(/^[0-9a-f]{32}$/);
+    rmSync(dir, { recursive: true, force: true });
+  });
+});